@@ -0,0 +1,17 @@
+import { AIInterviewer } from '@/lib/ai-interviewer';
+import { AppreciationResponse } from '@/lib/interview-api';
+import { handleInterviewRequest } from '@/lib/server/interview-route';
+import { getServerLLMProvider } from '@/lib/server/llm-provider';
+import { validateAppreciationRequest } from '@/lib/server/validation';
+
+export async function POST(request: Request) {
+  return handleInterviewRequest(request, validateAppreciationRequest, async ({ answer, language }, sessionId) => {
+    const interviewer = new AIInterviewer('general', getServerLLMProvider(sessionId), { language });
+
+    const response: AppreciationResponse = {
+      appreciation: await interviewer.generateAppreciation(answer),
+      degraded: interviewer.getDegradedStatus() ?? undefined
+    };
+    return response;
+  });
+}
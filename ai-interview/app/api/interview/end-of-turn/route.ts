@@ -0,0 +1,17 @@
+import { TurnCompletenessChecker } from '@/lib/end-of-turn';
+import { EndOfTurnResponse } from '@/lib/interview-api';
+import { handleInterviewRequest } from '@/lib/server/interview-route';
+import { getServerLLMProvider } from '@/lib/server/llm-provider';
+import { createHighFrequencyLimiters } from '@/lib/server/rate-limit';
+import { validateEndOfTurnRequest } from '@/lib/server/validation';
+
+// Checked at every pause in an answer
+const limiters = createHighFrequencyLimiters();
+
+export async function POST(request: Request) {
+  return handleInterviewRequest(request, validateEndOfTurnRequest, async ({ transcript, question }, sessionId) => {
+    const checker = new TurnCompletenessChecker(getServerLLMProvider(sessionId));
+    const response: EndOfTurnResponse = { complete: await checker.check(transcript, question) };
+    return response;
+  }, limiters);
+}
@@ -0,0 +1,30 @@
+import { AIInterviewer } from '@/lib/ai-interviewer';
+import { FirstQuestionResponse } from '@/lib/interview-api';
+import { createComplianceAuditSink } from '@/lib/server/compliance-audit';
+import { handleInterviewRequest } from '@/lib/server/interview-route';
+import { getServerLLMProvider } from '@/lib/server/llm-provider';
+import { validateFirstQuestionRequest } from '@/lib/server/validation';
+
+export async function POST(request: Request) {
+  return handleInterviewRequest(request, validateFirstQuestionRequest, async ({ interviewType, rubric, plan, length, documents, jurisdiction, language }, sessionId) => {
+    const interviewer = new AIInterviewer(interviewType, getServerLLMProvider(sessionId), {
+      rubric,
+      plan,
+      length,
+      jurisdiction,
+      language,
+      onQuestionBlocked: createComplianceAuditSink(sessionId)
+    });
+    if (documents) {
+      await interviewer.prepare(documents);
+    }
+    const question = await interviewer.generateFirstQuestion();
+
+    const response: FirstQuestionResponse = {
+      question,
+      context: interviewer.getContext(),
+      degraded: interviewer.getDegradedStatus() ?? undefined
+    };
+    return response;
+  });
+}
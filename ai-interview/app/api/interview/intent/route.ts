@@ -0,0 +1,14 @@
+import { IntentClassifier } from '@/lib/candidate-intents';
+import { IntentResponse } from '@/lib/interview-api';
+import { DEFAULT_LANGUAGE } from '@/lib/languages';
+import { handleInterviewRequest } from '@/lib/server/interview-route';
+import { getServerLLMProvider } from '@/lib/server/llm-provider';
+import { validateIntentRequest } from '@/lib/server/validation';
+
+export async function POST(request: Request) {
+  return handleInterviewRequest(request, validateIntentRequest, async ({ transcript, question, language }, sessionId) => {
+    const classifier = new IntentClassifier(getServerLLMProvider(sessionId));
+    const response: IntentResponse = await classifier.classify(transcript, question, language ?? DEFAULT_LANGUAGE);
+    return response;
+  });
+}
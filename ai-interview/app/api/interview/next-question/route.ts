@@ -0,0 +1,24 @@
+import { AIInterviewer } from '@/lib/ai-interviewer';
+import { NextQuestionResponse } from '@/lib/interview-api';
+import { createComplianceAuditSink } from '@/lib/server/compliance-audit';
+import { signEvaluation } from '@/lib/server/evaluation-signing';
+import { handleInterviewRequest } from '@/lib/server/interview-route';
+import { getServerLLMProvider } from '@/lib/server/llm-provider';
+import { validateNextQuestionRequest } from '@/lib/server/validation';
+
+export async function POST(request: Request) {
+  return handleInterviewRequest(request, validateNextQuestionRequest, async ({ context, answer, currentQuestion, code, timing }, sessionId) => {
+    const interviewer = AIInterviewer.fromContext(context, getServerLLMProvider(sessionId), {
+      onQuestionBlocked: createComplianceAuditSink(sessionId),
+      signEvaluation
+    });
+    const question = await interviewer.generateNextQuestion(answer, currentQuestion, code, timing);
+
+    const response: NextQuestionResponse = {
+      question,
+      context: interviewer.getContext(),
+      degraded: interviewer.getDegradedStatus() ?? undefined
+    };
+    return response;
+  });
+}
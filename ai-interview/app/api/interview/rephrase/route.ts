@@ -0,0 +1,21 @@
+import { AIInterviewer } from '@/lib/ai-interviewer';
+import { RephraseResponse } from '@/lib/interview-api';
+import { createComplianceAuditSink } from '@/lib/server/compliance-audit';
+import { handleInterviewRequest } from '@/lib/server/interview-route';
+import { getServerLLMProvider } from '@/lib/server/llm-provider';
+import { validateRephraseRequest } from '@/lib/server/validation';
+
+export async function POST(request: Request) {
+  return handleInterviewRequest(request, validateRephraseRequest, async ({ context, question }, sessionId) => {
+    const interviewer = AIInterviewer.fromContext(context, getServerLLMProvider(sessionId), {
+      onQuestionBlocked: createComplianceAuditSink(sessionId)
+    });
+
+    const response: RephraseResponse = {
+      question: await interviewer.rephraseQuestion(question),
+      context: interviewer.getContext(),
+      degraded: interviewer.getDegradedStatus() ?? undefined
+    };
+    return response;
+  });
+}
@@ -0,0 +1,16 @@
+import { AIInterviewer } from '@/lib/ai-interviewer';
+import { ReportResponse } from '@/lib/interview-api';
+import { handleInterviewRequest } from '@/lib/server/interview-route';
+import { getServerLLMProvider } from '@/lib/server/llm-provider';
+import { validateReportRequest } from '@/lib/server/validation';
+
+export async function POST(request: Request) {
+  return handleInterviewRequest(request, validateReportRequest, async ({ context }, sessionId) => {
+    const interviewer = AIInterviewer.fromContext(context, getServerLLMProvider(sessionId));
+
+    const response: ReportResponse = {
+      report: await interviewer.generateReport()
+    };
+    return response;
+  });
+}
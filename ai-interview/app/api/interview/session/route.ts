@@ -0,0 +1,5 @@
+import { handleSessionRequest } from '@/lib/server/interview-route';
+
+export async function POST(request: Request) {
+  return handleSessionRequest(request);
+}
@@ -0,0 +1,53 @@
+import { InterviewApiErrorBody, SpeechVoicesResponse } from '@/lib/interview-api';
+import { handleInterviewRequest } from '@/lib/server/interview-route';
+import { createHighFrequencyLimiters } from '@/lib/server/rate-limit';
+import { getServerSynthesizer, SynthesisError } from '@/lib/server/speech-synthesis';
+import { validateSpeechRequest } from '@/lib/server/validation';
+
+// Every sentence the interviewer says is a request
+const limiters = createHighFrequencyLimiters();
+
+const notConfigured = (): Response => {
+  const body: InterviewApiErrorBody = { error: 'Server text-to-speech is not configured' };
+  return Response.json(body, { status: 503 });
+};
+
+export async function GET() {
+  const synthesizer = getServerSynthesizer();
+  if (!synthesizer) {
+    return notConfigured();
+  }
+
+  const body: SpeechVoicesResponse = { voices: synthesizer.voices };
+  return Response.json(body);
+}
+
+export async function POST(request: Request) {
+  return handleInterviewRequest(request, validateSpeechRequest, async ({ text, voice, rate }) => {
+    const synthesizer = getServerSynthesizer();
+    if (!synthesizer) {
+      return notConfigured();
+    }
+    if (voice !== undefined && !synthesizer.hasVoice(voice)) {
+      const body: InterviewApiErrorBody = { error: `Unknown voice "${voice}"` };
+      return Response.json(body, { status: 400 });
+    }
+
+    try {
+      const { audio, contentType } = await synthesizer.synthesize(text, { voice, rate });
+      return new Response(audio, {
+        headers: {
+          'Content-Type': contentType,
+          'Cache-Control': 'no-cache'
+        }
+      });
+    } catch (error) {
+      if (error instanceof SynthesisError) {
+        console.error('Speech synthesis error:', error.message);
+        const body: InterviewApiErrorBody = { error: 'Speech synthesis failed' };
+        return Response.json(body, { status: 502 });
+      }
+      throw error;
+    }
+  }, limiters);
+}
@@ -0,0 +1,30 @@
+import { InterviewApiErrorBody } from '@/lib/interview-api';
+import { handleInterviewRequest } from '@/lib/server/interview-route';
+import { createHighFrequencyLimiters } from '@/lib/server/rate-limit';
+import { getServerTranscriber, TranscriptionError } from '@/lib/server/transcription';
+import { validateTranscribeRequest } from '@/lib/server/validation';
+
+// Every pause in an answer sends a segment
+const limiters = createHighFrequencyLimiters();
+
+export async function POST(request: Request) {
+  return handleInterviewRequest(request, validateTranscribeRequest, async ({ audio, language }) => {
+    const transcriber = getServerTranscriber();
+    if (!transcriber) {
+      const body: InterviewApiErrorBody = { error: 'Server speech-to-text is not configured' };
+      return Response.json(body, { status: 503 });
+    }
+
+    try {
+      const wav = new Blob([Uint8Array.from(Buffer.from(audio, 'base64'))], { type: 'audio/wav' });
+      return await transcriber.transcribe(wav, language);
+    } catch (error) {
+      if (error instanceof TranscriptionError) {
+        console.error('Transcription error:', error.message);
+        const body: InterviewApiErrorBody = { error: 'Transcription failed' };
+        return Response.json(body, { status: 502 });
+      }
+      throw error;
+    }
+  }, limiters);
+}
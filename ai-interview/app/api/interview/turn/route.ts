@@ -0,0 +1,16 @@
+import { AIInterviewer } from '@/lib/ai-interviewer';
+import { createComplianceAuditSink } from '@/lib/server/compliance-audit';
+import { signEvaluation } from '@/lib/server/evaluation-signing';
+import { handleInterviewRequest, ndjsonResponse } from '@/lib/server/interview-route';
+import { getServerLLMProvider } from '@/lib/server/llm-provider';
+import { validateNextQuestionRequest } from '@/lib/server/validation';
+
+export async function POST(request: Request) {
+  return handleInterviewRequest(request, validateNextQuestionRequest, async ({ context, answer, currentQuestion, code, timing }, sessionId) => {
+    const interviewer = AIInterviewer.fromContext(context, getServerLLMProvider(sessionId), {
+      onQuestionBlocked: createComplianceAuditSink(sessionId),
+      signEvaluation
+    });
+    return ndjsonResponse(interviewer.streamTurn(answer, currentQuestion, code, timing));
+  });
+}
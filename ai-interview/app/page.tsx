@@ -2,10 +2,48 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useTextToSpeech } from '@/hooks/useTextToSpeech';
-import { useEnhancedSpeechRecognition } from '@/hooks/useEnhancedSpeechRecognition';
-import { AIInterviewer } from '@/lib/ai-interviewer';
+import { SpeechTiming, useEnhancedSpeechRecognition } from '@/hooks/useEnhancedSpeechRecognition';
+import { useMicCalibration } from '@/hooks/useMicCalibration';
+import { useMicDevices } from '@/hooks/useMicDevices';
+import CandidateReport from '@/components/CandidateReport';
+import CodeEditor from '@/components/CodeEditor';
+import ComplianceLog from '@/components/ComplianceLog';
+import TranscriptExport from '@/components/TranscriptExport';
+import AnswerRecordings from '@/components/AnswerRecordings';
+import VoiceSettings from '@/components/VoiceSettings';
+import MicCheck from '@/components/MicCheck';
+import MicSelect from '@/components/MicSelect';
+import LevelMeter from '@/components/LevelMeter';
+import { InterviewClient } from '@/lib/interview-client';
+import { INTERVIEW_API_LIMITS } from '@/lib/interview-api';
+import type { ConversationTurn, DegradedStatus } from '@/lib/ai-interviewer';
+import DocumentInput from '@/components/DocumentInput';
+import { isAffirmative } from '@/lib/candidate-intents';
+import { CodeSnapshot, CodingTask } from '@/lib/coding-tasks';
+import { ComplianceAuditEntry, COMPLIANCE_RULE_SETS, DEFAULT_JURISDICTION } from '@/lib/compliance';
+import type { EndOfTurnDecision } from '@/lib/end-of-turn';
+import { DEFAULT_INTERVIEW_LENGTH, InterviewLength, InterviewProgress, LENGTH_LIMITS } from '@/lib/interview-length';
+import { DEFAULT_LANGUAGE, getLanguage, INTERVIEW_LANGUAGES, LanguageCode } from '@/lib/languages';
+import { CandidateReport as CandidateReportData } from '@/lib/report';
+import { DEFAULT_VAD_SETTINGS } from '@/lib/mic-calibration';
+import { SentenceSplitter } from '@/lib/sentence-splitter';
+import { InterviewState, SavedSession, SessionStore } from '@/lib/session-store';
+import { TurnTiming } from '@/lib/transcript';
+import { DEFAULT_TTS_SETTINGS, TtsSettings } from '@/lib/tts';
+import { createAudioId, encodeAnswerAudio } from '@/lib/answer-audio';
+import { UI_TEXT } from '@/lib/ui-text';
 
-type InterviewState = 'waiting' | 'asking' | 'listening' | 'processing' | 'completed' | 'error';
+interface TurnLatency {
+  firstTokenMs: number | null;
+  firstAudioMs: number | null;
+}
+
+const DEFAULT_CODE_LANGUAGE = 'javascript';
+
+const formatClock = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
 
 export default function Home() {
   const [interviewState, setInterviewState] = useState<InterviewState>('waiting');
@@ -13,200 +51,775 @@ export default function Home() {
   const [isInterviewStarted, setIsInterviewStarted] = useState(false);
   const [questionCount, setQuestionCount] = useState(0);
   const [errorMessage, setErrorMessage] = useState('');
-  const [aiApiKey, setAiApiKey] = useState('');
-  const [showApiKeyInput, setShowApiKeyInput] = useState(false);
+  const [lastTurnLatency, setLastTurnLatency] = useState<TurnLatency | null>(null);
+  const [report, setReport] = useState<CandidateReportData | null>(null);
+  const [reportStatus, setReportStatus] = useState<'idle' | 'generating' | 'ready' | 'failed'>('idle');
+  const [jobDescription, setJobDescription] = useState('');
+  const [resume, setResume] = useState('');
+  const [maxQuestions, setMaxQuestions] = useState(String(DEFAULT_INTERVIEW_LENGTH.maxQuestions ?? ''));
+  const [maxMinutes, setMaxMinutes] = useState('');
+  const [jurisdiction, setJurisdiction] = useState(DEFAULT_JURISDICTION);
+  const [complianceLog, setComplianceLog] = useState<ComplianceAuditEntry[]>([]);
+  const [progress, setProgress] = useState<InterviewProgress | null>(null);
+  const [degraded, setDegraded] = useState<DegradedStatus | null>(null);
+  const [interviewType, setInterviewType] = useState<'general' | 'technical'>('general');
+  const [language, setLanguage] = useState<LanguageCode>(DEFAULT_LANGUAGE);
+  const [codingTask, setCodingTask] = useState<CodingTask | null>(null);
+  const [awaitingSolution, setAwaitingSolution] = useState(false);
+  const [code, setCode] = useState('');
+  const [codeLanguage, setCodeLanguage] = useState(DEFAULT_CODE_LANGUAGE);
+  const [resumeOffer, setResumeOffer] = useState<SavedSession | null>(null);
+  const [answeredTurns, setAnsweredTurns] = useState<ConversationTurn[]>([]);
+  const [ttsSettings, setTtsSettings] = useState<TtsSettings>(DEFAULT_TTS_SETTINGS);
+  const [micPaused, setMicPaused] = useState(false);
 
-  const aiInterviewerRef = useRef<AIInterviewer | null>(null);
-  const { speak, isSpeaking } = useTextToSpeech();
+  const aiInterviewerRef = useRef<InterviewClient | null>(null);
+  const sessionStoreRef = useRef<SessionStore | null>(null);
+  // Timing of the question waiting for an answer, and of the answer so far
+  const questionTimingRef = useRef<TurnTiming>({});
+  const answerTimingRef = useRef<SpeechTiming>({ startedAt: null, endedAt: null });
+  const answerAudioRef = useRef<Float32Array[]>([]);
+  const answerEndOfTurnRef = useRef<EndOfTurnDecision[]>([]);
+  // 'armed' while the interviewer talks with the mic open, 'barged-in' once the candidate cuts in
+  const bargeInRef = useRef<'idle' | 'armed' | 'barged-in'>('idle');
+  // Read by an answer that cut in, which can end before the next render
+  const currentQuestionRef = useRef('');
+  // Set while the interview waits for the candidate to pick a microphone after a device change
+  const micPausedRef = useRef(false);
+  // Settles once the turn being streamed is recorded, so an answer that cut in never overtakes it
+  const turnRef = useRef<Promise<void>>(Promise.resolve());
+  // Read from speech callbacks, which would otherwise see stale editor state
+  const editorRef = useRef({ taskId: '', code: '', language: DEFAULT_CODE_LANGUAGE });
+  editorRef.current = { taskId: codingTask?.id ?? '', code, language: codeLanguage };
+  // What the candidate said while coding, spoken in several pauses before submitting
+  const thinkAloudRef = useRef<string[]>([]);
+  const text = UI_TEXT[language];
+  const { locale } = getLanguage(language);
+  const { speak, enqueue, stop, isSpeaking, voices, supportsPitch, getOutputLevel } = useTextToSpeech(locale, ttsSettings);
 
-  useEffect(() => {
-    // Check if API key is available
-    const envApiKey = process.env.NEXT_PUBLIC_GROQ_API_KEY || process.env.GROQ_API_KEY;
-    if (!envApiKey) {
-      setShowApiKeyInput(true);
-    } else {
-      setAiApiKey(envApiKey);
+  const previewVoice = useCallback(() => {
+    speak(text.voice.sample).catch(error => console.error('Error previewing voice:', error));
+  }, [speak, text]);
+
+  // Voices are per language, so a new language starts from the automatic pick
+  const changeLanguage = useCallback((code: LanguageCode) => {
+    setLanguage(code);
+    setTtsSettings(settings => ({ ...settings, voiceId: undefined }));
+  }, []);
+
+  // Shows the task the interviewer just posted, starting with an empty editor for a new one
+  const syncCodingTask = useCallback(() => {
+    const task = aiInterviewerRef.current?.getCodingTask() ?? null;
+    if (task?.id !== editorRef.current.taskId) {
+      setCode('');
+      thinkAloudRef.current = [];
     }
+    setCodingTask(task);
+    setAwaitingSolution(aiInterviewerRef.current?.isAwaitingSolution() ?? false);
   }, []);
 
-  // Enhanced speech recognition with streaming VAD
-  const handleSpeechEnd = useCallback(async (transcript: string) => {
-    console.log('🎯 Speech end detected with transcript:', transcript);
-    
+  // Sent with every answer while a task is open, so follow-ups can refer to the code
+  const getCodeSnapshot = (): CodeSnapshot | undefined => {
+    const { taskId, code: currentCode, language } = editorRef.current;
+    return taskId
+      ? { taskId, language, code: currentCode, capturedAt: new Date().toISOString() }
+      : undefined;
+  };
+
+  // Think-aloud answers span several speech segments, so keep the first start, latest end, all the audio
+  // and every end-of-turn decision
+  const noteAnswerSpeech = useCallback((timing: SpeechTiming, audio: Float32Array[], endOfTurn: EndOfTurnDecision[]) => {
+    const answer = answerTimingRef.current;
+    answer.startedAt ??= timing.startedAt;
+    answer.endedAt = timing.endedAt ?? answer.endedAt;
+    answerAudioRef.current.push(...audio);
+    answerEndOfTurnRef.current.push(...endOfTurn);
+  }, []);
+
+  // Stores the answer's recording now; it is linked to the turn once the turn is recorded
+  const saveAnswerAudio = useCallback(() => {
+    const client = aiInterviewerRef.current;
+    const segments = answerAudioRef.current;
+    answerAudioRef.current = [];
+    if (!client || !sessionStoreRef.current) {
+      return null;
+    }
+
+    const audio = encodeAnswerAudio(createAudioId(client.getSessionId(), client.getQuestionNumber()), segments);
+    if (audio) {
+      sessionStoreRef.current.saveAudio(client.getSessionId(), audio.ref, audio.blob);
+    }
+    return audio?.ref ?? null;
+  }, []);
+
+  const loadAnswerAudio = useCallback(async (id: string) => {
+    return sessionStoreRef.current ? sessionStoreRef.current.loadAudio(id) : null;
+  }, []);
+
+  const takeTurnTiming = useCallback((): TurnTiming => {
+    const { startedAt, endedAt } = answerTimingRef.current;
+    const timing: TurnTiming = {
+      ...questionTimingRef.current,
+      ...(startedAt !== null ? { answerStartedAt: new Date(startedAt).toISOString() } : {}),
+      ...(endedAt !== null ? { answerEndedAt: new Date(endedAt).toISOString() } : {})
+    };
+    questionTimingRef.current = {};
+    answerTimingRef.current = { startedAt: null, endedAt: null };
+    return timing;
+  }, []);
+
+  // Saves the session so a reload or crash can resume from the question waiting for an answer.
+  // A finished session is saved too, so its recordings stay available for review.
+  const saveSession = useCallback((question: string, state: InterviewState) => {
+    const client = aiInterviewerRef.current;
+    if (!client || !sessionStoreRef.current) {
+      return;
+    }
+
+    const { taskId, code: currentCode, language: codingLanguage } = editorRef.current;
+    sessionStoreRef.current.save({
+      sessionId: client.getSessionId(),
+      context: client.getContext(),
+      currentQuestion: question,
+      interviewState: state,
+      ...(taskId ? { editor: { code: currentCode, language: codingLanguage } } : {})
+    });
+  }, []);
+
+  const generateReport = useCallback(async () => {
+    if (!aiInterviewerRef.current) {
+      return;
+    }
+
+    setReportStatus('generating');
+    try {
+      console.log('📝 Generating candidate report...');
+      setReport(await aiInterviewerRef.current.generateReport());
+      setReportStatus('ready');
+    } catch (error) {
+      console.error('Error generating report:', error);
+      setReportStatus('failed');
+    }
+  }, []);
+
+  const submitAnswer = useCallback(async (transcript: string) => {
+    await turnRef.current;
     if (transcript.trim() && aiInterviewerRef.current) {
+      let finishTurn = () => {};
+      turnRef.current = new Promise(resolve => {
+        finishTurn = resolve;
+      });
       setInterviewState('processing');
+      saveSession(currentQuestionRef.current, 'processing');
+      const timing = takeTurnTiming();
+      const audio = saveAnswerAudio();
+      const endOfTurn = answerEndOfTurnRef.current;
+      answerEndOfTurnRef.current = [];
       
       try {
-        // Generate appreciation for the answer
-        console.log('🤖 Generating appreciation...');
-        const appreciation = await aiInterviewerRef.current.generateAppreciation(transcript);
-        await speak(appreciation);
-        
-        // Generate next question
-        console.log('🤖 Generating next question...');
-        const nextQuestion = await aiInterviewerRef.current.generateNextQuestion(transcript, currentQuestion);
+        // Stream the acknowledgment and next question, speaking each sentence as it completes
+        console.log('🤖 Streaming next turn...');
+        const turnStartedAt = performance.now();
+        const latency: TurnLatency = { firstTokenMs: null, firstAudioMs: null };
+        const splitter = new SentenceSplitter();
+        const utterances: Promise<void>[] = [];
+        let currentPart: string | null = null;
+        let nextQuestion = '';
+
+        const speakSentence = (sentence: string) => {
+          // The candidate cut in, or the interview is paused, so the rest of the turn goes unsaid
+          if (bargeInRef.current === 'barged-in' || micPausedRef.current) {
+            return;
+          }
+          const part = currentPart;
+          utterances.push(enqueue(sentence, {
+            onStart: () => {
+              if (part === 'question' && !questionTimingRef.current.questionStartedAt) {
+                questionTimingRef.current.questionStartedAt = new Date().toISOString();
+              }
+              if (latency.firstAudioMs === null) {
+                latency.firstAudioMs = Math.round(performance.now() - turnStartedAt);
+                console.log(`⏱️ Time to first audio: ${latency.firstAudioMs}ms`);
+                setInterviewState('asking');
+                setLastTurnLatency({ ...latency });
+                listenWhileSpeakingRef.current?.().catch(error => console.error('Error opening mic during turn:', error));
+              }
+            }
+          }));
+        };
+
+        const turn = aiInterviewerRef.current.streamTurn(transcript, currentQuestionRef.current, getCodeSnapshot(), timing);
+        for await (const event of turn) {
+          if (event.type === 'delta') {
+            if (latency.firstTokenMs === null) {
+              latency.firstTokenMs = Math.round(performance.now() - turnStartedAt);
+              console.log(`⏱️ Time to first token: ${latency.firstTokenMs}ms`);
+            }
+            // Don't let the acknowledgment and question run together into one utterance
+            if (currentPart !== null && event.part !== currentPart) {
+              splitter.flush().forEach(speakSentence);
+            }
+            currentPart = event.part;
+            splitter.push(event.text).forEach(speakSentence);
+          } else if (event.type === 'done') {
+            nextQuestion = event.question;
+          } else {
+            throw new Error(event.error);
+          }
+        }
+        splitter.flush().forEach(speakSentence);
+        if (audio) {
+          aiInterviewerRef.current.attachAnswerAudio(audio);
+        }
+        aiInterviewerRef.current.attachEndOfTurn(endOfTurn);
+        setLastTurnLatency({ ...latency });
+        setProgress(aiInterviewerRef.current.getProgress());
+        setDegraded(aiInterviewerRef.current.getDegradedStatus());
+        syncCodingTask();
+        saveSession(nextQuestion, 'asking');
+        currentQuestionRef.current = nextQuestion;
+        finishTurn();
+
+        await Promise.all(utterances);
+        if (questionTimingRef.current.questionStartedAt) {
+          questionTimingRef.current.questionEndedAt ??= new Date().toISOString();
+        }
         
-        if (aiInterviewerRef.current.getQuestionNumber() > 7) {
+        // The closing statement was spoken as the last part of the turn
+        if (aiInterviewerRef.current.isComplete()) {
+          bargeInRef.current = 'idle';
+          stopListeningRef.current?.();
+          setComplianceLog(aiInterviewerRef.current.getComplianceLog());
+          setAnsweredTurns([...aiInterviewerRef.current.getConversationHistory()]);
           setInterviewState('completed');
-          setTimeout(() => {
-            speak("Thank you for taking the time to interview with us today. We&apos;ll be in touch soon with next steps.");
-          }, 1500);
+          generateReport();
         } else {
           setQuestionCount(aiInterviewerRef.current.getQuestionNumber());
           setCurrentQuestion(nextQuestion);
-          setTimeout(() => {
-            // Call askQuestion through ref to avoid circular dependency
-            if (askQuestionRef.current) {
-              askQuestionRef.current(nextQuestion);
-            }
-          }, 1500);
+          // The question has already been spoken as part of the turn
+          if (listenForAnswerRef.current) {
+            await listenForAnswerRef.current();
+          }
         }
       } catch (error) {
         console.error('Error processing speech:', error);
-        setErrorMessage('Error processing your response. Please try again.');
+        bargeInRef.current = 'idle';
+        stopListeningRef.current?.();
+        setErrorMessage(text.errors.processingFailed);
+        setInterviewState('error');
+      } finally {
+        finishTurn();
+      }
+    }
+  }, [enqueue, generateReport, syncCodingTask, saveSession, takeTurnTiming, saveAnswerAudio, text]);
+
+  // Enhanced speech recognition with streaming VAD
+  const handleSpeechEnd = useCallback(async (
+    transcript: string,
+    timing: SpeechTiming,
+    audio: Float32Array[],
+    endOfTurn: EndOfTurnDecision[]
+  ) => {
+    console.log('🎯 Speech end detected with transcript:', transcript);
+
+    // Requests like "could you repeat that?" never reach the interviewer as answers
+    if (handleCandidateRequestRef.current && await handleCandidateRequestRef.current(transcript)) {
+      return;
+    }
+    noteAnswerSpeech(timing, audio, endOfTurn);
+
+    // While coding, pauses are part of thinking aloud; the answer is sent on submit
+    if (transcript.trim() && aiInterviewerRef.current?.isAwaitingSolution()) {
+      thinkAloudRef.current.push(transcript.trim());
+      try {
+        await listenForAnswerRef.current?.();
+      } catch (error) {
+        console.error('Error listening while coding:', error);
+        stopListeningRef.current?.();
+        setErrorMessage(text.errors.processingFailed);
         setInterviewState('error');
       }
+      return;
     }
-  }, [currentQuestion, speak]);
+    await submitAnswer(transcript);
+  }, [submitAnswer, noteAnswerSpeech, text]);
+
+  // The candidate started talking over the interviewer: stop speaking and hear them out
+  const handleBargeIn = useCallback(() => {
+    if (bargeInRef.current !== 'armed') {
+      return;
+    }
+    bargeInRef.current = 'barged-in';
+    stop();
+    if (questionTimingRef.current.questionStartedAt && !questionTimingRef.current.questionEndedAt) {
+      questionTimingRef.current.questionEndedAt = new Date().toISOString();
+    }
+    setInterviewState('listening');
+  }, [stop]);
+
+  // Set below, once the interview controls it pauses exist
+  const handleDevicesChangedRef = useRef<(() => void) | null>(null);
+  const micDevices = useMicDevices(() => handleDevicesChangedRef.current?.());
+  const deviceId = micDevices.selectedId || undefined;
+
+  // The mic check tunes the VAD to this candidate and room; until then the defaults apply
+  const micCalibration = useMicCalibration(locale, deviceId);
+  const vadSettings = micCalibration.result?.vad ?? DEFAULT_VAD_SETTINGS;
+  // Two mic pipelines at once would fight over the device
+  const isCalibrating = ['noise', 'reading', 'analyzing'].includes(micCalibration.step);
 
   const speechRecognition = useEnhancedSpeechRecognition(handleSpeechEnd, {
     endOfSpeechTimeout: 2000,
     minSpeechDuration: 1000,
-    vadThreshold: 0.8,
-    silenceAfterSpeechTimeout: 1800
+    vadThreshold: vadSettings.positiveSpeechThreshold,
+    vadNegativeThreshold: vadSettings.negativeSpeechThreshold,
+    redemptionFrames: vadSettings.redemptionFrames,
+    silenceAfterSpeechTimeout: vadSettings.silenceAfterSpeechTimeout,
+    lang: locale,
+    deviceId,
+    onBargeIn: handleBargeIn,
+    getPlaybackLevel: getOutputLevel,
+    checkCompleteness: transcript => aiInterviewerRef.current?.checkTurnComplete(transcript, currentQuestionRef.current) ?? Promise.resolve(null)
   });
 
-  const askQuestionRef = useRef<((question: string) => Promise<void>) | null>(null);
+  const listenForAnswerRef = useRef<(() => Promise<void>) | null>(null);
+  const handleCandidateRequestRef = useRef<((transcript: string) => Promise<boolean>) | null>(null);
+  // Set after the candidate asks to end, until they confirm or carry on
+  const pendingEndRef = useRef(false);
+  const listenWhileSpeakingRef = useRef<(() => Promise<void>) | null>(null);
+  const stopListeningRef = useRef<(() => void) | null>(null);
+
+  // Opens the mic while the interviewer talks, so the candidate can cut in
+  const listenWhileSpeaking = useCallback(async () => {
+    if (micPausedRef.current) {
+      return;
+    }
+    bargeInRef.current = 'armed';
+    speechRecognition.resetTranscript();
+    try {
+      await speechRecognition.startListening({ whileSpeaking: true });
+    } catch (error) {
+      bargeInRef.current = 'idle';
+      throw error;
+    }
+  }, [speechRecognition]);
+
+  const listenForAnswer = useCallback(async () => {
+    const mode = bargeInRef.current;
+    bargeInRef.current = 'idle';
+    // The question is asked again once the candidate has picked a microphone
+    if (micPausedRef.current) {
+      return;
+    }
+    setInterviewState('listening');
+
+    // Already hearing the answer that cut in
+    if (mode === 'barged-in') {
+      return;
+    }
+    if (mode === 'armed') {
+      speechRecognition.endPlayback();
+      console.log('👂 Question finished, listening for response...');
+      return;
+    }
+
+    speechRecognition.resetTranscript();
+    await speechRecognition.startListening();
+    console.log('👂 Now listening for response...');
+  }, [speechRecognition]);
+
+  // Set the refs to the functions to avoid a circular dependency with handleSpeechEnd
+  listenForAnswerRef.current = listenForAnswer;
+  listenWhileSpeakingRef.current = listenWhileSpeaking;
+  stopListeningRef.current = speechRecognition.stopListening;
+
+  const submitSolution = useCallback(async () => {
+    speechRecognition.stopListening();
+    noteAnswerSpeech(
+      speechRecognition.getSpeechTiming(),
+      speechRecognition.getAudioSegments(),
+      speechRecognition.getEndOfTurnDecisions()
+    );
+    const spoken = [...thinkAloudRef.current, speechRecognition.transcript.trim()].join(' ').trim();
+    thinkAloudRef.current = [];
+    // Keep the end of a long think-aloud, where the candidate sums up
+    await submitAnswer(spoken.slice(-INTERVIEW_API_LIMITS.answerLength).trim() || text.silentSubmission);
+  }, [speechRecognition, submitAnswer, noteAnswerSpeech, text]);
 
   const askQuestion = useCallback(async (question: string) => {
     console.log('🗣️ Asking question:', question);
     setInterviewState('asking');
     
     try {
-      await speak(question);
-      setInterviewState('listening');
-      speechRecognition.resetTranscript();
-      await speechRecognition.startListening();
-      console.log('👂 Now listening for response...');
+      currentQuestionRef.current = question;
+      questionTimingRef.current = {};
+      answerTimingRef.current = { startedAt: null, endedAt: null };
+      answerAudioRef.current = [];
+      answerEndOfTurnRef.current = [];
+      await listenWhileSpeaking();
+      await speak(question, {
+        onStart: () => {
+          questionTimingRef.current.questionStartedAt = new Date().toISOString();
+        }
+      });
+      // A barge-in has already marked where the question was cut off
+      questionTimingRef.current.questionEndedAt ??= new Date().toISOString();
+      await listenForAnswer();
     } catch (error) {
       console.error('Error speaking question:', error);
-      setErrorMessage('Error speaking question. Please check your audio settings.');
+      bargeInRef.current = 'idle';
+      speechRecognition.stopListening();
+      setErrorMessage(text.errors.speakFailed);
+      setInterviewState('error');
+    }
+  }, [speak, speechRecognition, listenWhileSpeaking, listenForAnswer, text]);
+
+  // Speaks a short reply to a request, then goes back to waiting for the answer
+  const replyThenListen = useCallback(async (reply: string) => {
+    setInterviewState('asking');
+    try {
+      await listenWhileSpeaking();
+      await speak(reply);
+      await listenForAnswer();
+    } catch (error) {
+      console.error('Error replying to candidate:', error);
+      bargeInRef.current = 'idle';
+      speechRecognition.stopListening();
+      setErrorMessage(text.errors.speakFailed);
       setInterviewState('error');
     }
-  }, [speak, speechRecognition]);
+  }, [speak, speechRecognition, listenWhileSpeaking, listenForAnswer, text]);
+
+  const endInterviewEarly = useCallback(async () => {
+    const client = aiInterviewerRef.current;
+    if (!client) {
+      return;
+    }
+
+    console.log('🏁 Candidate ended the interview early');
+    client.endEarly();
+    saveSession(currentQuestionRef.current, 'completed');
+    setInterviewState('asking');
+    try {
+      await speak(text.intents.endReply);
+    } catch (error) {
+      console.error('Error speaking closing statement:', error);
+    }
+    setComplianceLog(client.getComplianceLog());
+    setAnsweredTurns([...client.getConversationHistory()]);
+    setInterviewState('completed');
+    generateReport();
+  }, [speak, saveSession, generateReport, text]);
 
-  // Set the ref to the function
-  askQuestionRef.current = askQuestion;
+  // Handles a spoken request about the interview itself; false when the transcript is an answer
+  const handleCandidateRequest = useCallback(async (transcript: string): Promise<boolean> => {
+    await turnRef.current;
+    const client = aiInterviewerRef.current;
+    if (!client || !transcript.trim()) {
+      return false;
+    }
+    const question = currentQuestionRef.current;
+
+    if (pendingEndRef.current) {
+      pendingEndRef.current = false;
+      if (isAffirmative(transcript, client.getContext().language ?? DEFAULT_LANGUAGE)) {
+        await endInterviewEarly();
+      } else {
+        await askQuestion(question);
+      }
+      return true;
+    }
+
+    const { intent, source } = await client.classifyIntent(transcript, question);
+    if (intent === 'answer') {
+      return false;
+    }
+    console.log(`🧭 Candidate request: ${intent} (${source})`);
+
+    switch (intent) {
+      case 'repeat':
+        await askQuestion(question);
+        break;
+      case 'rephrase': {
+        setInterviewState('processing');
+        const rephrased = await client.rephraseQuestion(question).catch(error => {
+          console.error('Error rephrasing question:', error);
+          return question;
+        });
+        setCurrentQuestion(rephrased);
+        setDegraded(client.getDegradedStatus());
+        saveSession(rephrased, 'asking');
+        await askQuestion(rephrased);
+        break;
+      }
+      case 'skip':
+        thinkAloudRef.current = [];
+        await submitAnswer(text.intents.skippedAnswer);
+        break;
+      case 'pause':
+        await replyThenListen(text.intents.pauseReply);
+        break;
+      case 'end':
+        pendingEndRef.current = true;
+        await replyThenListen(text.intents.endConfirm);
+        break;
+    }
+    return true;
+  }, [askQuestion, replyThenListen, endInterviewEarly, submitAnswer, saveSession, text]);
+
+  handleCandidateRequestRef.current = handleCandidateRequest;
 
   const startInterview = useCallback(async () => {
     if (!speechRecognition.isSupported) {
-      alert('Speech recognition or voice activity detection not supported in your browser. Please use Chrome or Edge with microphone access.');
+      alert(text.setup.unsupportedAlert);
       return;
     }
 
-    if (!aiApiKey) {
-      setShowApiKeyInput(true);
+    const length: InterviewLength = {};
+    if (Number(maxQuestions) > 0) {
+      length.maxQuestions = Math.min(Math.round(Number(maxQuestions)), LENGTH_LIMITS.maxQuestions);
+    }
+    if (Number(maxMinutes) > 0) {
+      length.maxMinutes = Math.min(Math.round(Number(maxMinutes)), LENGTH_LIMITS.maxMinutes);
+    }
+    if (length.maxQuestions === undefined && length.maxMinutes === undefined) {
+      alert(text.setup.lengthRequiredAlert);
       return;
     }
 
     try {
-      // Initialize AI interviewer with API key
-      aiInterviewerRef.current = new AIInterviewer('general', aiApiKey);
+      // The interviewer runs on the server; this client only holds session state
+      aiInterviewerRef.current = new InterviewClient(interviewType, {
+        length,
+        jurisdiction,
+        language,
+        documents: {
+          jobDescription: jobDescription.trim() || undefined,
+          resume: resume.trim() || undefined
+        }
+      });
       
       setIsInterviewStarted(true);
       setInterviewState('asking');
       setErrorMessage('');
       
-      // Welcome message
-      await speak("Welcome to your Groq-powered AI interview with advanced voice detection. I&apos;ll automatically detect when you finish speaking. Please speak clearly and naturally. Let&apos;s begin.");
+      // Generate the first question while the welcome message plays
+      const firstQuestionPromise = aiInterviewerRef.current.generateFirstQuestion();
+      await speak(text.welcome);
       
-      // Generate and ask first question
-      const firstQuestion = await aiInterviewerRef.current.generateFirstQuestion();
+      const firstQuestion = await firstQuestionPromise;
       setCurrentQuestion(firstQuestion);
       setQuestionCount(1);
-      setTimeout(() => askQuestion(firstQuestion), 1500);
+      setProgress(aiInterviewerRef.current.getProgress());
+      setDegraded(aiInterviewerRef.current.getDegradedStatus());
+      syncCodingTask();
+      saveSession(firstQuestion, 'asking');
+      await askQuestion(firstQuestion);
       
     } catch (error) {
       console.error('Error starting interview:', error);
-      setErrorMessage('Failed to start interview. Please check your Groq API key and microphone permissions.');
+      setErrorMessage(text.errors.startFailed);
       setInterviewState('error');
     }
-  }, [speechRecognition.isSupported, speak, askQuestion, aiApiKey]);
+  }, [
+    speechRecognition.isSupported,
+    speak,
+    askQuestion,
+    syncCodingTask,
+    saveSession,
+    interviewType,
+    jobDescription,
+    resume,
+    maxQuestions,
+    maxMinutes,
+    jurisdiction,
+    language,
+    text
+  ]);
+
+  const resumeInterview = useCallback(async () => {
+    if (!resumeOffer) {
+      return;
+    }
+
+    const client = InterviewClient.restore(resumeOffer.sessionId, resumeOffer.context);
+    aiInterviewerRef.current = client;
+    setResumeOffer(null);
+    setInterviewType(resumeOffer.context.interviewType === 'technical' ? 'technical' : 'general');
+    setIsInterviewStarted(true);
+    setErrorMessage('');
+    setCurrentQuestion(resumeOffer.currentQuestion);
+    setQuestionCount(client.getQuestionNumber());
+    setProgress(client.getProgress());
+    syncCodingTask();
+    if (resumeOffer.editor) {
+      setCode(resumeOffer.editor.code);
+      setCodeLanguage(resumeOffer.editor.language);
+    }
+
+    // An answer that was still processing never reached the context, so it is asked for again
+    console.log(`♻️ Resuming session ${resumeOffer.sessionId} (saved while ${resumeOffer.interviewState})`);
+    await askQuestion(resumeOffer.currentQuestion);
+  }, [resumeOffer, syncCodingTask, askQuestion]);
 
-  const handleApiKeySubmit = useCallback(() => {
-    if (aiApiKey.trim()) {
-      setShowApiKeyInput(false);
-      startInterview();
+  const discardSavedSession = useCallback(() => {
+    if (resumeOffer) {
+      sessionStoreRef.current?.remove(resumeOffer.sessionId);
     }
-  }, [aiApiKey, startInterview]);
+    setResumeOffer(null);
+  }, [resumeOffer]);
 
   const retryInterview = useCallback(() => {
     setInterviewState('waiting');
     setErrorMessage('');
     setIsInterviewStarted(false);
     setCurrentQuestion('');
+    currentQuestionRef.current = '';
+    bargeInRef.current = 'idle';
+    pendingEndRef.current = false;
+    micPausedRef.current = false;
+    setMicPaused(false);
     setQuestionCount(0);
+    setProgress(null);
+    setDegraded(null);
+    setComplianceLog([]);
+    setCodingTask(null);
+    setAwaitingSolution(false);
+    setCode('');
+    thinkAloudRef.current = [];
+    setLastTurnLatency(null);
+    setReport(null);
+    setReportStatus('idle');
     speechRecognition.stopListening();
     if (aiInterviewerRef.current) {
+      // Starting again abandons the saved session
+      sessionStoreRef.current?.remove(aiInterviewerRef.current.getSessionId());
       aiInterviewerRef.current.reset();
     }
   }, [speechRecognition]);
 
+  // Offer to pick up an interview interrupted by a reload or crash
+  useEffect(() => {
+    if (!SessionStore.isSupported()) {
+      return;
+    }
+
+    sessionStoreRef.current = new SessionStore();
+    let cancelled = false;
+    sessionStoreRef.current.loadLatest().then(saved => {
+      if (!cancelled && saved) {
+        setResumeOffer(saved);
+        setLanguage(saved.context.language ?? DEFAULT_LANGUAGE);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Lets the browser and screen readers pronounce the page in the interview language
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  // Keep the timer moving between turns when the interview has a time limit
+  const hasTimeLimit = progress?.maxMs != null;
+  const getTranscript = useCallback(() => aiInterviewerRef.current?.getTranscript() ?? null, []);
+  // An interview that broke part-way through can still be exported
+  const hasAnswers = interviewState === 'error' && questionCount > 1;
+
+  const isRunning = isInterviewStarted && interviewState !== 'completed' && interviewState !== 'error';
+
+  // A microphone was plugged in or removed: stop talking and listening until the candidate picks one
+  const pauseForDeviceChange = useCallback(() => {
+    if (!isRunning || micPausedRef.current) {
+      return;
+    }
+    console.warn('⏸️ Microphones changed - pausing the interview');
+    micPausedRef.current = true;
+    setMicPaused(true);
+    bargeInRef.current = 'idle';
+    stop();
+    speechRecognition.stopListening();
+  }, [isRunning, stop, speechRecognition]);
+  handleDevicesChangedRef.current = pauseForDeviceChange;
+
+  // Asks the current question again on the chosen microphone, after any turn in flight is recorded
+  const resumeAfterDeviceChange = useCallback(async () => {
+    micPausedRef.current = false;
+    setMicPaused(false);
+    await turnRef.current;
+    if (aiInterviewerRef.current && !aiInterviewerRef.current.isComplete()) {
+      await askQuestion(currentQuestionRef.current);
+    }
+  }, [askQuestion]);
+
+  const selectMicrophone = useCallback((id: string) => {
+    micDevices.select(id);
+    // The check measured the old microphone
+    micCalibration.reset();
+  }, [micDevices, micCalibration]);
+  useEffect(() => {
+    if (!hasTimeLimit || !isRunning) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      if (aiInterviewerRef.current) {
+        setProgress(aiInterviewerRef.current.getProgress());
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [hasTimeLimit, isRunning]);
+
   // Visual indicators for different states
   const getStateDisplay = () => {
     switch (interviewState) {
       case 'waiting':
         return {
-          title: 'AI Interview Ready',
-          subtitle: 'Real-time AI interview with advanced voice detection',
+          ...text.states.waiting,
           indicator: '🤖',
           bgColor: 'bg-blue-50',
           textColor: 'text-blue-900'
         };
       case 'asking':
         return {
-          title: 'AI Interviewer Speaking',
-          subtitle: 'Listen carefully to the personalized question...',
+          ...text.states.asking,
           indicator: '🗣️',
           bgColor: 'bg-purple-50',
           textColor: 'text-purple-900'
         };
       case 'listening':
         return {
-          title: 'Your Turn to Speak',
-          subtitle: 'Speak naturally - I&apos;ll detect when you finish',
+          ...text.states.listening,
           indicator: '👂',
           bgColor: 'bg-green-50',
           textColor: 'text-green-900'
         };
       case 'processing':
         return {
-          title: 'AI Processing Response',
-          subtitle: 'Analyzing your answer and generating next question...',
+          ...text.states.processing,
           indicator: '🧠',
           bgColor: 'bg-yellow-50',
           textColor: 'text-yellow-900'
         };
       case 'completed':
         return {
-          title: 'Interview Completed',
-          subtitle: 'Thank you for the engaging conversation!',
+          ...text.states.completed,
           indicator: '✅',
           bgColor: 'bg-gray-50',
           textColor: 'text-gray-900'
         };
       case 'error':
         return {
-          title: 'Error Occurred',
-          subtitle: 'Something went wrong during the interview',
+          ...text.states.error,
           indicator: '❌',
           bgColor: 'bg-red-50',
           textColor: 'text-red-900'
         };
       default:
         return {
-          title: 'AI Interview',
-          subtitle: '',
+          ...text.states.waiting,
           indicator: '🤖',
           bgColor: 'bg-blue-50',
           textColor: 'text-blue-900'
@@ -231,29 +844,30 @@ export default function Home() {
             </p>
           </div>
 
-          {/* API Key Input */}
-          {showApiKeyInput && (
+          {/* Resume Offer */}
+          {!isInterviewStarted && resumeOffer && (
             <div className="mb-8">
-              <div className="bg-white rounded-lg shadow-md p-6">
-                <h3 className="text-lg font-semibold text-gray-700 mb-4">Groq API Key Required</h3>
+              <div className="bg-white rounded-lg shadow-md p-6 text-center">
+                <h3 className="text-xl font-bold text-gray-900 mb-2">{text.resume.title}</h3>
                 <p className="text-gray-600 mb-4">
-                  To enable AI-powered questions, please enter your Groq API key. 
-                  You can get one free at <a href="https://console.groq.com/keys" target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">Groq Console</a>.
+                  {text.resume.details(
+                    resumeOffer.context.currentQuestionNumber,
+                    new Date(resumeOffer.savedAt).toLocaleString(locale)
+                  )}
                 </p>
-                <div className="flex gap-4">
-                  <input
-                    type="password"
-                    value={aiApiKey}
-                    onChange={(e) => setAiApiKey(e.target.value)}
-                    placeholder="gsk-..."
-                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
+                <div className="flex justify-center gap-4">
                   <button
-                    onClick={handleApiKeySubmit}
-                    disabled={!aiApiKey.trim()}
-                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-2 px-6 rounded-lg transition-colors duration-200"
+                    onClick={resumeInterview}
+                    disabled={!speechRecognition.isSupported}
+                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-3 px-6 rounded-lg transition-colors duration-200"
                   >
-                    Start Interview
+                    {text.resume.resume}
+                  </button>
+                  <button
+                    onClick={discardSavedSession}
+                    className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-3 px-6 rounded-lg transition-colors duration-200"
+                  >
+                    {text.resume.startOver}
                   </button>
                 </div>
               </div>
@@ -261,19 +875,121 @@ export default function Home() {
           )}
 
           {/* Start Interview Button */}
-          {!isInterviewStarted && !showApiKeyInput && (
+          {!isInterviewStarted && (
             <div className="text-center mb-8">
+              <div className="bg-white rounded-lg shadow-md p-6 mb-8 grid md:grid-cols-2 gap-6">
+                <DocumentInput
+                  label={text.setup.jobDescriptionLabel}
+                  placeholder={text.setup.jobDescriptionPlaceholder}
+                  value={jobDescription}
+                  onChange={setJobDescription}
+                  uploadLabel={text.setup.uploadDocument}
+                  readingLabel={text.setup.readingDocument}
+                />
+                <DocumentInput
+                  label={text.setup.resumeLabel}
+                  placeholder={text.setup.resumePlaceholder}
+                  value={resume}
+                  onChange={setResume}
+                  uploadLabel={text.setup.uploadDocument}
+                  readingLabel={text.setup.readingDocument}
+                />
+                <div className="text-left">
+                  <label className="font-semibold text-gray-700 block mb-2">{text.setup.questionCount}</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={LENGTH_LIMITS.maxQuestions}
+                    value={maxQuestions}
+                    onChange={event => setMaxQuestions(event.target.value)}
+                    placeholder={text.setup.noLimit}
+                    className="w-full border border-gray-300 rounded-lg p-3 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div className="text-left">
+                  <label className="font-semibold text-gray-700 block mb-2">{text.setup.timeLimit}</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={LENGTH_LIMITS.maxMinutes}
+                    value={maxMinutes}
+                    onChange={event => setMaxMinutes(event.target.value)}
+                    placeholder={text.setup.noLimit}
+                    className="w-full border border-gray-300 rounded-lg p-3 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div className="text-left">
+                  <label className="font-semibold text-gray-700 block mb-2">{text.setup.interviewType}</label>
+                  <select
+                    value={interviewType}
+                    onChange={event => setInterviewType(event.target.value as 'general' | 'technical')}
+                    className="w-full border border-gray-300 rounded-lg p-3 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {Object.entries(text.setup.interviewTypes).map(([id, name]) => (
+                      <option key={id} value={id}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="text-left">
+                  <label className="font-semibold text-gray-700 block mb-2">{text.setup.language}</label>
+                  <select
+                    value={language}
+                    onChange={event => changeLanguage(event.target.value as LanguageCode)}
+                    className="w-full border border-gray-300 rounded-lg p-3 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {Object.values(INTERVIEW_LANGUAGES).map(option => (
+                      <option key={option.code} value={option.code}>{option.nativeName}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="text-left">
+                  <label className="font-semibold text-gray-700 block mb-2">{text.setup.jurisdiction}</label>
+                  <select
+                    value={jurisdiction}
+                    onChange={event => setJurisdiction(event.target.value)}
+                    className="w-full border border-gray-300 rounded-lg p-3 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {Object.values(COMPLIANCE_RULE_SETS).map(ruleSet => (
+                      <option key={ruleSet.id} value={ruleSet.id}>{ruleSet.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <MicSelect
+                  devices={micDevices.devices}
+                  selectedId={micDevices.selectedId}
+                  onSelect={selectMicrophone}
+                  onOpen={micDevices.refresh}
+                  disabled={isCalibrating}
+                  text={text.microphone}
+                />
+                <VoiceSettings
+                  voices={voices}
+                  settings={ttsSettings}
+                  onChange={setTtsSettings}
+                  onPreview={previewVoice}
+                  supportsPitch={supportsPitch}
+                  previewing={isSpeaking}
+                  text={text.voice}
+                />
+                <MicCheck
+                  step={micCalibration.step}
+                  level={micCalibration.level}
+                  heard={micCalibration.heard}
+                  result={micCalibration.result}
+                  onStart={() => micCalibration.start(text.micCheck.sentence)}
+                  onFinishReading={micCalibration.finishReading}
+                  text={text.micCheck}
+                />
+              </div>
               <button
                 onClick={startInterview}
-                disabled={!speechRecognition.isSupported}
+                disabled={!speechRecognition.isSupported || isCalibrating}
                 className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-4 px-8 rounded-lg text-xl transition-colors duration-200 shadow-lg"
               >
-                {speechRecognition.isSupported ? 'Start AI Interview' : 'Voice Detection Not Supported'}
+                {speechRecognition.isSupported ? text.setup.start : text.setup.unsupported}
               </button>
               {!speechRecognition.isSupported && (
-                <p className="text-red-600 mt-4">
-                  Please use a supported browser (Chrome or Edge) with microphone access for advanced voice detection.
-                </p>
+                <p className="text-red-600 mt-4">{text.setup.unsupportedHelp}</p>
               )}
             </div>
           )}
@@ -282,15 +998,53 @@ export default function Home() {
           {(interviewState === 'error' || speechRecognition.error) && (
             <div className="mb-8">
               <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
-                <p className="font-bold">Error:</p>
+                <p className="font-bold">{text.errors.title}</p>
                 <p>{errorMessage || speechRecognition.error}</p>
                 <button
                   onClick={retryInterview}
                   className="mt-2 bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded transition-colors duration-200"
                 >
-                  Try Again
+                  {text.errors.tryAgain}
                 </button>
               </div>
+              {hasAnswers && (
+                <div className="mt-4">
+                  <TranscriptExport getTranscript={getTranscript} />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Microphone Change Prompt */}
+          {micPaused && (
+            <div className="mb-8">
+              <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded space-y-3">
+                <p className="font-bold">{text.microphone.changedTitle}</p>
+                <p>{text.microphone.changedMessage}</p>
+                <MicSelect
+                  devices={micDevices.devices}
+                  selectedId={micDevices.selectedId}
+                  onSelect={selectMicrophone}
+                  onOpen={micDevices.refresh}
+                  text={text.microphone}
+                />
+                <button
+                  onClick={resumeAfterDeviceChange}
+                  className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded transition-colors duration-200"
+                >
+                  {text.microphone.continue}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Fallback Mode Notice */}
+          {isInterviewStarted && degraded && (
+            <div className="mb-8">
+              <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded">
+                <p className="font-bold">{text.degraded.title}</p>
+                <p>{text.degraded.messages[degraded.reason]}</p>
+              </div>
             </div>
           )}
 
@@ -300,14 +1054,22 @@ export default function Home() {
               <div className="bg-white rounded-lg shadow-md p-6">
                 <div className="flex justify-between items-center mb-4">
                   <span className="text-sm font-medium text-gray-500">
-                    Question {questionCount}
+                    {progress?.phase === 'candidate-questions'
+                      ? text.progress.candidateQuestions
+                      : text.progress.question(questionCount, progress?.maxQuestions)}
+                    {progress?.maxMs != null && ` · ${formatClock(progress.elapsedMs)} / ${formatClock(progress.maxMs)}`}
                   </span>
                   <span className="text-sm font-medium text-gray-500">
-                    AI Interview with VAD
+                    {lastTurnLatency?.firstAudioMs != null
+                      ? text.progress.latency((lastTurnLatency.firstAudioMs / 1000).toFixed(1))
+                      : text.progress.idle}
                   </span>
                 </div>
                 <div className="w-full bg-gray-200 rounded-full h-2">
-                  <div className="bg-gradient-to-r from-blue-500 to-purple-600 h-2 rounded-full transition-all duration-500 animate-pulse" />
+                  <div
+                    className="bg-gradient-to-r from-blue-500 to-purple-600 h-2 rounded-full transition-all duration-500"
+                    style={{ width: `${Math.round((progress?.fraction ?? 0) * 100)}%` }}
+                  />
                 </div>
               </div>
             </div>
@@ -317,7 +1079,7 @@ export default function Home() {
           {isInterviewStarted && currentQuestion && interviewState !== 'error' && (
             <div className="mb-8">
               <div className="bg-white rounded-lg shadow-md p-6">
-                <h3 className="text-lg font-semibold text-gray-700 mb-2">Current Question:</h3>
+                <h3 className="text-lg font-semibold text-gray-700 mb-2">{text.transcript.currentQuestion}</h3>
                 <p className="text-xl text-gray-900">
                   {currentQuestion}
                 </p>
@@ -325,33 +1087,51 @@ export default function Home() {
             </div>
           )}
 
+          {/* Coding Task Editor */}
+          {isInterviewStarted && codingTask && interviewState !== 'error' && interviewState !== 'completed' && (
+            <div className="mb-8">
+              <CodeEditor
+                task={codingTask}
+                language={codeLanguage}
+                code={code}
+                onLanguageChange={setCodeLanguage}
+                onCodeChange={setCode}
+                onSubmit={awaitingSolution ? submitSolution : undefined}
+                disabled={interviewState !== 'listening'}
+                text={text.codeEditor}
+              />
+            </div>
+          )}
+
           {/* Live Transcript Display with VAD Info */}
           {speechRecognition.isListening && (
             <div className="mb-8">
               <div className="bg-white rounded-lg shadow-md p-6">
                 <div className="flex justify-between items-center mb-2">
-                  <h3 className="text-lg font-semibold text-gray-700">Your Response:</h3>
+                  <h3 className="text-lg font-semibold text-gray-700">{text.transcript.yourResponse}</h3>
                   <div className="text-sm text-gray-500 space-x-4">
-                    <span>Confidence: {Math.round(speechRecognition.confidence * 100)}%</span>
+                    <span>{text.transcript.confidence}: {Math.round(speechRecognition.confidence * 100)}%</span>
                     <span>VAD: {Math.round(speechRecognition.vadProbability * 100)}%</span>
                   </div>
                 </div>
+                <div className="flex items-center gap-3 mb-3">
+                  <span className="text-sm text-gray-500">{text.microphone.level}</span>
+                  <LevelMeter level={speechRecognition.micLevel} className="flex-1" />
+                </div>
                 <div className="min-h-[100px] p-4 bg-gray-50 rounded border relative">
                   <p className="text-gray-900">
-                    {speechRecognition.transcript || 'Listening...'}
+                    {speechRecognition.transcript || text.transcript.listening}
                     {speechRecognition.isListening && <span className="animate-pulse">|</span>}
                   </p>
                   {speechRecognition.isSpeaking && (
                     <div className="absolute top-2 right-2">
                       <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                        🎤 Speaking Detected
+                        {text.transcript.speakingDetected}
                       </span>
                     </div>
                   )}
                 </div>
-                <p className="text-sm text-gray-500 mt-2">
-                  Advanced voice activity detection will automatically detect when you finish speaking.
-                </p>
+                <p className="text-sm text-gray-500 mt-2">{text.transcript.hint}</p>
               </div>
             </div>
           )}
@@ -360,19 +1140,19 @@ export default function Home() {
           <div className="flex justify-center space-x-6 text-sm">
             <div className={`flex items-center space-x-2 ${isSpeaking ? 'text-purple-600' : 'text-gray-400'}`}>
               <div className={`w-3 h-3 rounded-full ${isSpeaking ? 'bg-purple-600 animate-pulse' : 'bg-gray-300'}`}></div>
-              <span>AI Speaking</span>
+              <span>{text.indicators.aiSpeaking}</span>
             </div>
             <div className={`flex items-center space-x-2 ${speechRecognition.isListening ? 'text-green-600' : 'text-gray-400'}`}>
               <div className={`w-3 h-3 rounded-full ${speechRecognition.isListening ? 'bg-green-600 animate-pulse' : 'bg-gray-300'}`}></div>
-              <span>Listening</span>
+              <span>{text.indicators.listening}</span>
             </div>
             <div className={`flex items-center space-x-2 ${speechRecognition.isSpeaking ? 'text-blue-600' : 'text-gray-400'}`}>
               <div className={`w-3 h-3 rounded-full ${speechRecognition.isSpeaking ? 'bg-blue-600 animate-pulse' : 'bg-gray-300'}`}></div>
-              <span>VAD Active</span>
+              <span>{text.indicators.vadActive}</span>
             </div>
             <div className={`flex items-center space-x-2 ${interviewState === 'processing' ? 'text-yellow-600' : 'text-gray-400'}`}>
               <div className={`w-3 h-3 rounded-full ${interviewState === 'processing' ? 'bg-yellow-600 animate-pulse' : 'bg-gray-300'}`}></div>
-              <span>AI Processing</span>
+              <span>{text.indicators.processing}</span>
             </div>
           </div>
 
@@ -381,17 +1161,44 @@ export default function Home() {
             <div className="mt-8 text-center">
               <div className="bg-white rounded-lg shadow-md p-8">
                 <h2 className="text-2xl font-bold text-gray-900 mb-4">
-                  Interview Completed Successfully!
+                  {text.completed.title}
                 </h2>
                 <p className="text-gray-600 mb-6">
-                  You completed a {questionCount}-question AI-powered interview with advanced voice activity detection. 
-                  The AI adapted its questions based on your responses in real-time.
+                  {text.completed.summary(progress?.questionsAnswered ?? questionCount)}
                 </p>
+                <div className="mb-6">
+                  {reportStatus === 'generating' && (
+                    <p className="text-gray-500 animate-pulse">{text.completed.preparingReport}</p>
+                  )}
+                  {reportStatus === 'ready' && report && <CandidateReport report={report} />}
+                  {complianceLog.length > 0 && (
+                    <div className="mt-6">
+                      <ComplianceLog entries={complianceLog} />
+                    </div>
+                  )}
+                  <div className="mt-6">
+                    <AnswerRecordings turns={answeredTurns} loadAudio={loadAnswerAudio} />
+                  </div>
+                  <div className="mt-6">
+                    <TranscriptExport getTranscript={getTranscript} />
+                  </div>
+                  {reportStatus === 'failed' && (
+                    <div className="text-red-600">
+                      <p className="mb-2">{text.completed.reportFailed}</p>
+                      <button
+                        onClick={generateReport}
+                        className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded transition-colors duration-200"
+                      >
+                        {text.completed.retryReport}
+                      </button>
+                    </div>
+                  )}
+                </div>
                 <button
                   onClick={() => window.location.reload()}
                   className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-6 rounded-lg transition-colors duration-200"
                 >
-                  Start New Interview
+                  {text.completed.startNew}
                 </button>
               </div>
             </div>
@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ConversationTurn } from '@/lib/ai-interviewer';
+
+interface AnswerRecordingsProps {
+  turns: ConversationTurn[];
+  loadAudio: (id: string) => Promise<Blob | null>;
+}
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+// Lets reviewers hear each answer, since the browser transcript is often wrong
+export default function AnswerRecordings({ turns, loadAudio }: AnswerRecordingsProps) {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    const created: string[] = [];
+
+    const load = async () => {
+      const loaded: Record<string, string> = {};
+      for (const turn of turns) {
+        if (!turn.audio) {
+          continue;
+        }
+        const blob = await loadAudio(turn.audio.id);
+        if (cancelled) {
+          return;
+        }
+        if (blob) {
+          loaded[turn.audio.id] = URL.createObjectURL(blob);
+          created.push(loaded[turn.audio.id]);
+        }
+      }
+      setUrls(loaded);
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      created.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [turns, loadAudio]);
+
+  const recorded = turns.filter(turn => turn.audio && urls[turn.audio.id]);
+  if (recorded.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 text-left">
+      <h3 className="text-xl font-bold text-gray-900 mb-1">Answer Recordings</h3>
+      <p className="text-sm text-gray-500 mb-4">Stored in this browser only</p>
+
+      <ol className="space-y-4">
+        {turns.map((turn, index) => turn.audio && urls[turn.audio.id] && (
+          <li key={turn.audio.id}>
+            <p className="text-gray-800">
+              <span className="font-semibold">Q{index + 1}:</span> {turn.question}
+            </p>
+            <p className="text-sm text-gray-600 mb-2">
+              &ldquo;{turn.answer}&rdquo; · {formatDuration(turn.audio.durationMs)}
+            </p>
+            <audio controls preload="none" src={urls[turn.audio.id]} className="w-full" />
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { downloadFile } from '@/lib/download';
+import { CandidateReport as CandidateReportData, formatReportMarkdown } from '@/lib/report';
+
+interface CandidateReportProps {
+  report: CandidateReportData;
+}
+
+export default function CandidateReport({ report }: CandidateReportProps) {
+  const fileStem = `interview-report-${report.generatedAt.slice(0, 10)}`;
+  const isHire = report.recommendation.decision === 'hire';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 text-left">
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-gray-900">Candidate Report</h3>
+          {!report.aiGenerated && (
+            <p className="text-sm text-gray-500">AI summary unavailable - based on answer scores only</p>
+          )}
+        </div>
+        <div className={`px-4 py-2 rounded-lg text-center ${isHire ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+          <div className="font-bold">{isHire ? 'Hire' : 'No Hire'}</div>
+          <div className="text-xs">{Math.round(report.recommendation.confidence * 100)}% confidence</div>
+        </div>
+      </div>
+
+      <p className="text-gray-800 mb-2">{report.summary}</p>
+      <p className="text-sm text-gray-600 mb-6">{report.recommendation.rationale}</p>
+
+      <div className="grid md:grid-cols-2 gap-6 mb-6">
+        <div>
+          <h4 className="font-semibold text-gray-700 mb-2">Strengths</h4>
+          <ul className="list-disc list-inside text-gray-700 space-y-1">
+            {report.strengths.length > 0
+              ? report.strengths.map(strength => <li key={strength}>{strength}</li>)
+              : <li>None noted</li>}
+          </ul>
+        </div>
+        <div>
+          <h4 className="font-semibold text-gray-700 mb-2">Concerns</h4>
+          <ul className="list-disc list-inside text-gray-700 space-y-1">
+            {report.concerns.length > 0
+              ? report.concerns.map(concern => <li key={concern}>{concern}</li>)
+              : <li>None noted</li>}
+          </ul>
+        </div>
+      </div>
+
+      <h4 className="font-semibold text-gray-700 mb-2">Competency Scores</h4>
+      <div className="space-y-2 mb-6">
+        {report.competencyScores.map(competency => (
+          <div key={competency.competencyId}>
+            <div className="flex justify-between text-sm text-gray-700">
+              <span>{competency.name}</span>
+              <span>{competency.score ?? 'n/a'} / {report.scale.max}</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-gradient-to-r from-blue-500 to-purple-600 h-2 rounded-full"
+                style={{ width: `${competency.score === null ? 0 : (competency.score / report.scale.max) * 100}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {report.notableQuotes.length > 0 && (
+        <>
+          <h4 className="font-semibold text-gray-700 mb-2">Notable Quotes</h4>
+          <div className="space-y-3 mb-6">
+            {report.notableQuotes.map(quote => (
+              <blockquote key={`${quote.questionNumber}-${quote.quote}`} className="border-l-4 border-purple-300 pl-4">
+                <p className="text-gray-800 italic">&ldquo;{quote.quote}&rdquo;</p>
+                <p className="text-xs text-gray-500">Q{quote.questionNumber}: {quote.context}</p>
+              </blockquote>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="flex gap-4">
+        <button
+          onClick={() => downloadFile(`${fileStem}.md`, formatReportMarkdown(report), 'text/markdown')}
+          className="bg-gray-700 hover:bg-gray-800 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200"
+        >
+          Download Markdown
+        </button>
+        <button
+          onClick={() => downloadFile(`${fileStem}.json`, JSON.stringify(report, null, 2), 'application/json')}
+          className="bg-gray-700 hover:bg-gray-800 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200"
+        >
+          Download JSON
+        </button>
+      </div>
+    </div>
+  );
+}
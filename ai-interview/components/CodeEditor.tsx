@@ -0,0 +1,102 @@
+'use client';
+
+import { KeyboardEvent } from 'react';
+import { CODE_LIMITS, CODING_LANGUAGES, CodingTask } from '@/lib/coding-tasks';
+import { UI_TEXT, UiText } from '@/lib/ui-text';
+
+interface CodeEditorProps {
+  task: CodingTask;
+  language: string;
+  code: string;
+  onLanguageChange: (language: string) => void;
+  onCodeChange: (code: string) => void;
+  // Shown while the interviewer is waiting for a solution
+  onSubmit?: () => void;
+  disabled?: boolean;
+  text?: UiText['codeEditor'];
+}
+
+const INDENT = '  ';
+
+export default function CodeEditor({
+  task,
+  language,
+  code,
+  onLanguageChange,
+  onCodeChange,
+  onSubmit,
+  disabled = false,
+  text = UI_TEXT.en.codeEditor
+}: CodeEditorProps) {
+  // Tab indents instead of moving focus out of the editor
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key !== 'Tab' || event.shiftKey) {
+      return;
+    }
+
+    event.preventDefault();
+    const { selectionStart, selectionEnd } = event.currentTarget;
+    const target = event.currentTarget;
+    onCodeChange(`${code.slice(0, selectionStart)}${INDENT}${code.slice(selectionEnd)}`);
+    requestAnimationFrame(() => {
+      target.selectionStart = target.selectionEnd = selectionStart + INDENT.length;
+    });
+  };
+
+  const lineCount = code ? code.split('\n').length : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 text-left">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-700">{text.heading}: {task.title}</h3>
+        <p className="text-gray-900 mt-1">{task.prompt}</p>
+        <ul className="mt-2 text-sm text-gray-600 font-mono space-y-1">
+          {task.examples.map(example => (
+            <li key={example}>{example}</li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="flex justify-between items-center mb-2">
+        <select
+          value={language}
+          onChange={event => onLanguageChange(event.target.value)}
+          disabled={disabled}
+          className="border border-gray-300 rounded-lg p-2 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {Object.entries(CODING_LANGUAGES).map(([id, name]) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500">
+          {text.size(lineCount, code.length, CODE_LIMITS.codeLength)}
+        </span>
+      </div>
+
+      <textarea
+        value={code}
+        onChange={event => onCodeChange(event.target.value)}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+        maxLength={CODE_LIMITS.codeLength}
+        spellCheck={false}
+        rows={16}
+        placeholder={text.placeholder}
+        className="w-full border border-gray-300 rounded-lg p-3 font-mono text-sm text-gray-900 bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+      />
+
+      {onSubmit && (
+        <div className="mt-3 flex justify-between items-center">
+          <p className="text-sm text-gray-500">{text.hint}</p>
+          <button
+            onClick={onSubmit}
+            disabled={disabled}
+            className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            {text.submit}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { ComplianceAuditEntry, COMPLIANCE_RULE_SETS } from '@/lib/compliance';
+import { downloadFile } from '@/lib/download';
+
+interface ComplianceLogProps {
+  entries: ComplianceAuditEntry[];
+}
+
+export default function ComplianceLog({ entries }: ComplianceLogProps) {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 text-left">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-gray-900">Compliance Audit Log</h3>
+          <p className="text-sm text-gray-500">
+            {entries.length} question{entries.length === 1 ? ' was' : 's were'} blocked and replaced before being asked
+          </p>
+        </div>
+        <button
+          onClick={() => downloadFile('compliance-audit-log.json', JSON.stringify(entries, null, 2), 'application/json')}
+          className="bg-gray-700 hover:bg-gray-800 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200"
+        >
+          Download JSON
+        </button>
+      </div>
+
+      <ul className="space-y-3">
+        {entries.map(entry => (
+          <li key={`${entry.blockedAt}-${entry.question}`} className="border-l-4 border-yellow-400 pl-3">
+            <p className="text-gray-800">&ldquo;{entry.question}&rdquo;</p>
+            <p className="text-sm text-gray-600">
+              Q{entry.questionNumber} · {entry.topic ?? 'other'} · {COMPLIANCE_RULE_SETS[entry.jurisdiction]?.name ?? entry.jurisdiction} · {entry.source}: {entry.reason}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
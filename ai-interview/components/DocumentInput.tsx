@@ -0,0 +1,71 @@
+'use client';
+
+import { ChangeEvent, useState } from 'react';
+import { DOCUMENT_LIMITS } from '@/lib/candidate-documents';
+import { DOCUMENT_FILE_ACCEPT, DocumentReadError, readDocumentFile } from '@/lib/document-reader';
+
+interface DocumentInputProps {
+  label: string;
+  placeholder: string;
+  value: string;
+  onChange: (value: string) => void;
+  uploadLabel?: string;
+  readingLabel?: string;
+}
+
+export default function DocumentInput({
+  label,
+  placeholder,
+  value,
+  onChange,
+  uploadLabel = 'Upload .txt, .md or .pdf',
+  readingLabel = 'Reading...'
+}: DocumentInputProps) {
+  const [isReading, setIsReading] = useState(false);
+  const [readError, setReadError] = useState('');
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setIsReading(true);
+    setReadError('');
+    try {
+      onChange(await readDocumentFile(file));
+    } catch (error) {
+      setReadError(error instanceof DocumentReadError ? error.message : `Could not read "${file.name}".`);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <div className="text-left">
+      <div className="flex justify-between items-center mb-2">
+        <label className="font-semibold text-gray-700">{label}</label>
+        <label className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+          {isReading ? readingLabel : uploadLabel}
+          <input
+            type="file"
+            accept={DOCUMENT_FILE_ACCEPT}
+            onChange={handleFile}
+            disabled={isReading}
+            className="hidden"
+          />
+        </label>
+      </div>
+      <textarea
+        value={value}
+        onChange={event => onChange(event.target.value)}
+        placeholder={placeholder}
+        maxLength={DOCUMENT_LIMITS.documentLength}
+        rows={6}
+        className="w-full border border-gray-300 rounded-lg p-3 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      {readError && <p className="text-sm text-red-600 mt-1">{readError}</p>}
+    </div>
+  );
+}
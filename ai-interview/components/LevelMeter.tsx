@@ -0,0 +1,20 @@
+'use client';
+
+interface LevelMeterProps {
+  // RMS level of the latest mic frame
+  level: number;
+  className?: string;
+}
+
+// Speech sits around 0.05 to 0.2 RMS; the square root spreads quiet levels out
+const meterWidth = (level: number): string => {
+  return `${Math.round(Math.min(1, Math.sqrt(level / 0.25)) * 100)}%`;
+};
+
+export default function LevelMeter({ level, className = '' }: LevelMeterProps) {
+  return (
+    <div className={`h-2 bg-gray-200 rounded-full overflow-hidden ${className}`}>
+      <div className="h-full bg-green-500 transition-all duration-100" style={{ width: meterWidth(level) }} />
+    </div>
+  );
+}
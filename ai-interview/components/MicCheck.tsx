@@ -0,0 +1,83 @@
+'use client';
+
+import LevelMeter from '@/components/LevelMeter';
+import type { CalibrationStep } from '@/hooks/useMicCalibration';
+import { MicCalibration } from '@/lib/mic-calibration';
+import { UI_TEXT, UiText } from '@/lib/ui-text';
+
+interface MicCheckProps {
+  step: CalibrationStep;
+  // RMS level of the latest frame
+  level: number;
+  heard: string;
+  result: MicCalibration | null;
+  onStart: () => void;
+  onFinishReading: () => void;
+  text?: UiText['micCheck'];
+}
+
+export default function MicCheck({
+  step,
+  level,
+  heard,
+  result,
+  onStart,
+  onFinishReading,
+  text = UI_TEXT.en.micCheck
+}: MicCheckProps) {
+  const running = step === 'noise' || step === 'reading' || step === 'analyzing';
+
+  return (
+    <div className="text-left md:col-span-2 border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <h3 className="font-semibold text-gray-700">{text.title}</h3>
+        {step === 'reading' ? (
+          <button
+            type="button"
+            onClick={onFinishReading}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            {text.finished}
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={onStart}
+            disabled={running}
+            className="bg-gray-100 hover:bg-gray-200 disabled:opacity-60 text-gray-800 font-semibold py-2 px-4 rounded-lg border border-gray-300 transition-colors duration-200"
+          >
+            {result ? text.again : text.start}
+          </button>
+        )}
+      </div>
+
+      {running && <LevelMeter level={level} className="mb-3" />}
+      {step === 'noise' && <p className="text-sm text-gray-600">{text.quiet}</p>}
+      {step === 'reading' && (
+        <>
+          <p className="text-sm text-gray-600 mb-2">{text.read}</p>
+          <p className="text-lg text-gray-900 font-medium">&ldquo;{text.sentence}&rdquo;</p>
+        </>
+      )}
+      {step === 'analyzing' && <p className="text-sm text-gray-600">{text.analyzing}</p>}
+      {(step === 'reading' || step === 'done') && heard && (
+        <p className="text-sm text-gray-500 mt-2">{text.heard}: &ldquo;{heard}&rdquo;</p>
+      )}
+      {step === 'failed' && <p className="text-sm text-red-600">{text.failed}</p>}
+
+      {step === 'done' && result && (
+        result.warnings.length === 0 ? (
+          <p className="text-sm text-green-700 mt-2">{text.ready}</p>
+        ) : (
+          <ul className="mt-2 space-y-1">
+            {result.warnings.map(warning => (
+              <li key={warning} className="text-sm bg-yellow-100 border border-yellow-400 text-yellow-800 px-3 py-2 rounded">
+                {text.warnings[warning]}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { MicDevice } from '@/lib/mic-devices';
+import { UI_TEXT, UiText } from '@/lib/ui-text';
+
+interface MicSelectProps {
+  devices: MicDevice[];
+  // Empty for the system default
+  selectedId: string;
+  onSelect: (id: string) => void;
+  // Labels only appear once mic access is granted, so the list is re-read on open
+  onOpen?: () => void;
+  disabled?: boolean;
+  text?: UiText['microphone'];
+}
+
+export default function MicSelect({
+  devices,
+  selectedId,
+  onSelect,
+  onOpen,
+  disabled = false,
+  text = UI_TEXT.en.microphone
+}: MicSelectProps) {
+  return (
+    <div className="text-left">
+      <label className="font-semibold text-gray-700 block mb-2">{text.label}</label>
+      <select
+        value={selectedId}
+        onChange={event => onSelect(event.target.value)}
+        onFocus={onOpen}
+        disabled={disabled}
+        className="w-full border border-gray-300 rounded-lg p-3 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">{text.systemDefault}</option>
+        {devices.map((device, index) => (
+          <option key={device.id} value={device.id}>{device.label || text.unnamed(index + 1)}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { downloadFile } from '@/lib/download';
+import {
+  formatTranscriptJson,
+  formatTranscriptMarkdown,
+  formatTranscriptWebVtt,
+  InterviewTranscript
+} from '@/lib/transcript';
+
+interface TranscriptExportProps {
+  // Called on each download so the export includes the latest turn; null before the interview starts
+  getTranscript: () => InterviewTranscript | null;
+}
+
+const FORMATS = [
+  { label: 'JSON', extension: 'json', mimeType: 'application/json', format: formatTranscriptJson },
+  { label: 'Markdown', extension: 'md', mimeType: 'text/markdown', format: formatTranscriptMarkdown },
+  { label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt', format: formatTranscriptWebVtt }
+];
+
+export default function TranscriptExport({ getTranscript }: TranscriptExportProps) {
+  const download = (format: typeof FORMATS[number]) => {
+    const transcript = getTranscript();
+    if (!transcript) {
+      return;
+    }
+    const fileStem = `interview-transcript-${transcript.exportedAt.slice(0, 10)}`;
+    downloadFile(`${fileStem}.${format.extension}`, format.format(transcript), format.mimeType);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 text-left">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-xl font-bold text-gray-900">Transcript</h3>
+          <p className="text-sm text-gray-500">Every question and answer with its timestamps</p>
+        </div>
+        <div className="flex gap-2">
+          {FORMATS.map(format => (
+            <button
+              key={format.extension}
+              onClick={() => download(format)}
+              className="bg-gray-700 hover:bg-gray-800 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200"
+            >
+              {format.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
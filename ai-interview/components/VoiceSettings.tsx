@@ -0,0 +1,81 @@
+'use client';
+
+import { TTS_LIMITS, TtsSettings, TtsVoice } from '@/lib/tts/types';
+import { UI_TEXT, UiText } from '@/lib/ui-text';
+
+interface VoiceSettingsProps {
+  voices: TtsVoice[];
+  settings: TtsSettings;
+  onChange: (settings: TtsSettings) => void;
+  onPreview: () => void;
+  // Hides the pitch slider for engines that ignore it
+  supportsPitch: boolean;
+  previewing?: boolean;
+  text?: UiText['voice'];
+}
+
+export default function VoiceSettings({
+  voices,
+  settings,
+  onChange,
+  onPreview,
+  supportsPitch,
+  previewing = false,
+  text = UI_TEXT.en.voice
+}: VoiceSettingsProps) {
+  return (
+    <div className="text-left md:col-span-2 grid md:grid-cols-3 gap-6 items-end">
+      <div>
+        <label className="font-semibold text-gray-700 block mb-2">{text.voice}</label>
+        <select
+          value={settings.voiceId ?? ''}
+          onChange={event => onChange({ ...settings, voiceId: event.target.value || undefined })}
+          className="w-full border border-gray-300 rounded-lg p-3 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">{text.automatic}</option>
+          {voices.map(voice => (
+            <option key={voice.id} value={voice.id}>{voice.name}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="font-semibold text-gray-700 block mb-2">
+          {text.rate}: {settings.rate.toFixed(1)}×
+        </label>
+        <input
+          type="range"
+          min={TTS_LIMITS.minRate}
+          max={TTS_LIMITS.maxRate}
+          step={0.1}
+          value={settings.rate}
+          onChange={event => onChange({ ...settings, rate: Number(event.target.value) })}
+          className="w-full accent-blue-600"
+        />
+        {supportsPitch && (
+          <>
+            <label className="font-semibold text-gray-700 block mt-3 mb-2">
+              {text.pitch}: {settings.pitch.toFixed(1)}
+            </label>
+            <input
+              type="range"
+              min={TTS_LIMITS.minPitch}
+              max={TTS_LIMITS.maxPitch}
+              step={0.1}
+              value={settings.pitch}
+              onChange={event => onChange({ ...settings, pitch: Number(event.target.value) })}
+              className="w-full accent-blue-600"
+            />
+          </>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={onPreview}
+        disabled={previewing}
+        className="bg-gray-100 hover:bg-gray-200 disabled:opacity-60 text-gray-800 font-semibold py-3 px-4 rounded-lg border border-gray-300 transition-colors duration-200"
+      >
+        {text.preview}
+      </button>
+    </div>
+  );
+}
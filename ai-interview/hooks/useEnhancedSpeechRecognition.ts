@@ -1,5 +1,30 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useStreamingVAD } from './useStreamingVAD';
+import { BargeInDetector, BargeInOptions } from '@/lib/barge-in';
+import { EndOfTurnDecision, EndOfTurnDetector, EndOfTurnOptions } from '@/lib/end-of-turn';
+import { getLanguage } from '@/lib/languages';
+import {
+  DEFAULT_STT_BACKEND,
+  resolveSttBackend,
+  SpeechToTextBackend,
+  SttBackendType,
+  SttResult,
+  WordTiming
+} from '@/lib/stt';
+
+// Epoch milliseconds from the VAD callbacks since listening started
+export interface SpeechTiming {
+  // First speech start
+  startedAt: number | null;
+  // Latest speech end
+  endedAt: number | null;
+}
+
+export interface ListenOptions {
+  // Listen while the interviewer is still talking so the candidate can cut in;
+  // speech only counts once it passes the barge-in gate or endPlayback() is called
+  whileSpeaking?: boolean;
+}
 
 export interface UseEnhancedSpeechRecognitionReturn {
   transcript: string;
@@ -8,65 +33,165 @@ export interface UseEnhancedSpeechRecognitionReturn {
   isSpeaking: boolean;
   confidence: number;
   vadProbability: number;
-  startListening: () => void;
+  // RMS level of the latest mic frame
+  micLevel: number;
+  // The speech-to-text backend in use, after any fallback
+  backend: SttBackendType | null;
+  startListening: (options?: ListenOptions) => Promise<void>;
   stopListening: () => void;
+  // The interviewer has finished talking; from now on all speech is the answer
+  endPlayback: () => void;
   resetTranscript: () => void;
+  getSpeechTiming: () => SpeechTiming;
+  // Speech segments captured by the VAD since listening started
+  getAudioSegments: () => Float32Array[];
+  // Empty for backends that don't report word timings
+  getWordTimings: () => WordTiming[];
+  // Every end-of-turn hold-off decided since listening started, with its outcome
+  getEndOfTurnDecisions: () => EndOfTurnDecision[];
   error: string | null;
 }
 
+const appendText = (current: string, next: string): string => {
+  return [current.trim(), next.trim()].filter(Boolean).join(' ');
+};
+
 export const useEnhancedSpeechRecognition = (
-  onSpeechEnd?: (transcript: string) => void,
+  onSpeechEnd?: (transcript: string, timing: SpeechTiming, audio: Float32Array[], endOfTurn: EndOfTurnDecision[]) => void,
   config?: {
     endOfSpeechTimeout?: number;
     minSpeechDuration?: number;
+    // Speech probability that starts a segment, and the one below which it is silence
     vadThreshold?: number;
+    vadNegativeThreshold?: number;
+    // Silent frames allowed inside a speech segment
+    redemptionFrames?: number;
     silenceAfterSpeechTimeout?: number;
+    // BCP 47 locale of the interview language
+    lang?: string;
+    // Microphone to listen on; the system default when unset
+    deviceId?: string;
+    // Falls back to the other backend when this browser can't run it
+    sttBackend?: SttBackendType;
+    // Called when the candidate talks over the interviewer
+    onBargeIn?: () => void;
+    bargeIn?: Partial<BargeInOptions>;
+    // Level of the interviewer's speech as it plays, when the TTS engine can measure it
+    getPlaybackLevel?: () => number | null;
+    // Overrides for the end-of-turn hold-off; silenceAfterSpeechTimeout is its base
+    endOfTurn?: Partial<EndOfTurnOptions>;
+    // Optional model check of whether the answer so far is finished; null when it can't tell
+    checkCompleteness?: (transcript: string) => Promise<boolean | null>;
   }
 ): UseEnhancedSpeechRecognitionReturn => {
   const [transcript, setTranscript] = useState('');
   const [isListening, setIsListening] = useState(false);
   const [isSupported, setIsSupported] = useState(false);
   const [confidence, setConfidence] = useState(0);
+  const [backendType, setBackendType] = useState<SttBackendType | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const backendRef = useRef<SpeechToTextBackend | null>(null);
   const finalTranscriptRef = useRef('');
   const interimTranscriptRef = useRef('');
+  const wordsRef = useRef<WordTiming[]>([]);
   const speechStartTimeRef = useRef<number>(0);
   const silenceTimerRef = useRef<NodeJS.Timeout | null>(null);
   const speechEndTimerRef = useRef<NodeJS.Timeout | null>(null);
   const hasCapturedSpeechRef = useRef(false);
+  const speechTimingRef = useRef<SpeechTiming>({ startedAt: null, endedAt: null });
+  const audioSegmentsRef = useRef<Float32Array[]>([]);
+  // Segments sent to a segment backend whose transcript hasn't come back yet
+  const pendingSegmentsRef = useRef(0);
+  const isVADSpeakingRef = useRef(false);
+  // Listening while the interviewer talks, before any barge-in
+  const duringPlaybackRef = useRef(false);
+  const playbackEndedRef = useRef(false);
+  const bargeInDetectorRef = useRef(new BargeInDetector(config?.bargeIn));
+  const segmentStartedAtRef = useRef(0);
+  // What the backend heard before the current speech segment, i.e. the interviewer
+  const playbackTextRef = useRef('');
+  const onBargeInRef = useRef(config?.onBargeIn);
+  onBargeInRef.current = config?.onBargeIn;
+  const getPlaybackLevelRef = useRef(config?.getPlaybackLevel);
+  getPlaybackLevelRef.current = config?.getPlaybackLevel;
+  // Kept across answers so it learns how long this candidate pauses
+  const endOfTurnRef = useRef(new EndOfTurnDetector({
+    holdOffMs: config?.silenceAfterSpeechTimeout ?? 1500,
+    ...config?.endOfTurn
+  }));
+  const endOfTurnDecisionsRef = useRef<EndOfTurnDecision[]>([]);
+  // The decision whose hold-off is running, if any
+  const pendingDecisionRef = useRef<EndOfTurnDecision | null>(null);
+  const checkCompletenessRef = useRef(config?.checkCompleteness);
+  checkCompletenessRef.current = config?.checkCompleteness;
 
   // Configuration with defaults
   const settings = {
     endOfSpeechTimeout: config?.endOfSpeechTimeout ?? 2000, // 2 seconds after speech ends
     minSpeechDuration: config?.minSpeechDuration ?? 800, // Minimum 800ms of speech
     vadThreshold: config?.vadThreshold ?? 0.8,
+    vadNegativeThreshold: config?.vadNegativeThreshold ?? 0.3,
+    redemptionFrames: config?.redemptionFrames ?? 8,
     silenceAfterSpeechTimeout: config?.silenceAfterSpeechTimeout ?? 1500, // 1.5s silence after speech
+    lang: config?.lang ?? 'en-US',
+    sttBackend: config?.sttBackend ?? DEFAULT_STT_BACKEND,
     ...config
   };
 
-  // VAD callbacks for precise speech detection
-  const handleVADSpeechStart = useCallback(() => {
-    console.log('🎤 VAD: Speech started');
-    speechStartTimeRef.current = Date.now();
-    hasCapturedSpeechRef.current = true;
-    
-    // Clear any existing timers
-    if (silenceTimerRef.current) {
-      clearTimeout(silenceTimerRef.current);
-      silenceTimerRef.current = null;
+  const language = getLanguage(settings.lang.split('-')[0]).code;
+
+  // Runs the hold-off for a decision, replacing the one it revises in the log
+  const startEndOfTurnTimer = useCallback((decision: EndOfTurnDecision, speechEndedAt: number, revises?: EndOfTurnDecision) => {
+    const decisions = endOfTurnDecisionsRef.current;
+    const index = revises ? decisions.indexOf(revises) : -1;
+    if (index >= 0) {
+      decisions[index] = decision;
+    } else {
+      decisions.push(decision);
+    }
+    pendingDecisionRef.current = decision;
+    console.log(`⏱️ End of turn: holding off ${decision.holdOffMs}ms (${decision.signals.join(', ') || 'no signals'})`);
+
+    if (speechEndTimerRef.current) {
+      clearTimeout(speechEndTimerRef.current);
     }
+    // Time spent transcribing or checking counts towards the silence
+    const delay = Math.max(0, decision.holdOffMs - (Date.now() - speechEndedAt));
+
+    // Start countdown for end of speech
+    speechEndTimerRef.current = setTimeout(() => {
+      console.log('✅ End of speech confirmed - processing transcript');
+      endOfTurnRef.current.noteOutcome(decision, 'ended', Date.now() - speechEndedAt);
+      pendingDecisionRef.current = null;
+      const finalText = finalTranscriptRef.current.trim();
+
+      if (finalText && onSpeechEnd) {
+        stopListening();
+        onSpeechEnd(finalText, { ...speechTimingRef.current }, [...audioSegmentsRef.current], [...endOfTurnDecisionsRef.current]);
+      }
+    }, delay);
+  }, [onSpeechEnd]);
+
+  // The candidate spoke again before the hold-off ran out
+  const cancelEndOfTurn = useCallback(() => {
     if (speechEndTimerRef.current) {
       clearTimeout(speechEndTimerRef.current);
       speechEndTimerRef.current = null;
     }
+    const decision = pendingDecisionRef.current;
+    if (decision) {
+      const silenceMs = Date.now() - (speechTimingRef.current.endedAt ?? Date.now());
+      console.log(`🗣️ Speech resumed after ${silenceMs}ms - cancelling end timer`);
+      endOfTurnRef.current.noteOutcome(decision, 'resumed', silenceMs);
+      pendingDecisionRef.current = null;
+    }
   }, []);
 
-  const handleVADSpeechEnd = useCallback(() => {
-    console.log('🔇 VAD: Speech ended');
-    
-    const speechDuration = Date.now() - speechStartTimeRef.current;
+  // Starts the countdown to end of speech once there is a transcript to hand over
+  const scheduleEndOfSpeech = useCallback(() => {
+    const speechEndedAt = speechTimingRef.current.endedAt ?? Date.now();
+    const speechDuration = speechEndedAt - speechStartTimeRef.current;
     const hasMinimumDuration = speechDuration >= settings.minSpeechDuration;
     const hasContent = finalTranscriptRef.current.trim().length > 0;
 
@@ -74,27 +199,161 @@ export const useEnhancedSpeechRecognition = (
     console.log(`Has content: ${hasContent}, Content: "${finalTranscriptRef.current.trim()}"`);
 
     if (hasMinimumDuration && hasContent && hasCapturedSpeechRef.current) {
-      // Start countdown for end of speech
-      speechEndTimerRef.current = setTimeout(() => {
-        console.log('✅ End of speech confirmed - processing transcript');
-        const finalText = finalTranscriptRef.current.trim();
-        
-        if (finalText && onSpeechEnd) {
-          stopListening();
-          onSpeechEnd(finalText);
+      // Interim text holds the last words when the browser hasn't finalised them yet
+      const answerSoFar = appendText(finalTranscriptRef.current, interimTranscriptRef.current);
+      const decision = endOfTurnRef.current.decide(answerSoFar, language);
+      startEndOfTurnTimer(decision, speechEndedAt);
+
+      // The model can shorten or stretch the hold-off if it answers while it is still running
+      checkCompletenessRef.current?.(answerSoFar).then(complete => {
+        if (complete !== null && pendingDecisionRef.current === decision) {
+          startEndOfTurnTimer(endOfTurnRef.current.decide(answerSoFar, language, complete), speechEndedAt, decision);
         }
-      }, settings.silenceAfterSpeechTimeout);
+      });
+    }
+  }, [settings.minSpeechDuration, language, startEndOfTurnTimer]);
+
+  // A segment backend has answered for one segment; check once the speaker has stopped and all are in
+  const settleSegment = useCallback(() => {
+    if (!backendRef.current?.usesAudioSegments) {
+      return;
+    }
+    pendingSegmentsRef.current = Math.max(0, pendingSegmentsRef.current - 1);
+    if (pendingSegmentsRef.current === 0 && !isVADSpeakingRef.current) {
+      scheduleEndOfSpeech();
+    }
+  }, [scheduleEndOfSpeech]);
+
+  const handleResult = useCallback((result: SttResult) => {
+    if (result.isFinal) {
+      finalTranscriptRef.current = appendText(finalTranscriptRef.current, result.text);
+      interimTranscriptRef.current = '';
+      if (result.words) {
+        wordsRef.current.push(...result.words);
+      }
+      if (result.confidence !== undefined) {
+        setConfidence(result.confidence);
+      }
+    } else {
+      interimTranscriptRef.current = result.text;
+    }
+
+    // Nothing is shown until the candidate has actually cut in
+    if (duringPlaybackRef.current) {
+      return;
+    }
+
+    // Update display transcript
+    setTranscript(appendText(finalTranscriptRef.current, interimTranscriptRef.current));
+
+    if (result.isFinal) {
+      settleSegment();
+    }
+  }, [settleSegment]);
+
+  const handleError = useCallback((message: string) => {
+    setError(message);
+    settleSegment();
+  }, [settleSegment]);
+
+  // The backend is created once, so it reaches the latest handlers through refs
+  const handleResultRef = useRef(handleResult);
+  const handleErrorRef = useRef(handleError);
+  handleResultRef.current = handleResult;
+  handleErrorRef.current = handleError;
+
+  // Ends listening during playback; a speech segment already under way becomes the start of the answer
+  const acceptSpeech = useCallback(() => {
+    if (!duringPlaybackRef.current) {
+      return;
+    }
+    duringPlaybackRef.current = false;
+
+    const playbackText = playbackTextRef.current;
+    const heard = finalTranscriptRef.current;
+    if (isVADSpeakingRef.current) {
+      speechStartTimeRef.current = segmentStartedAtRef.current;
+      speechTimingRef.current.startedAt = segmentStartedAtRef.current;
+      hasCapturedSpeechRef.current = true;
+      // Keep the candidate's first words, dropping whatever was recognised from the interviewer before them
+      finalTranscriptRef.current = heard.startsWith(playbackText) ? heard.slice(playbackText.length).trim() : heard;
+      wordsRef.current = wordsRef.current.filter(word => word.startMs >= segmentStartedAtRef.current);
+    } else {
+      finalTranscriptRef.current = '';
+      interimTranscriptRef.current = '';
+      wordsRef.current = [];
+    }
+    setTranscript(appendText(finalTranscriptRef.current, interimTranscriptRef.current));
+  }, []);
+
+  // VAD callbacks for precise speech detection
+  const handleVADSpeechStart = useCallback(() => {
+    // Until the barge-in gate opens, this may just be the interviewer's echo
+    if (duringPlaybackRef.current) {
+      console.log('🎤 VAD: Speech started during playback');
+      segmentStartedAtRef.current = Date.now();
+      playbackTextRef.current = finalTranscriptRef.current;
+      isVADSpeakingRef.current = true;
+      return;
+    }
+
+    console.log('🎤 VAD: Speech started');
+    speechStartTimeRef.current = Date.now();
+    speechTimingRef.current.startedAt ??= speechStartTimeRef.current;
+    hasCapturedSpeechRef.current = true;
+    isVADSpeakingRef.current = true;
+
+    // Clear any existing timers
+    if (silenceTimerRef.current) {
+      clearTimeout(silenceTimerRef.current);
+      silenceTimerRef.current = null;
+    }
+    cancelEndOfTurn();
+  }, [cancelEndOfTurn]);
+
+  const handleVADSpeechEnd = useCallback((audio: Float32Array) => {
+    // A segment that never passed the barge-in gate isn't the candidate's
+    if (duringPlaybackRef.current) {
+      console.log('🔇 VAD: Speech during playback ignored');
+      isVADSpeakingRef.current = false;
+      if (playbackEndedRef.current) {
+        acceptSpeech();
+      }
+      return;
+    }
+
+    console.log('🔇 VAD: Speech ended');
+
+    speechTimingRef.current.endedAt = Date.now();
+    audioSegmentsRef.current.push(audio);
+    isVADSpeakingRef.current = false;
+
+    // Segment backends only have a transcript once the segment comes back
+    const backend = backendRef.current;
+    if (backend?.usesAudioSegments) {
+      pendingSegmentsRef.current += 1;
+      backend.transcribeSegment(audio);
+      return;
+    }
+    scheduleEndOfSpeech();
+  }, [scheduleEndOfSpeech, acceptSpeech]);
+
+  const handleVADSpeaking = useCallback((probability: number, frame: Float32Array) => {
+    if (duringPlaybackRef.current) {
+      const playbackLevel = getPlaybackLevelRef.current?.() ?? null;
+      if (bargeInDetectorRef.current.processFrame(probability, frame, playbackLevel)) {
+        console.log('✋ Barge-in: candidate is talking over the interviewer');
+        acceptSpeech();
+        onBargeInRef.current?.();
+      }
+      return;
     }
-  }, [onSpeechEnd, settings.minSpeechDuration, settings.silenceAfterSpeechTimeout]);
 
-  const handleVADSpeaking = useCallback((probability: number) => {
     // If speaking resumes, cancel the end timer
     if (probability > settings.vadThreshold && speechEndTimerRef.current) {
-      console.log('🗣️ Speech resumed - cancelling end timer');
-      clearTimeout(speechEndTimerRef.current);
-      speechEndTimerRef.current = null;
+      cancelEndOfTurn();
     }
-  }, [settings.vadThreshold]);
+  }, [settings.vadThreshold, acceptSpeech, cancelEndOfTurn]);
 
   // Initialize VAD
   const vad = useStreamingVAD(
@@ -102,91 +361,39 @@ export const useEnhancedSpeechRecognition = (
     handleVADSpeechEnd,
     handleVADSpeaking,
     {
-      positiveSpeechThreshold: 0.8,
-      negativeSpeechThreshold: 0.3,
-      redemptionFrames: 8,
-      frameSamples: 1536
+      positiveSpeechThreshold: settings.vadThreshold,
+      negativeSpeechThreshold: settings.vadNegativeThreshold,
+      redemptionFrames: settings.redemptionFrames,
+      frameSamples: 1536,
+      deviceId: settings.deviceId
     }
   );
 
+  // Calibration can change the base hold-off after the detector was created
   useEffect(() => {
-    // Check if speech recognition is supported
-    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-    setIsSupported(!!SpeechRecognition && vad.isVADSupported);
-
-    if (SpeechRecognition && vad.isVADSupported) {
-      const recognition = new SpeechRecognition();
-      recognitionRef.current = recognition;
-
-      // Configure recognition settings
-      recognition.continuous = true;
-      recognition.interimResults = true;
-      recognition.lang = 'en-US';
-      recognition.maxAlternatives = 1;
-
-      recognition.onstart = () => {
-        console.log('🎙️ Speech recognition started');
-        setIsListening(true);
-      };
-
-      recognition.onresult = (event) => {
-        let finalTranscript = '';
-        let interimTranscript = '';
-        let maxConfidence = 0;
-
-        for (let i = event.resultIndex; i < event.results.length; i++) {
-          const result = event.results[i];
-          const resultTranscript = result[0].transcript;
-          const resultConfidence = result[0].confidence || 0.8;
-
-          if (result.isFinal) {
-            finalTranscript += resultTranscript;
-            maxConfidence = Math.max(maxConfidence, resultConfidence);
-            console.log(`📝 Final transcript: "${resultTranscript}"`);
-          } else {
-            interimTranscript += resultTranscript;
-          }
-        }
-
-        // Update confidence
-        setConfidence(maxConfidence || 0.8);
-
-        // Update transcript refs
-        if (finalTranscript) {
-          finalTranscriptRef.current += finalTranscript;
-        }
-        interimTranscriptRef.current = interimTranscript;
-
-        // Update display transcript
-        const fullTranscript = finalTranscriptRef.current + interimTranscript;
-        setTranscript(fullTranscript);
-      };
-
-      recognition.onerror = (event) => {
-        console.error('Speech recognition error:', event.error);
-        setError(`Speech recognition error: ${event.error}`);
-        
-        // Auto-restart on certain errors
-        if (event.error === 'no-speech' || event.error === 'audio-capture') {
-          setTimeout(() => {
-            if (isListening && recognitionRef.current) {
-              try {
-                recognitionRef.current.start();
-              } catch (restartError) {
-                console.error('Failed to restart recognition:', restartError);
-              }
-            }
-          }, 1000);
-        }
-      };
+    endOfTurnRef.current.configure({ holdOffMs: config?.endOfTurn?.holdOffMs ?? settings.silenceAfterSpeechTimeout });
+  }, [settings.silenceAfterSpeechTimeout]);
 
-      recognition.onend = () => {
-        console.log('🛑 Speech recognition ended');
-        setIsListening(false);
-      };
+  useEffect(() => {
+    if (!vad.isVADSupported) {
+      setIsSupported(false);
+      return;
     }
 
+    // Pick the speech-to-text backend, falling back if this browser can't run the preferred one
+    const backend = resolveSttBackend(settings.sttBackend, {
+      onResult: result => handleResultRef.current(result),
+      onError: message => handleErrorRef.current(message),
+      onListeningChange: setIsListening
+    }, settings.lang);
+    backendRef.current = backend;
+    setBackendType(backend.type);
+    setIsSupported(backend.isSupported());
+    console.log(`🧩 Speech-to-text backend: ${backend.type}`);
+
     return () => {
+      backend.stop();
+      backendRef.current = null;
       if (silenceTimerRef.current) {
         clearTimeout(silenceTimerRef.current);
       }
@@ -194,9 +401,14 @@ export const useEnhancedSpeechRecognition = (
         clearTimeout(speechEndTimerRef.current);
       }
     };
-  }, [vad.isVADSupported, isListening]);
+  }, [vad.isVADSupported, settings.sttBackend]);
 
-  const startListening = useCallback(async () => {
+  // Picks up a language change without waiting for the backend to be recreated
+  useEffect(() => {
+    backendRef.current?.setLanguage(settings.lang);
+  }, [settings.lang]);
+
+  const startListening = useCallback(async (options?: ListenOptions) => {
     if (!isSupported) {
       const errorMsg = 'Speech recognition or VAD not supported';
       setError(errorMsg);
@@ -205,12 +417,23 @@ export const useEnhancedSpeechRecognition = (
 
     try {
       setError(null);
-      
+
       // Reset state
       finalTranscriptRef.current = '';
       interimTranscriptRef.current = '';
+      wordsRef.current = [];
       hasCapturedSpeechRef.current = false;
       speechStartTimeRef.current = 0;
+      speechTimingRef.current = { startedAt: null, endedAt: null };
+      audioSegmentsRef.current = [];
+      endOfTurnDecisionsRef.current = [];
+      pendingDecisionRef.current = null;
+      pendingSegmentsRef.current = 0;
+      isVADSpeakingRef.current = false;
+      duringPlaybackRef.current = options?.whileSpeaking ?? false;
+      playbackEndedRef.current = false;
+      playbackTextRef.current = '';
+      bargeInDetectorRef.current.reset();
       setTranscript('');
       setConfidence(0);
 
@@ -229,13 +452,13 @@ export const useEnhancedSpeechRecognition = (
       await vad.startListening();
 
       // Then start speech recognition
-      if (recognitionRef.current) {
-        console.log('🚀 Starting Speech Recognition...');
-        recognitionRef.current.start();
+      if (backendRef.current) {
+        console.log(`🚀 Starting Speech Recognition (${backendRef.current.type})...`);
+        backendRef.current.start();
       }
 
       console.log('✅ Enhanced speech recognition started');
-      
+
     } catch (error) {
       console.error('Error starting enhanced speech recognition:', error);
       setError(`Failed to start: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -250,10 +473,13 @@ export const useEnhancedSpeechRecognition = (
       // Stop VAD
       vad.stopListening();
 
-      // Stop speech recognition
-      if (recognitionRef.current) {
-        recognitionRef.current.stop();
+      // Stop speech recognition; a segment backend drops segments still being transcribed
+      if (backendRef.current) {
+        backendRef.current.stop();
       }
+      pendingSegmentsRef.current = 0;
+      pendingDecisionRef.current = null;
+      duringPlaybackRef.current = false;
 
       // Clear timers
       if (silenceTimerRef.current) {
@@ -267,22 +493,40 @@ export const useEnhancedSpeechRecognition = (
 
       setIsListening(false);
       console.log('✅ Enhanced speech recognition stopped');
-      
+
     } catch (error) {
       console.error('Error stopping enhanced speech recognition:', error);
       setError(`Error stopping: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }, [vad]);
 
+  // A segment still under way when playback ends is most likely the echo's tail, so it only
+  // counts if it passes the barge-in gate; listening switches over once it ends
+  const endPlayback = useCallback(() => {
+    playbackEndedRef.current = true;
+    if (!isVADSpeakingRef.current) {
+      acceptSpeech();
+    }
+  }, [acceptSpeech]);
+
   const resetTranscript = useCallback(() => {
     setTranscript('');
     setConfidence(0);
     finalTranscriptRef.current = '';
     interimTranscriptRef.current = '';
+    wordsRef.current = [];
     hasCapturedSpeechRef.current = false;
     speechStartTimeRef.current = 0;
+    speechTimingRef.current = { startedAt: null, endedAt: null };
+    audioSegmentsRef.current = [];
+    endOfTurnDecisionsRef.current = [];
   }, []);
 
+  const getSpeechTiming = useCallback((): SpeechTiming => ({ ...speechTimingRef.current }), []);
+  const getAudioSegments = useCallback(() => [...audioSegmentsRef.current], []);
+  const getWordTimings = useCallback(() => [...wordsRef.current], []);
+  const getEndOfTurnDecisions = useCallback(() => [...endOfTurnDecisionsRef.current], []);
+
   return {
     transcript,
     isListening: isListening && vad.isListening,
@@ -290,9 +534,16 @@ export const useEnhancedSpeechRecognition = (
     isSpeaking: vad.isSpeaking,
     confidence,
     vadProbability: vad.vadProbability,
+    micLevel: vad.micLevel,
+    backend: backendType,
     startListening,
     stopListening,
+    endPlayback,
     resetTranscript,
+    getSpeechTiming,
+    getAudioSegments,
+    getWordTimings,
+    getEndOfTurnDecisions,
     error: error || vad.error
   };
-};
\ No newline at end of file
+};
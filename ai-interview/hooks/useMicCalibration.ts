@@ -0,0 +1,181 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { useStreamingVAD } from './useStreamingVAD';
+import { frameLevel } from '@/lib/barge-in';
+import { CALIBRATION_LIMITS, CalibrationPhase, CalibrationRecorder, matchSentence, MicCalibration } from '@/lib/mic-calibration';
+import { DEFAULT_STT_BACKEND, resolveSttBackend, SpeechToTextBackend, SttBackendType } from '@/lib/stt';
+
+export type CalibrationStep = 'idle' | CalibrationPhase | 'analyzing' | 'done' | 'failed';
+
+export interface UseMicCalibrationReturn {
+  step: CalibrationStep;
+  result: MicCalibration | null;
+  // RMS level of the latest frame, for a meter
+  level: number;
+  // Transcript of the read-aloud so far
+  heard: string;
+  // Measures the noise floor, then listens to the candidate read the sentence
+  start: (sentence: string) => Promise<void>;
+  // The candidate has finished reading; otherwise reading stops on its own
+  finishReading: () => void;
+  // Forgets the result, e.g. when another microphone is chosen
+  reset: () => void;
+  error: string | null;
+}
+
+const wait = (ms: number, signal: { cancelled: boolean }): Promise<void> => {
+  return new Promise(resolve => {
+    const started = Date.now();
+    const timer = setInterval(() => {
+      if (signal.cancelled || Date.now() - started >= ms) {
+        clearInterval(timer);
+        resolve();
+      }
+    }, 50);
+  });
+};
+
+/**
+ * Runs the pre-interview mic check with the same VAD and speech-to-text
+ * backend the interview uses, so what it measures is what the interview gets.
+ */
+export const useMicCalibration = (
+  lang: string,
+  // Microphone to check; the system default when unset
+  deviceId?: string,
+  sttBackend: SttBackendType = DEFAULT_STT_BACKEND
+): UseMicCalibrationReturn => {
+  const [step, setStep] = useState<CalibrationStep>('idle');
+  const [result, setResult] = useState<MicCalibration | null>(null);
+  const [level, setLevel] = useState(0);
+  const [heard, setHeard] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef(new CalibrationRecorder());
+  const phaseRef = useRef<CalibrationPhase | null>(null);
+  const backendRef = useRef<SpeechToTextBackend | null>(null);
+  const heardRef = useRef('');
+  const sttErrorRef = useRef<string | null>(null);
+  // Ends the current wait early: reading finished, or the check was abandoned
+  const readingDoneRef = useRef({ cancelled: false });
+  const runningRef = useRef(false);
+
+  const handleFrame = useCallback((probability: number, frame: Float32Array) => {
+    const phase = phaseRef.current;
+    if (phase) {
+      recorderRef.current.addFrame(phase, probability, frame);
+      setLevel(frameLevel(frame));
+    }
+  }, []);
+
+  // Segment backends transcribe what the VAD captures
+  const handleSpeechEnd = useCallback((audio: Float32Array) => {
+    if (phaseRef.current === 'reading' && backendRef.current?.usesAudioSegments) {
+      backendRef.current.transcribeSegment(audio);
+    }
+  }, []);
+
+  const vad = useStreamingVAD(undefined, handleSpeechEnd, handleFrame, { deviceId });
+
+  useEffect(() => {
+    const backend = resolveSttBackend(sttBackend, {
+      onResult: result => {
+        if (result.isFinal) {
+          heardRef.current = [heardRef.current, result.text.trim()].filter(Boolean).join(' ');
+          setHeard(heardRef.current);
+        } else {
+          setHeard([heardRef.current, result.text.trim()].filter(Boolean).join(' '));
+        }
+      },
+      onError: message => {
+        sttErrorRef.current = message;
+      }
+    }, lang);
+    backendRef.current = backend;
+
+    return () => {
+      readingDoneRef.current.cancelled = true;
+      backend.stop();
+      backendRef.current = null;
+    };
+  }, [lang, sttBackend]);
+
+  const finishReading = useCallback(() => {
+    readingDoneRef.current.cancelled = true;
+  }, []);
+
+  const reset = useCallback(() => {
+    if (!runningRef.current) {
+      setStep('idle');
+      setResult(null);
+      setHeard('');
+    }
+  }, []);
+
+  const start = useCallback(async (sentence: string) => {
+    if (runningRef.current) {
+      return;
+    }
+    runningRef.current = true;
+    recorderRef.current.reset();
+    heardRef.current = '';
+    sttErrorRef.current = null;
+    setHeard('');
+    setResult(null);
+    setError(null);
+
+    const backend = backendRef.current;
+    try {
+      console.log('🎚️ Calibrating microphone...');
+      await vad.startListening();
+
+      phaseRef.current = 'noise';
+      setStep('noise');
+      await wait(CALIBRATION_LIMITS.noiseMs, { cancelled: false });
+
+      phaseRef.current = 'reading';
+      setStep('reading');
+      readingDoneRef.current = { cancelled: false };
+      backend?.start();
+      await wait(CALIBRATION_LIMITS.maxReadingMs, readingDoneRef.current);
+
+      // The recognizer may still be finishing the last words
+      phaseRef.current = null;
+      setStep('analyzing');
+      vad.stopListening();
+      const transcriptWait = { cancelled: false };
+      const checkTranscript = setInterval(() => {
+        transcriptWait.cancelled = sttErrorRef.current !== null
+          || matchSentence(sentence, heardRef.current) >= CALIBRATION_LIMITS.minWordMatch;
+      }, 100);
+      await wait(CALIBRATION_LIMITS.transcriptWaitMs, transcriptWait);
+      clearInterval(checkTranscript);
+      backend?.stop();
+
+      const calibration = recorderRef.current.analyze(sentence, heardRef.current, sttErrorRef.current);
+      console.log('🎚️ Mic calibration:', calibration);
+      setResult(calibration);
+      setStep('done');
+    } catch (error) {
+      console.error('Error calibrating microphone:', error);
+      phaseRef.current = null;
+      vad.stopListening();
+      backend?.stop();
+      setError(error instanceof Error ? error.message : 'Unknown error');
+      setStep('failed');
+    } finally {
+      setLevel(0);
+      runningRef.current = false;
+    }
+  }, [vad]);
+
+  return {
+    step,
+    result,
+    level,
+    heard,
+    start,
+    finishReading,
+    reset,
+    error: error || vad.error
+  };
+};
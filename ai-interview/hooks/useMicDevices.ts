@@ -0,0 +1,63 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { listMicDevices, MicDevice, sameMicDevices } from '@/lib/mic-devices';
+
+export interface UseMicDevicesReturn {
+  devices: MicDevice[];
+  // Empty for the system default
+  selectedId: string;
+  select: (id: string) => void;
+  // Re-reads the list, e.g. to pick up labels once mic access is granted
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Lists the microphones and keeps the list current. When one is plugged in
+ * or removed, onDevicesChanged is called; a chosen device that disappears
+ * falls back to the system default.
+ */
+export const useMicDevices = (onDevicesChanged?: (devices: MicDevice[]) => void): UseMicDevicesReturn => {
+  const [devices, setDevices] = useState<MicDevice[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+
+  const devicesRef = useRef<MicDevice[]>([]);
+  const onDevicesChangedRef = useRef(onDevicesChanged);
+  onDevicesChangedRef.current = onDevicesChanged;
+
+  const refresh = useCallback(async () => {
+    try {
+      const listed = await listMicDevices();
+      devicesRef.current = listed;
+      setDevices(listed);
+      setSelectedId(current => listed.some(device => device.id === current) ? current : '');
+    } catch (error) {
+      console.error('Error listing microphones:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const mediaDevices = typeof navigator !== 'undefined' ? navigator.mediaDevices : undefined;
+    if (!mediaDevices?.addEventListener) {
+      return;
+    }
+
+    // Also fires for speakers and cameras, so only a change in microphones counts
+    const handleDeviceChange = async () => {
+      const previous = devicesRef.current;
+      await refresh();
+      if (!sameMicDevices(previous, devicesRef.current)) {
+        console.warn('🎙️ Microphones changed:', devicesRef.current.map(device => device.label || device.id));
+        onDevicesChangedRef.current?.(devicesRef.current);
+      }
+    };
+    mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [refresh]);
+
+  return {
+    devices,
+    selectedId,
+    select: setSelectedId,
+    refresh
+  };
+};
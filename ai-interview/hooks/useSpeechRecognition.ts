@@ -12,7 +12,8 @@ export interface UseSpeechRecognitionReturn {
 
 export const useSpeechRecognition = (
   onSpeechEnd?: (transcript: string) => void,
-  silenceTimeout: number = 2500 // Reduced to 2.5 seconds for better responsiveness
+  silenceTimeout: number = 2500, // Reduced to 2.5 seconds for better responsiveness
+  lang: string = 'en-US'
 ): UseSpeechRecognitionReturn => {
   const [transcript, setTranscript] = useState('');
   const [isListening, setIsListening] = useState(false);
@@ -39,7 +40,7 @@ export const useSpeechRecognition = (
       // Configure recognition settings for better performance
       recognition.continuous = true;
       recognition.interimResults = true;
-      recognition.lang = 'en-US';
+      recognition.lang = lang;
       recognition.maxAlternatives = 1;
 
       recognition.onstart = () => {
@@ -187,7 +188,7 @@ export const useSpeechRecognition = (
         clearTimeout(silenceTimerRef.current);
       }
     };
-  }, [onSpeechEnd, silenceTimeout]);
+  }, [onSpeechEnd, silenceTimeout, lang]);
 
   const startListening = useCallback(() => {
     if (!recognitionRef.current || !isSupported) {
@@ -1,11 +1,15 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { MicVAD, utils } from '@ricky0123/vad-web';
+import { frameLevel } from '@/lib/barge-in';
+import { getMicConstraints } from '@/lib/mic-devices';
 
 export interface UseStreamingVADReturn {
   isListening: boolean;
   isVADSupported: boolean;
   isSpeaking: boolean;
   vadProbability: number;
+  // RMS level of the latest frame, for an input meter
+  micLevel: number;
   startListening: () => Promise<void>;
   stopListening: () => void;
   error: string | null;
@@ -13,25 +17,33 @@ export interface UseStreamingVADReturn {
 
 export const useStreamingVAD = (
   onSpeechStart?: () => void,
-  onSpeechEnd?: () => void,
-  onSpeaking?: (probability: number) => void,
+  // Receives the 16 kHz mono samples of the speech segment
+  onSpeechEnd?: (audio: Float32Array) => void,
+  // Called for every frame with its speech probability and samples
+  onSpeaking?: (probability: number, frame: Float32Array) => void,
   vadConfig?: {
     positiveSpeechThreshold?: number;
     negativeSpeechThreshold?: number;
     redemptionFrames?: number;
     frameSamples?: number;
+    // Microphone to open; the system default when unset
+    deviceId?: string;
   }
 ): UseStreamingVADReturn => {
   const [isListening, setIsListening] = useState(false);
   const [isVADSupported, setIsVADSupported] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [vadProbability, setVadProbability] = useState(0);
+  const [micLevel, setMicLevel] = useState(0);
   const [error, setError] = useState<string | null>(null);
 
   const vadRef = useRef<MicVAD | null>(null);
+  // MicVAD runs its own audio context and closes it on destroy
   const streamRef = useRef<MediaStream | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const isInitializedRef = useRef(false);
+  // Set from the start of startListening until stopListening; isListening lags behind
+  const isActiveRef = useRef(false);
+  // Bumped on stop, so a start still opening the mic releases it instead of leaking a second VAD
+  const generationRef = useRef(0);
 
   // VAD configuration with sensible defaults
   const config = {
@@ -76,15 +88,13 @@ export const useStreamingVAD = (
     initializeVAD();
 
     return () => {
+      generationRef.current += 1;
       if (vadRef.current) {
         vadRef.current.destroy();
       }
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
       }
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-      }
     };
   }, []);
 
@@ -93,19 +103,31 @@ export const useStreamingVAD = (
       throw new Error('VAD not supported');
     }
 
-    if (isListening) {
+    if (isActiveRef.current) {
       console.warn('Already listening');
       return;
     }
+    isActiveRef.current = true;
+    const generation = generationRef.current;
+    let stream: MediaStream | null = null;
 
     try {
       setError(null);
       setIsListening(true);
 
       console.log('Initializing MicVAD...');
+
+      // Open the mic ourselves so the chosen device and echo cancellation constraints are explicit
+      stream = await navigator.mediaDevices.getUserMedia({ audio: getMicConstraints(config.deviceId) });
+      if (generation !== generationRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      streamRef.current = stream;
       
       // Create VAD instance with configuration
-      vadRef.current = await MicVAD.new({
+      const vad = await MicVAD.new({
+        stream,
         positiveSpeechThreshold: config.positiveSpeechThreshold,
         negativeSpeechThreshold: config.negativeSpeechThreshold,
         redemptionFrames: config.redemptionFrames,
@@ -121,12 +143,12 @@ export const useStreamingVAD = (
           }
         },
         
-        onSpeechEnd: () => {
+        onSpeechEnd: (audio: Float32Array) => {
           console.log('🔇 Speech ended');
           setIsSpeaking(false);
           setVadProbability(0);
           if (onSpeechEnd) {
-            onSpeechEnd();
+            onSpeechEnd(audio);
           }
         },
         
@@ -136,15 +158,13 @@ export const useStreamingVAD = (
           setVadProbability(0);
         },
         
-        onFrameProcessed: (probabilities: any) => {
-          // Get the latest probability
-          const latestProb = Array.isArray(probabilities) 
-            ? probabilities[probabilities.length - 1] 
-            : (probabilities as number);
+        onFrameProcessed: (probabilities, frame) => {
+          const latestProb = probabilities.isSpeech;
           setVadProbability(latestProb);
+          setMicLevel(frameLevel(frame));
           
           if (onSpeaking) {
-            onSpeaking(latestProb);
+            onSpeaking(latestProb, frame);
           }
           
           // Log for debugging (can be removed in production)
@@ -153,24 +173,39 @@ export const useStreamingVAD = (
           }
         }
       });
+      // Stopped while the model loaded, e.g. by a quick device change
+      if (generation !== generationRef.current) {
+        vad.destroy();
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      vadRef.current = vad;
 
       console.log('✅ VAD initialized successfully');
       
       // Start the VAD
-      vadRef.current.start();
+      vad.start();
       console.log('🎙️ VAD started, listening for speech...');
 
     } catch (error) {
+      stream?.getTracks().forEach(track => track.stop());
+      if (generation !== generationRef.current) {
+        return;
+      }
       console.error('Error starting VAD:', error);
       setError(`Failed to start voice detection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      streamRef.current = null;
+      isActiveRef.current = false;
       setIsListening(false);
       setIsSpeaking(false);
       throw error;
     }
-  }, [isVADSupported, isListening, config, onSpeechStart, onSpeechEnd, onSpeaking]);
+  }, [isVADSupported, config, onSpeechStart, onSpeechEnd, onSpeaking]);
 
   const stopListening = useCallback(() => {
     console.log('🛑 Stopping VAD...');
+    generationRef.current += 1;
+    isActiveRef.current = false;
     
     try {
       if (vadRef.current) {
@@ -187,14 +222,10 @@ export const useStreamingVAD = (
         streamRef.current = null;
       }
 
-      if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-        audioContextRef.current.close();
-        audioContextRef.current = null;
-      }
-
       setIsListening(false);
       setIsSpeaking(false);
       setVadProbability(0);
+      setMicLevel(0);
       console.log('✅ VAD stopped successfully');
       
     } catch (error) {
@@ -208,6 +239,7 @@ export const useStreamingVAD = (
     isVADSupported,
     isSpeaking,
     vadProbability,
+    micLevel,
     startListening,
     stopListening,
     error
@@ -1,86 +1,149 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  DEFAULT_TTS_ENGINE,
+  DEFAULT_TTS_SETTINGS,
+  resolveTtsEngine,
+  TextToSpeechEngine,
+  TtsEngineType,
+  TtsSettings,
+  TtsVoice
+} from '@/lib/tts';
+
+export interface SpeakOptions {
+  // Fires when the utterance actually starts playing
+  onStart?: () => void;
+}
 
 export interface UseTextToSpeechReturn {
-  speak: (text: string) => Promise<void>;
+  speak: (text: string, options?: SpeakOptions) => Promise<void>;
+  enqueue: (text: string, options?: SpeakOptions) => Promise<void>;
   isLoading: boolean;
   isSpeaking: boolean;
   stop: () => void;
+  // Level of the speech playing right now, for barge-in; null when the engine can't tell
+  getOutputLevel: () => number | null;
+  // The engine in use, once resolved for this browser
+  engine: TtsEngineType | null;
+  // Voices the engine offers for `lang`
+  voices: TtsVoice[];
+  supportsPitch: boolean;
 }
 
-export const useTextToSpeech = (): UseTextToSpeechReturn => {
+// `lang` is the BCP 47 locale of the interview language
+export const useTextToSpeech = (
+  lang: string = 'en-US',
+  settings: TtsSettings = DEFAULT_TTS_SETTINGS,
+  engineType: TtsEngineType = DEFAULT_TTS_ENGINE
+): UseTextToSpeechReturn => {
   const [isLoading, setIsLoading] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
-  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const [engine, setEngine] = useState<TextToSpeechEngine | null>(null);
+  const [voices, setVoices] = useState<TtsVoice[]>([]);
+  const engineRef = useRef<TextToSpeechEngine | null>(null);
+  const pendingCountRef = useRef(0);
+  // Bumped on cancel so late callbacks from cancelled utterances are ignored
+  const generationRef = useRef(0);
 
-  const speak = useCallback(async (text: string): Promise<void> => {
-    return new Promise((resolve, reject) => {
-      if (!window.speechSynthesis) {
-        reject(new Error('Speech synthesis not supported'));
-        return;
-      }
+  useEffect(() => {
+    const resolved = resolveTtsEngine(engineType);
+    engineRef.current = resolved;
+    setEngine(resolved);
 
-      // Stop any ongoing speech
-      window.speechSynthesis.cancel();
-
-      setIsLoading(true);
-      
-      const utterance = new SpeechSynthesisUtterance(text);
-      utteranceRef.current = utterance;
-
-      // Configure voice settings
-      utterance.rate = 0.9;
-      utterance.pitch = 1;
-      utterance.volume = 1;
-
-      // Find a natural-sounding voice
-      const voices = window.speechSynthesis.getVoices();
-      const englishVoice = voices.find(voice => 
-        voice.lang.startsWith('en') && 
-        (voice.name.includes('Natural') || voice.name.includes('Enhanced') || voice.default)
-      );
-      
-      if (englishVoice) {
-        utterance.voice = englishVoice;
-      }
+    return () => {
+      resolved.cancel();
+      engineRef.current = null;
+    };
+  }, [engineType]);
 
-      utterance.onstart = () => {
-        setIsLoading(false);
-        setIsSpeaking(true);
-      };
+  useEffect(() => {
+    if (!engine) {
+      return;
+    }
 
-      utterance.onend = () => {
-        setIsSpeaking(false);
-        setIsLoading(false);
-        resolve();
-      };
+    let cancelled = false;
+    engine.listVoices(lang)
+      .then(list => {
+        if (!cancelled) {
+          setVoices(list);
+        }
+      })
+      .catch(error => console.error('Error loading voices:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [engine, lang]);
 
-      utterance.onerror = (event) => {
+  // Queues text behind anything already playing instead of interrupting it
+  const enqueue = useCallback(async (text: string, options?: SpeakOptions): Promise<void> => {
+    const current = engineRef.current;
+    if (!current || !current.isSupported()) {
+      throw new Error('Speech synthesis not supported');
+    }
+
+    setIsLoading(true);
+    pendingCountRef.current += 1;
+    const generation = generationRef.current;
+
+    const finish = () => {
+      if (generation !== generationRef.current) {
+        return;
+      }
+      pendingCountRef.current = Math.max(0, pendingCountRef.current - 1);
+      if (pendingCountRef.current === 0) {
         setIsSpeaking(false);
         setIsLoading(false);
-        reject(new Error(`Speech synthesis error: ${event.error}`));
-      };
-
-      // Ensure voices are loaded before speaking
-      if (voices.length === 0) {
-        window.speechSynthesis.onvoiceschanged = () => {
-          window.speechSynthesis.speak(utterance);
-        };
-      } else {
-        window.speechSynthesis.speak(utterance);
       }
-    });
+    };
+
+    try {
+      await current.speak({
+        text,
+        lang,
+        settings,
+        onStart: () => {
+          setIsLoading(false);
+          setIsSpeaking(true);
+          options?.onStart?.();
+        }
+      });
+    } finally {
+      finish();
+    }
+  }, [lang, settings]);
+
+  const cancelAll = useCallback(() => {
+    engineRef.current?.cancel();
+    pendingCountRef.current = 0;
+    generationRef.current += 1;
   }, []);
 
+  const speak = useCallback(async (text: string, options?: SpeakOptions): Promise<void> => {
+    // Stop any ongoing speech
+    cancelAll();
+
+    return enqueue(text, options);
+  }, [cancelAll, enqueue]);
+
   const stop = useCallback(() => {
-    window.speechSynthesis.cancel();
+    cancelAll();
     setIsSpeaking(false);
     setIsLoading(false);
+  }, [cancelAll]);
+
+  const getOutputLevel = useCallback((): number | null => {
+    return engineRef.current?.getOutputLevel?.() ?? null;
   }, []);
 
   return {
     speak,
+    enqueue,
     isLoading,
     isSpeaking,
-    stop
+    stop,
+    getOutputLevel,
+    engine: engine?.type ?? null,
+    voices,
+    supportsPitch: engine?.supportsPitch ?? false
   };
-};
\ No newline at end of file
+};
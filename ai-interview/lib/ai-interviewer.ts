@@ -1,183 +1,932 @@
-import Groq from 'groq-sdk';
+import { CandidateDocuments, formatBrief, InterviewBrief, InterviewBriefBuilder } from './candidate-documents';
+import { chooseCodingTask, CodeSnapshot, CodingTask, formatCodeSnapshot, formatCodingTask, getCodingTask } from './coding-tasks';
+import {
+  checkComplianceRules,
+  ComplianceAuditEntry,
+  ComplianceChecker,
+  COMPLIANCE_LIMITS,
+  ComplianceVerdict,
+  DEFAULT_JURISDICTION,
+  describeBlockedTopics,
+  describeProtectedTopics,
+  getRuleSet
+} from './compliance';
+import { buildHistoryContext, ConversationSummarizer, ConversationSummary } from './conversation-memory';
+import { AnswerEvaluator, DEFAULT_RUBRIC, Rubric, TurnEvaluation } from './evaluation';
+import { CodeReview, describeProbe, FollowUpDecider, FollowUpDecision, ProbeAngle } from './follow-up';
+import { getRandomAppreciation, INTERVIEWER_PHRASES, InterviewerPhrases, translateSeedQuestion } from './interview-data';
+import { DEFAULT_INTERVIEW_LENGTH, InterviewLength, InterviewPacer, InterviewPhase, InterviewProgress } from './interview-length';
+import {
+  CategoryCoverage,
+  CLOSING_CATEGORY,
+  getDefaultPlan,
+  InterviewPlan,
+  InterviewPlanner,
+  NextCategory
+} from './interview-plan';
+import { DEFAULT_LANGUAGE, describeSpokenLanguage, LanguageCode } from './languages';
+import { FailureTrackingProvider, LLMCallType, LLMError, LLMErrorKind, LLMMessage, LLMProvider } from './llm';
+import { CandidateReport, ReportGenerator } from './report';
+import {
+  CANDIDATE_TEXT_RULE,
+  detectInjection,
+  fenceCandidateText,
+  hasLeakedMetaText,
+  InjectionFlag,
+  QUESTION_LIMITS,
+  validateGeneratedQuestion
+} from './prompt-safety';
+import type { AnswerAudioRef } from './answer-audio';
+import type { EndOfTurnDecision } from './end-of-turn';
+import { StructuredOutputError } from './structured-output';
+import { TurnTiming } from './transcript';
+import { AcknowledgmentFilter, QUESTION_MARKER, TurnDelta, TurnPart, TurnStreamParser } from './turn-stream-parser';
 
 export interface ConversationTurn {
   question: string;
   answer: string;
+  // Plan category the question was asked for
+  category?: string;
+  // Why the interviewer probed this answer or moved on
+  followUpDecision?: FollowUpDecision;
+  evaluation?: TurnEvaluation;
+  // Set when the answer looked like it was trying to instruct the model
+  injectionFlag?: InjectionFlag;
+  // Editor contents when a coding answer was given
+  code?: CodeSnapshot;
+  timing?: TurnTiming;
+  // Recording of the answer, kept in the browser's session store
+  audio?: AnswerAudioRef;
+  // How the end of the answer was detected, for tuning the hold-off
+  endOfTurn?: EndOfTurnDecision[];
 }
 
 export interface InterviewContext {
   conversationHistory: ConversationTurn[];
   currentQuestionNumber: number;
   interviewType: string;
+  rubric?: Rubric;
+  brief?: InterviewBrief;
+  plan?: InterviewPlan;
+  // Category of the question currently waiting for an answer
+  currentCategory?: string;
+  length?: InterviewLength;
+  startedAt?: string;
+  phase?: InterviewPhase;
+  // The time or last-question notice is only spoken once
+  wrapUpNoticeGiven?: boolean;
+  summary?: ConversationSummary;
+  // Rule set the questions are checked against, and every question it blocked
+  jurisdiction?: string;
+  complianceLog?: ComplianceAuditEntry[];
+  // Coding task shown in the editor while its category is being asked about
+  codingTaskId?: string;
+  // Language the candidate hears and speaks
+  language?: LanguageCode;
 }
 
+export interface AIInterviewerOptions {
+  rubric?: Rubric;
+  brief?: InterviewBrief;
+  plan?: InterviewPlan;
+  length?: InterviewLength;
+  jurisdiction?: string;
+  language?: LanguageCode;
+  // Called with each blocked question, so the server can keep its own audit trail
+  onQuestionBlocked?: (entry: ComplianceAuditEntry) => void;
+  // Signs each new evaluation, so the server can tell its own scores from edited ones
+  signEvaluation?: (turn: ConversationTurn, evaluation: TurnEvaluation, rubric: Rubric) => string;
+}
+
+/**
+ * Set when a request fell back to built-in text instead of the model, so the
+ * UI can say so rather than carry on silently.
+ */
+export interface DegradedStatus {
+  reason: LLMErrorKind | 'not-configured';
+  message: string;
+  // Calls that fell back during this request
+  calls: LLMCallType[];
+}
+
+export type InterviewTurnEvent =
+  | { type: 'delta'; part: TurnPart; text: string }
+  | { type: 'done'; appreciation: string; question: string; context: InterviewContext; degraded?: DegradedStatus }
+  | { type: 'error'; error: string };
+
+const DEGRADED_MESSAGES: Record<DegradedStatus['reason'], string> = {
+  'not-configured': 'No AI model is configured, so the interviewer is using built-in questions.',
+  'auth': 'The AI service rejected its credentials, so the interviewer is using built-in questions.',
+  'rate-limit': 'The AI service is rate limiting requests, so the interviewer is using built-in questions for now.',
+  'network': 'The AI service is slow or unreachable, so the interviewer is using built-in questions for now.',
+  'bad-output': 'The AI model returned unusable output, so the interviewer used a built-in question.',
+  'unknown': 'The AI service failed, so the interviewer is using built-in questions for now.'
+};
+
+const toDeltaEvents = (deltas: TurnDelta[]): InterviewTurnEvent[] => {
+  return deltas.map(delta => ({ type: 'delta', ...delta }));
+};
+
 export class AIInterviewer {
   private conversationHistory: ConversationTurn[] = [];
   private currentQuestionNumber = 0;
   private interviewType = 'general';
-  private groq: Groq | null = null;
+  private provider: LLMProvider | null = null;
+  private rubric: Rubric = DEFAULT_RUBRIC;
+  private evaluator: AnswerEvaluator | null = null;
+  private followUpDecider: FollowUpDecider;
+  private summarizer: ConversationSummarizer;
+  private summary: ConversationSummary | null = null;
+  private degraded: DegradedStatus | null = null;
+  private jurisdiction: string;
+  private complianceChecker: ComplianceChecker;
+  private complianceLog: ComplianceAuditEntry[] = [];
+  private onQuestionBlocked?: (entry: ComplianceAuditEntry) => void;
+  private signEvaluation?: (turn: ConversationTurn, evaluation: TurnEvaluation, rubric: Rubric) => string;
+  private brief: InterviewBrief | null = null;
+  private plan: InterviewPlan;
+  private planner: InterviewPlanner;
+  private currentCategory: string | null = null;
+  private length: InterviewLength = DEFAULT_INTERVIEW_LENGTH;
+  private startedAt: string | null = null;
+  private phase: InterviewPhase = 'questions';
+  private wrapUpNoticeGiven = false;
+  private codingTaskId: string | null = null;
+  private language: LanguageCode;
+  // Fixed lines and fallbacks in the interview's language
+  private phrases: InterviewerPhrases;
 
-  constructor(interviewType: string = 'general', apiKey?: string) {
+  constructor(interviewType: string = 'general', provider: LLMProvider | null = null, options: AIInterviewerOptions = {}) {
     this.interviewType = interviewType;
-    
-    // Get API key from multiple sources
-    const key = apiKey || 
-                (typeof window !== 'undefined' ? (window as typeof window & { GROQ_API_KEY?: string }).GROQ_API_KEY : null) ||
-                process.env.NEXT_PUBLIC_GROQ_API_KEY || 
-                process.env.GROQ_API_KEY;
-    
-    if (key) {
-      this.groq = new Groq({
-        apiKey: key,
-        dangerouslyAllowBrowser: true
-      });
-    }
+    // Every failed call is noted before the caller falls back
+    this.provider = provider
+      ? new FailureTrackingProvider(provider, (callType, error) => this.noteFallback(callType, error))
+      : null;
+    this.rubric = options.rubric ?? DEFAULT_RUBRIC;
+    this.brief = options.brief ?? null;
+    this.plan = options.plan ?? getDefaultPlan(interviewType);
+    this.planner = new InterviewPlanner(this.plan);
+    this.length = options.length ?? DEFAULT_INTERVIEW_LENGTH;
+    this.evaluator = this.provider ? new AnswerEvaluator(this.provider, this.rubric) : null;
+    this.followUpDecider = new FollowUpDecider(this.provider);
+    this.summarizer = new ConversationSummarizer(this.provider);
+    this.jurisdiction = options.jurisdiction ?? DEFAULT_JURISDICTION;
+    this.language = options.language ?? DEFAULT_LANGUAGE;
+    this.complianceChecker = new ComplianceChecker(this.provider, getRuleSet(this.jurisdiction), this.language);
+    this.onQuestionBlocked = options.onQuestionBlocked;
+    this.signEvaluation = options.signEvaluation;
+    this.phrases = INTERVIEWER_PHRASES[this.language];
+  }
+
+  /**
+   * Rebuilds an interviewer from state held by the client. The API routes are
+   * stateless, so every request carries the context it needs.
+   */
+  static fromContext(
+    context: InterviewContext,
+    provider: LLMProvider | null = null,
+    options: Pick<AIInterviewerOptions, 'onQuestionBlocked' | 'signEvaluation'> = {}
+  ): AIInterviewer {
+    const interviewer = new AIInterviewer(context.interviewType, provider, {
+      rubric: context.rubric,
+      brief: context.brief,
+      plan: context.plan,
+      length: context.length,
+      jurisdiction: context.jurisdiction,
+      language: context.language,
+      onQuestionBlocked: options.onQuestionBlocked,
+      signEvaluation: options.signEvaluation
+    });
+    interviewer.conversationHistory = context.conversationHistory.map(turn => ({ ...turn }));
+    interviewer.currentQuestionNumber = context.currentQuestionNumber;
+    interviewer.currentCategory = context.currentCategory ?? null;
+    interviewer.startedAt = context.startedAt ?? null;
+    interviewer.phase = context.phase ?? 'questions';
+    interviewer.wrapUpNoticeGiven = context.wrapUpNoticeGiven ?? false;
+    interviewer.summary = context.summary ?? null;
+    interviewer.complianceLog = context.complianceLog?.map(entry => ({ ...entry })) ?? [];
+    interviewer.codingTaskId = context.codingTaskId ?? null;
+    return interviewer;
+  }
+
+  /**
+   * Condenses the job description and resume into a brief that tailors every
+   * later prompt. Call before the first question; the brief travels in the context.
+   */
+  async prepare(documents: CandidateDocuments): Promise<void> {
+    this.brief = await new InterviewBriefBuilder(this.provider).build(documents);
   }
 
   async generateFirstQuestion(): Promise<string> {
-    const systemPrompt = `You are an AI interviewer conducting a professional job interview. Your role is to:
+    this.currentQuestionNumber = 1;
+    this.startedAt = new Date().toISOString();
+    this.phase = 'questions';
+    const next = this.planNextQuestion();
+    const taskQuestion = this.getTaskQuestion(next);
+    if (taskQuestion) {
+      return taskQuestion;
+    }
+    const fallbackQuestion = this.getCompliantSeed(next) ?? this.phrases.firstFallbackQuestion;
+
+    const systemPrompt = `You are an AI interviewer conducting a professional ${this.interviewType} job interview. Your role is to:
     1. Ask engaging, relevant interview questions
     2. Be friendly but professional
     3. Ask follow-up questions based on previous answers
     4. Keep questions concise and clear
     5. Cover different aspects: background, skills, experience, motivation, and situational questions
-    
-    Start with a warm opening question that helps the candidate feel comfortable.
-    Keep your question under 25 words.`;
+    ${this.getBriefSection()}${this.getPlanSection(next)}
+    Start with a warm opening question that helps the candidate feel comfortable${this.brief ? ' and connects their background to the role' : ''}.
+    Keep your question under 25 words.
+    Only ask job-related questions; never ask about ${describeProtectedTopics(getRuleSet(this.jurisdiction))}.
+    ${describeSpokenLanguage(this.language)}`;
+
+    return this.completeQuestion('firstQuestion', [
+      {
+        role: "system",
+        content: systemPrompt
+      },
+      {
+        role: "user",
+        content: "Generate the first interview question to start the conversation."
+      }
+    ], fallbackQuestion);
+  }
 
-    if (!this.groq) {
-      console.warn('Groq client not initialized, using fallback question');
-      this.currentQuestionNumber = 1;
-      return "Tell me about yourself and what brings you here today.";
+  async generateNextQuestion(
+    previousAnswer: string,
+    currentQuestion: string,
+    code?: CodeSnapshot,
+    timing?: TurnTiming
+  ): Promise<string> {
+    if (this.phase !== 'questions') {
+      this.finishInterview(previousAnswer, currentQuestion, timing);
+      return this.phrases.closingStatement;
     }
 
-    try {
-      const response = await this.groq.chat.completions.create({
-        model: "llama3-8b-8192",
-        messages: [
-          {
-            role: "system",
-            content: systemPrompt
-          },
-          {
-            role: "user",
-            content: "Generate the first interview question to start the conversation."
-          }
-        ],
-        max_tokens: 100,
-        temperature: 0.7,
-      });
-
-      const question = response.choices[0]?.message?.content?.trim() || "Tell me about yourself and what brings you here today.";
-      this.currentQuestionNumber = 1;
+    this.recordAnswer(previousAnswer, currentQuestion, code, timing);
+
+    // Score the answer and refresh the summary while the next question is being generated
+    const [question] = await Promise.all([
+      this.generateQuestionAfterAnswer(),
+      this.evaluateLatestTurn(),
+      this.refreshSummary()
+    ]);
+    return question;
+  }
+
+  private async generateQuestionAfterAnswer(): Promise<string> {
+    // If we've asked enough questions, wrap up
+    if (this.isWrappingUp()) {
+      this.startWrapUp();
+      return this.phrases.wrapUpQuestion;
+    }
+
+    const next = await this.decideNextQuestion();
+    const notice = this.getPacingNotice();
+    const question = this.getTaskQuestion(next) ?? await this.generatePlannedQuestion(next);
+
+    if (!notice) {
       return question;
-    } catch (error) {
-      console.error('Error generating first question:', error);
-      this.currentQuestionNumber = 1;
-      return "Tell me about yourself and what brings you here today.";
     }
+    this.wrapUpNoticeGiven = true;
+    return `${notice} ${question}`;
+  }
+
+  private async generatePlannedQuestion(next: NextCategory | null): Promise<string> {
+    const systemPrompt = `You are an AI interviewer conducting a professional ${this.interviewType} job interview. 
+    
+    Based on the conversation history, generate the next appropriate interview question.
+    Reply with the question only.
+    ${CANDIDATE_TEXT_RULE}
+    
+    ${this.getQuestionGuidelines(next)}`;
+
+    const conversationContext = this.buildConversationContext();
+
+    return this.completeQuestion('nextQuestion', [
+      {
+        role: "system",
+        content: systemPrompt
+      },
+      {
+        role: "user",
+        content: `Previous conversation:\n${conversationContext}\n\nGenerate the next interview question.`
+      }
+    ], this.getFallbackQuestion(next));
+  }
+
+  /**
+   * Generates a question and checks it before it is spoken. Invalid output is
+   * regenerated, then replaced with the fallback.
+   */
+  private async completeQuestion(callType: LLMCallType, messages: LLMMessage[], fallbackQuestion: string): Promise<string> {
+    if (!this.provider) {
+      console.warn('LLM provider not configured, using fallback question');
+      this.noteFallback(callType);
+      return fallbackQuestion;
+    }
+
+    let problem = '';
+    for (let attempt = 1; attempt <= QUESTION_LIMITS.attempts; attempt++) {
+      let response: string;
+      try {
+        response = await this.provider.complete(callType, this.withComplianceInstruction(messages));
+      } catch (error) {
+        console.error(`Error generating ${callType} question:`, error);
+        return fallbackQuestion;
+      }
+
+      let question: string;
+      try {
+        question = validateGeneratedQuestion(response);
+      } catch (error) {
+        if (!(error instanceof StructuredOutputError)) {
+          throw error;
+        }
+        problem = error.message;
+        console.warn(`🛡️ Rejected generated question (attempt ${attempt}/${QUESTION_LIMITS.attempts}): ${problem}`);
+        continue;
+      }
+
+      if (await this.isCompliant(question)) {
+        return question;
+      }
+      problem = 'Question was blocked by the compliance check';
+    }
+
+    this.noteFallback(callType, new LLMError('bad-output', problem));
+    return fallbackQuestion;
+  }
+
+  /**
+   * Acknowledges the answer and asks the next question in a single streamed
+   * completion, so the client can start speaking before the model finishes.
+   * Always ends with a 'done' event carrying the final text and context.
+   */
+  async *streamTurn(
+    previousAnswer: string,
+    currentQuestion: string,
+    code?: CodeSnapshot,
+    timing?: TurnTiming
+  ): AsyncGenerator<InterviewTurnEvent> {
+    if (this.phase !== 'questions') {
+      yield* this.streamClosing(previousAnswer, currentQuestion, timing);
+      return;
+    }
+
+    this.recordAnswer(previousAnswer, currentQuestion, code, timing);
+    const evaluation = this.evaluateLatestTurn();
+    // The new summary is used from the next turn; this one fits the budget by shortening old answers
+    const summary = this.refreshSummary();
+
+    const wrappingUp = this.isWrappingUp();
+    const next = wrappingUp ? null : await this.decideNextQuestion();
+    if (wrappingUp) {
+      this.startWrapUp();
+    }
+    const fixedQuestion = wrappingUp ? this.phrases.wrapUpQuestion : this.getTaskQuestion(next);
+    const parser = new TurnStreamParser({ expectQuestion: !fixedQuestion });
+    const filter = new AcknowledgmentFilter(fixedQuestion ? 'drop' : 'hold', sentence => this.passesComplianceRules(sentence));
+    let streamed = false;
+
+    if (this.provider) {
+      try {
+        // When the question is fixed only the acknowledgment comes from the model
+        const stream = fixedQuestion
+          ? this.provider.stream('appreciation', this.buildAppreciationMessages(previousAnswer))
+          : this.provider.stream('turn', this.buildTurnMessages(next));
+
+        for await (const chunk of stream) {
+          yield* toDeltaEvents(filter.push(parser.push(chunk)));
+        }
+        yield* toDeltaEvents(filter.push(parser.end()));
+        streamed = true;
+      } catch (error) {
+        console.error('Error streaming turn:', error);
+      }
+    } else {
+      console.warn('LLM provider not configured, using fallback turn');
+    }
+    yield* toDeltaEvents(filter.end());
+
+    let appreciation = filter.appreciation;
+    // The model may skip the marker and ask its question as part of the acknowledgment
+    const generatedQuestion = parser.question || filter.unmarkedQuestion;
+
+    if (!parser.appreciation && !generatedQuestion) {
+      this.noteFallback('turn');
+      appreciation = this.getFallbackAppreciation();
+      yield { type: 'delta', part: 'appreciation', text: `${appreciation} ` };
+    }
+
+    const question = fixedQuestion ?? await this.checkStreamedQuestion(generatedQuestion, next, streamed);
+
+    // Spoken between the acknowledgment and the question
+    const notice = wrappingUp ? null : this.getPacingNotice();
+    if (notice) {
+      yield { type: 'delta', part: 'question', text: `${notice} ` };
+      this.wrapUpNoticeGiven = true;
+    }
+    yield { type: 'delta', part: 'question', text: question };
+
+    await Promise.all([evaluation, summary]);
+
+    yield {
+      type: 'done',
+      appreciation,
+      question,
+      context: this.getContext(),
+      ...(this.degraded ? { degraded: this.degraded } : {})
+    };
+  }
+
+  /**
+   * The streamed question is held back until it passes validation and the
+   * compliance check. A bad one is regenerated without streaming, which
+   * keeps its own fallback.
+   */
+  private async checkStreamedQuestion(question: string, next: NextCategory | null, canRegenerate: boolean): Promise<string> {
+    if (question) {
+      try {
+        const validated = validateGeneratedQuestion(question);
+        if (await this.isCompliant(validated)) {
+          return validated;
+        }
+      } catch (error) {
+        if (!(error instanceof StructuredOutputError)) {
+          throw error;
+        }
+        console.warn(`🛡️ Rejected streamed question: ${error.message}`);
+      }
+    }
+
+    if (canRegenerate) {
+      return this.generatePlannedQuestion(next);
+    }
+    this.noteFallback('turn');
+    return this.getFallbackQuestion(next);
+  }
+
+  /**
+   * Replies to the candidate's own questions and closes the interview. The
+   * closing statement is fixed so every interview ends the same way.
+   */
+  private async *streamClosing(answer: string, question: string, timing?: TurnTiming): AsyncGenerator<InterviewTurnEvent> {
+    this.finishInterview(answer, question, timing);
+    const parser = new TurnStreamParser({ expectQuestion: false });
+    const filter = new AcknowledgmentFilter('keep', sentence => this.passesComplianceRules(sentence));
+
+    if (this.provider) {
+      try {
+        for await (const chunk of this.provider.stream('closing', this.buildClosingMessages(answer))) {
+          yield* toDeltaEvents(filter.push(parser.push(chunk)));
+        }
+        yield* toDeltaEvents(filter.push(parser.end()));
+      } catch (error) {
+        console.error('Error streaming closing reply:', error);
+      }
+    }
+    yield* toDeltaEvents(filter.end());
+
+    let reply = filter.appreciation;
+    if (!reply) {
+      this.noteFallback('closing');
+      reply = this.phrases.closingFallbackReply;
+      yield { type: 'delta', part: 'appreciation', text: `${reply} ` };
+    }
+    yield { type: 'delta', part: 'closing', text: this.phrases.closingStatement };
+
+    yield {
+      type: 'done',
+      appreciation: reply,
+      question: '',
+      context: this.getContext(),
+      ...(this.degraded ? { degraded: this.degraded } : {})
+    };
+  }
+
+  private startWrapUp(): void {
+    this.phase = 'candidate-questions';
+    this.currentCategory = CLOSING_CATEGORY;
+    this.codingTaskId = null;
   }
 
-  async generateNextQuestion(previousAnswer: string, currentQuestion: string): Promise<string> {
+  // The candidate's own questions are kept in the transcript but not scored
+  private finishInterview(answer: string, question: string, timing?: TurnTiming): void {
+    this.recordAnswer(answer, question, undefined, timing);
+    this.phase = 'complete';
+    this.currentCategory = null;
+  }
+
+  private recordAnswer(answer: string, question: string, code?: CodeSnapshot, timing?: TurnTiming): void {
+    const injectionFlag = detectInjection(answer);
+    if (injectionFlag) {
+      console.warn(`🛡️ Possible prompt injection in answer ${this.currentQuestionNumber}: ${injectionFlag.kinds.join(', ')}`);
+    }
+    // Code is only kept for the task the question was about
+    const snapshot = code?.taskId === this.codingTaskId ? code : undefined;
+
     // Add to conversation history
     this.conversationHistory.push({
-      question: currentQuestion,
-      answer: previousAnswer
+      question,
+      answer,
+      ...(this.currentCategory ? { category: this.currentCategory } : {}),
+      ...(injectionFlag ? { injectionFlag } : {}),
+      ...(snapshot ? { code: snapshot } : {}),
+      ...(timing ? { timing } : {})
     });
 
     this.currentQuestionNumber++;
+  }
 
-    // If we've asked enough questions, wrap up
-    if (this.currentQuestionNumber > 7) {
-      return "Thank you for your thoughtful responses. Do you have any questions for us about the role or company?";
+  private async refreshSummary(): Promise<void> {
+    this.summary = await this.summarizer.refresh(this.conversationHistory, this.summary ?? undefined) ?? null;
+  }
+
+  private async evaluateLatestTurn(): Promise<void> {
+    const turn = this.conversationHistory[this.conversationHistory.length - 1];
+    if (!this.evaluator || !turn) {
+      return;
     }
 
-    if (!this.groq) {
-      console.warn('Groq client not initialized, using fallback question');
-      return this.getFallbackQuestion();
+    const evaluation = await this.evaluator.evaluate(turn.question, turn.answer, turn.code);
+    if (evaluation) {
+      turn.evaluation = this.signEvaluation
+        ? { ...evaluation, signature: this.signEvaluation(turn, evaluation, this.rubric) }
+        : evaluation;
     }
+  }
 
-    const systemPrompt = `You are an AI interviewer conducting a professional job interview. 
-    
-    Based on the conversation history, generate the next appropriate interview question.
-    
+  private getPacer(): InterviewPacer {
+    return new InterviewPacer(this.length, this.startedAt ?? undefined);
+  }
+
+  private getQuestionsAnswered(): number {
+    return this.conversationHistory.filter(turn => turn.category !== CLOSING_CATEGORY).length;
+  }
+
+  private isWrappingUp(): boolean {
+    return this.getPacer().shouldWrapUp(this.getQuestionsAnswered());
+  }
+
+  private getPacingNotice(): string | null {
+    if (this.wrapUpNoticeGiven) {
+      return null;
+    }
+
+    const pacer = this.getPacer();
+    if (pacer.shouldWarnAboutTime()) {
+      return this.phrases.timeNotice(pacer.getMinutesLeft());
+    }
+    if (this.length.maxQuestions !== undefined && this.length.maxQuestions - this.getQuestionsAnswered() === 1) {
+      return this.phrases.lastQuestionNotice;
+    }
+    return null;
+  }
+
+  // Chooses the plan category for the question about to be asked and remembers it for the answer
+  private planNextQuestion(followUp: boolean = false): NextCategory | null {
+    const questionsRemaining = this.getPacer().getQuestionsRemaining(this.getQuestionsAnswered());
+    const next = this.planner.chooseNext(this.conversationHistory, questionsRemaining, followUp);
+    this.currentCategory = next?.category.id ?? null;
+
+    // A coding category posts a new task when first asked; its follow-ups stay on that task
+    if (!next?.category.coding) {
+      this.codingTaskId = null;
+    } else if (!next.isFollowUp || !this.codingTaskId) {
+      this.codingTaskId = chooseCodingTask(this.conversationHistory)?.id ?? null;
+    }
+    return next;
+  }
+
+  // The fixed question that hands the candidate a new coding task, if this is one
+  private getTaskQuestion(next: NextCategory | null): string | null {
+    const task = this.getCodingTask();
+    if (!task || !next?.category.coding || next.isFollowUp) {
+      return null;
+    }
+    return this.phrases.codingTaskQuestion(task.title);
+  }
+
+  // The coding answer to review, with the angles earlier follow-ups on the same task covered
+  private getCodeReview(turn: ConversationTurn): CodeReview | undefined {
+    const task = getCodingTask(turn.code?.taskId);
+    if (!task || !turn.code) {
+      return undefined;
+    }
+
+    const probedAngles = this.conversationHistory
+      .filter(earlier => earlier !== turn && earlier.code?.taskId === task.id && earlier.followUpDecision?.action === 'probe')
+      .map(earlier => earlier.followUpDecision?.angle)
+      .filter((angle): angle is ProbeAngle => angle !== undefined);
+    return { task, snapshot: turn.code, probedAngles };
+  }
+
+  /**
+   * Decides whether to probe the latest answer or advance to the next planned
+   * topic, and records the decision on the turn.
+   */
+  private async decideNextQuestion(): Promise<NextCategory | null> {
+    const turn = this.conversationHistory[this.conversationHistory.length - 1];
+    if (!turn) {
+      return this.planNextQuestion();
+    }
+
+    const questionsRemaining = this.getPacer().getQuestionsRemaining(this.getQuestionsAnswered());
+    const canProbe = this.planner.canFollowUp(this.conversationHistory, questionsRemaining);
+    const decision = await this.followUpDecider.decide(turn.question, turn.answer, canProbe, this.getCodeReview(turn));
+    turn.followUpDecision = decision;
+
+    console.log(`🧭 Follow-up decision: ${decision.action} (${decision.assessment}) - ${decision.reason}`);
+    return this.planNextQuestion(decision.action === 'probe');
+  }
+
+  private getPlanSection(next: NextCategory | null): string {
+    if (!next) {
+      return '';
+    }
+
+    const later = this.planner
+      .getUncoveredRequired(this.conversationHistory)
+      .filter(category => category.id !== next.category.id)
+      .map(category => category.name);
+    const steps = [
+      next.isFollowUp
+        ? this.getProbeInstruction(next)
+        : `${this.conversationHistory.length === 0 ? 'Open with' : 'Move on to'} the "${next.category.name}" topic`
+    ];
+    if (next.seedQuestion) {
+      steps.push(`Suggested question, adapt it to the conversation: "${translateSeedQuestion(next.seedQuestion, this.language)}"`);
+    }
+    if (later.length > 0) {
+      steps.push(`Topics still to cover later: ${later.join(', ')}`);
+    }
+
+    return `
+    Interview plan:
+    ${steps.map(step => `- ${step}`).join('\n    ')}
+    `;
+  }
+
+  private getProbeInstruction(next: NextCategory): string {
+    const decision = this.conversationHistory[this.conversationHistory.length - 1]?.followUpDecision;
+    return decision
+      ? `${describeProbe(decision)} (topic: ${next.category.name})`
+      : `Ask a follow-up that digs deeper into the last answer about ${next.category.name}`;
+  }
+
+  private getBriefSection(): string {
+    if (!this.brief) {
+      return '';
+    }
+
+    return `
+    Interview brief:
+    ${formatBrief(this.brief)}
+    `;
+  }
+
+  private getCodingSection(): string {
+    const task = this.getCodingTask();
+    if (!task) {
+      return '';
+    }
+
+    const snapshot = [...this.conversationHistory].reverse().find(turn => turn.code?.taskId === task.id)?.code;
+    return `
+    Coding task in the editor:
+    ${formatCodingTask(task)}
+    ${snapshot ? formatCodeSnapshot(snapshot) : ''}
+    `;
+  }
+
+  private getQuestionGuidelines(next: NextCategory | null): string {
+    const briefGuidelines = this.brief
+      ? `
+    - Target the role's key requirements that haven't been covered yet
+    - Probe specific claims from the resume to check the candidate's real depth`
+      : '';
+
+    return `${this.getBriefSection()}${this.getPlanSection(next)}${this.getCodingSection()}
     Guidelines:
-    - Ask relevant follow-up questions based on previous answers
+    - Only dig deeper into the last answer when the interview plan says to follow up; otherwise move on${briefGuidelines}
     - Cover different aspects: technical skills, soft skills, experience, motivation, problem-solving
     - Be conversational and engaging
     - Keep questions under 25 words
     - Avoid repeating similar questions
-    - Show that you're listening by referencing previous answers when appropriate
+    - Only ask job-related questions; never ask about ${describeProtectedTopics(getRuleSet(this.jurisdiction))}
+    - Show that you're listening by referencing previous answers when appropriate${this.language === DEFAULT_LANGUAGE ? '' : `
+    - ${describeSpokenLanguage(this.language)}`}
     
     Question number: ${this.currentQuestionNumber}`;
+  }
 
-    const conversationContext = this.conversationHistory
-      .map((turn, index) => `Q${index + 1}: ${turn.question}\nA${index + 1}: ${turn.answer}`)
-      .join('\n\n');
+  private buildConversationContext(): string {
+    return buildHistoryContext(this.conversationHistory, this.summary ?? undefined);
+  }
 
-    try {
-      const response = await this.groq.chat.completions.create({
-        model: "llama3-8b-8192",
-        messages: [
-          {
-            role: "system",
-            content: systemPrompt
-          },
-          {
-            role: "user",
-            content: `Previous conversation:\n${conversationContext}\n\nGenerate the next interview question.`
-          }
-        ],
-        max_tokens: 100,
-        temperature: 0.7,
-      });
-
-      const question = response.choices[0]?.message?.content?.trim() || this.getFallbackQuestion();
-      return question;
-    } catch (error) {
-      console.error('Error generating next question:', error);
-      return this.getFallbackQuestion();
-    }
+  private buildTurnMessages(next: NextCategory | null): LLMMessage[] {
+    const systemPrompt = `You are an AI interviewer conducting a professional ${this.interviewType} job interview.
+
+    Reply to the candidate's latest answer in exactly this format:
+    <a brief, natural acknowledgment of the answer, under 15 words>
+    ${QUESTION_MARKER} <the next interview question>
+
+    ${CANDIDATE_TEXT_RULE}
+
+    ${this.getQuestionGuidelines(next)}`;
+
+    return [
+      {
+        role: "system",
+        content: systemPrompt
+      },
+      {
+        role: "user",
+        content: `Previous conversation:\n${this.buildConversationContext()}\n\nAcknowledge the last answer, then ask the next interview question.`
+      }
+    ];
+  }
+
+  private buildClosingMessages(answer: string): LLMMessage[] {
+    const systemPrompt = `You are an AI interviewer at the end of a ${this.interviewType} job interview. You asked the candidate if they had any questions for you.
+
+    Reply in under 60 words:
+    - Answer their questions briefly, using only the interview brief below
+    - If the brief doesn't cover something, say the hiring team will follow up on it
+    - If they have no questions, simply thank them
+    - Don't say goodbye or ask anything else; a closing statement follows your reply
+
+    ${CANDIDATE_TEXT_RULE}
+    ${describeSpokenLanguage(this.language)}
+    ${this.getBriefSection()}`;
+
+    return [
+      {
+        role: "system",
+        content: systemPrompt
+      },
+      {
+        role: "user",
+        content: `Candidate's reply:\n${fenceCandidateText(answer, 'reply')}`
+      }
+    ];
   }
 
-  private getFallbackQuestion(): string {
-    const fallbackQuestions = [
-      "What are your greatest strengths?",
-      "Where do you see yourself in 5 years?",
-      "Why are you interested in this position?",
-      "Describe a challenging situation you've faced.",
-      "What motivates you in your work?",
-      "How do you handle working under pressure?",
-      "What questions do you have for us?"
+  private buildRephraseMessages(question: string): LLMMessage[] {
+    const systemPrompt = `You are an AI interviewer conducting a professional ${this.interviewType} job interview. The candidate asked you to put your last question another way.
+
+    Rewrite the question:
+    - Keep its meaning and what it asks the candidate to talk about
+    - Use plain, everyday words
+    - Keep it under 25 words
+    - Respond with the question only${this.language === DEFAULT_LANGUAGE ? '' : `
+    - ${describeSpokenLanguage(this.language)}`}`;
+
+    return [
+      {
+        role: "system",
+        content: systemPrompt
+      },
+      {
+        role: "user",
+        content: `Question: ${question}`
+      }
     ];
+  }
+
+  private buildAppreciationMessages(answer: string): LLMMessage[] {
+    return [
+      {
+        role: "system",
+        content: `You are an AI interviewer. Generate a brief, professional acknowledgment of the candidate's answer. Keep it under 15 words and sound natural and encouraging. Don't ask a question. ${CANDIDATE_TEXT_RULE} ${describeSpokenLanguage(this.language)}`.trim()
+      },
+      {
+        role: "user",
+        content: `Candidate's answer:\n${fenceCandidateText(answer)}\n\nGenerate a brief positive acknowledgment.`
+      }
+    ];
+  }
+
+  /**
+   * Records that a call fell back to built-in text. The first cause wins; an
+   * empty or unusable reply with no error counts as bad output.
+   */
+  private noteFallback(callType: LLMCallType, error?: LLMError): void {
+    const reason = error?.kind ?? (this.provider ? 'bad-output' : 'not-configured');
+    if (!this.degraded) {
+      this.degraded = { reason, message: DEGRADED_MESSAGES[reason], calls: [] };
+      console.warn(`⚠️ Degraded mode (${reason}): ${error?.message ?? DEGRADED_MESSAGES[reason]}`);
+    }
+    if (!this.degraded.calls.includes(callType)) {
+      this.degraded.calls.push(callType);
+    }
+  }
+
+  private getFallbackQuestion(next: NextCategory | null): string {
+    const angle = next?.isFollowUp
+      ? this.conversationHistory[this.conversationHistory.length - 1]?.followUpDecision?.angle
+      : undefined;
+    if (angle) {
+      return this.phrases.angleFallbackQuestions[angle];
+    }
+    return this.getCompliantSeed(next) ?? this.phrases.followUpFallbackQuestion;
+  }
+
+  // Seed questions can come from a custom plan, so they go through the rules too
+  private getCompliantSeed(next: NextCategory | null): string | undefined {
+    const seed = next?.seedQuestion;
+    if (!seed || !this.passesComplianceRules(seed)) {
+      return undefined;
+    }
+    return translateSeedQuestion(seed, this.language);
+  }
+
+  /**
+   * Runs the compliance check on a question about to be spoken. Blocked
+   * questions are written to the audit log; returns whether it may be asked.
+   */
+  private async isCompliant(question: string): Promise<boolean> {
+    const verdict = await this.complianceChecker.check(question);
+    if (!verdict.allowed) {
+      this.logBlockedQuestion(question, verdict);
+    }
+    return verdict.allowed;
+  }
+
+  /**
+   * The rule check alone, with no model call, for text that can't wait for
+   * the classifier: seed questions and acknowledgments, which are spoken as
+   * they stream. Blocked text is written to the audit log.
+   */
+  private passesComplianceRules(text: string): boolean {
+    const verdict = checkComplianceRules(text, getRuleSet(this.jurisdiction), this.language);
+    if (!verdict.allowed) {
+      this.logBlockedQuestion(text, verdict);
+    }
+    return verdict.allowed;
+  }
+
+  private logBlockedQuestion(question: string, verdict: ComplianceVerdict): void {
+    console.warn(`🚫 Blocked question (${verdict.topic ?? 'classifier'}, ${verdict.source}): "${question}"`);
+    const entry: ComplianceAuditEntry = {
+      questionNumber: this.currentQuestionNumber,
+      question: question.slice(0, COMPLIANCE_LIMITS.questionLength),
+      topic: verdict.topic ?? null,
+      reason: verdict.reason,
+      source: verdict.source,
+      jurisdiction: this.jurisdiction,
+      blockedAt: new Date().toISOString()
+    };
+    this.complianceLog.push(entry);
+    this.onQuestionBlocked?.({ ...entry });
+    // Oldest entries go first if a very long interview outgrows the limit
+    this.complianceLog = this.complianceLog.slice(-COMPLIANCE_LIMITS.auditEntries);
+  }
 
-    const index = Math.min(this.currentQuestionNumber - 2, fallbackQuestions.length - 1);
-    return fallbackQuestions[Math.max(0, index)];
+  // Regeneration instruction for the question being generated, if any were blocked
+  private getComplianceInstruction(): string {
+    const blocked = this.complianceLog.filter(entry => entry.questionNumber === this.currentQuestionNumber);
+    return blocked.length > 0 ? describeBlockedTopics(blocked) : '';
+  }
+
+  private withComplianceInstruction(messages: LLMMessage[]): LLMMessage[] {
+    const instruction = this.getComplianceInstruction();
+    if (!instruction) {
+      return messages;
+    }
+    return messages.map((message, index) => index === 0
+      ? { ...message, content: `${message.content}\n\n    ${instruction}` }
+      : message
+    );
+  }
+
+  /**
+   * Puts the question waiting for an answer more simply, for a candidate who
+   * asked. Falls back to the original wording.
+   */
+  async rephraseQuestion(question: string): Promise<string> {
+    return this.completeQuestion('rephrase', this.buildRephraseMessages(question), question);
   }
 
   async generateAppreciation(answer: string): Promise<string> {
-    if (!this.groq) {
+    if (!this.provider) {
+      this.noteFallback('appreciation');
       return this.getFallbackAppreciation();
     }
 
     try {
-      const response = await this.groq.chat.completions.create({
-        model: "llama3-8b-8192",
-        messages: [
-          {
-            role: "system",
-            content: "You are an AI interviewer. Generate a brief, professional acknowledgment of the candidate's answer. Keep it under 15 words and sound natural and encouraging."
-          },
-          {
-            role: "user",
-            content: `Candidate's answer: "${answer}"\n\nGenerate a brief positive acknowledgment.`
-          }
-        ],
-        max_tokens: 50,
-        temperature: 0.7,
-      });
-
-      return response.choices[0]?.message?.content?.trim() || this.getFallbackAppreciation();
+      const response = await this.provider.complete('appreciation', this.buildAppreciationMessages(answer));
+      if (!response || hasLeakedMetaText(response) || response.includes('?')) {
+        console.warn(`🛡️ Rejected acknowledgment: "${response}"`);
+        this.noteFallback('appreciation', new LLMError('bad-output', 'Acknowledgment was empty or contained meta-text'));
+        return this.getFallbackAppreciation();
+      }
+      if (!this.passesComplianceRules(response)) {
+        return this.getFallbackAppreciation();
+      }
+
+      return response;
     } catch (error) {
       console.error('Error generating appreciation:', error);
       return this.getFallbackAppreciation();
@@ -185,33 +934,85 @@ export class AIInterviewer {
   }
 
   private getFallbackAppreciation(): string {
-    const appreciations = [
-      "Thank you for sharing that.",
-      "That's a great perspective.",
-      "I appreciate your honesty.",
-      "Interesting point.",
-      "Thank you for that insight.",
-      "Great example.",
-      "That shows good thinking.",
-      "I can see you've given this thought."
-    ];
-    return appreciations[Math.floor(Math.random() * appreciations.length)];
+    return getRandomAppreciation(this.language);
+  }
+
+  async generateReport(): Promise<CandidateReport> {
+    return new ReportGenerator(this.provider, this.rubric).generate(this.conversationHistory);
+  }
+
+  getRubric(): Rubric {
+    return this.rubric;
   }
 
   getQuestionNumber(): number {
     return this.currentQuestionNumber;
   }
 
+  getCodingTask(): CodingTask | null {
+    return getCodingTask(this.codingTaskId);
+  }
+
+  getCategoryCoverage(): CategoryCoverage[] {
+    return this.planner.getCoverage(this.conversationHistory);
+  }
+
+  getProgress(): InterviewProgress {
+    return this.getPacer().getProgress(this.phase, this.getQuestionsAnswered());
+  }
+
+  isComplete(): boolean {
+    return this.phase === 'complete';
+  }
+
+  // Null when every call in this request got a usable answer from the model
+  getDegradedStatus(): DegradedStatus | null {
+    return this.degraded;
+  }
+
   getConversationHistory(): ConversationTurn[] {
     return this.conversationHistory;
   }
 
+  getContext(): InterviewContext {
+    return {
+      conversationHistory: this.conversationHistory.map(turn => ({ ...turn })),
+      currentQuestionNumber: this.currentQuestionNumber,
+      interviewType: this.interviewType,
+      rubric: this.rubric,
+      ...(this.brief ? { brief: this.brief } : {}),
+      plan: this.plan,
+      ...(this.currentCategory ? { currentCategory: this.currentCategory } : {}),
+      length: this.length,
+      ...(this.startedAt ? { startedAt: this.startedAt } : {}),
+      phase: this.phase,
+      wrapUpNoticeGiven: this.wrapUpNoticeGiven,
+      ...(this.summary ? { summary: this.summary } : {}),
+      jurisdiction: this.jurisdiction,
+      ...(this.complianceLog.length > 0 ? { complianceLog: this.complianceLog.map(entry => ({ ...entry })) } : {}),
+      ...(this.codingTaskId ? { codingTaskId: this.codingTaskId } : {}),
+      language: this.language
+    };
+  }
+
   reset(): void {
     this.conversationHistory = [];
     this.currentQuestionNumber = 0;
+    this.currentCategory = null;
+    this.startedAt = null;
+    this.phase = 'questions';
+    this.wrapUpNoticeGiven = false;
+    this.summary = null;
+    this.complianceLog = [];
+    this.codingTaskId = null;
+    this.degraded = null;
+  }
+
+  isProviderAvailable(): boolean {
+    return this.provider !== null;
   }
 
-  isGroqAvailable(): boolean {
-    return this.groq !== null;
+  getProviderName(): string | null {
+    return this.provider?.name ?? null;
   }
 }
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { isRecord, StructuredOutputError } from './structured-output';
+
+/**
+ * Points a conversation turn at the candidate's recorded answer. The audio
+ * itself stays in the browser's session store; only this reference travels
+ * with the interview context.
+ */
+export interface AnswerAudioRef {
+  id: string;
+  mimeType: string;
+  durationMs: number;
+}
+
+// MicVAD hands over 16 kHz mono samples
+export const VAD_SAMPLE_RATE = 16000;
+
+export const AUDIO_LIMITS = {
+  // About 19 MB of 16-bit audio; anything longer is cut
+  maxDurationMs: 10 * 60 * 1000,
+  // Silence put between speech segments so they don't run together
+  segmentGapMs: 300
+} as const;
+
+const AUDIO_ID_PATTERN = /^[A-Za-z0-9-]{8,80}$/;
+const WAV_MIME_TYPE = 'audio/wav';
+
+export class AnswerAudioError extends StructuredOutputError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnswerAudioError';
+  }
+}
+
+export const createAudioId = (sessionId: string, questionNumber: number): string => {
+  return `${sessionId}-a${questionNumber}`;
+};
+
+// Joins the VAD speech segments of one answer, separated by short gaps
+export const joinAudioSegments = (segments: Float32Array[]): Float32Array => {
+  const gap = Math.round(VAD_SAMPLE_RATE * AUDIO_LIMITS.segmentGapMs / 1000);
+  const maxSamples = Math.round(VAD_SAMPLE_RATE * AUDIO_LIMITS.maxDurationMs / 1000);
+  const total = segments.reduce((sum, segment) => sum + segment.length, 0) + gap * Math.max(0, segments.length - 1);
+  const joined = new Float32Array(Math.min(total, maxSamples));
+
+  let offset = 0;
+  for (const segment of segments) {
+    if (offset >= joined.length) {
+      break;
+    }
+    joined.set(segment.subarray(0, joined.length - offset), offset);
+    offset += segment.length + gap;
+  }
+  return joined;
+};
+
+// 16-bit PCM keeps speech clear at half the size of the float samples
+export const encodeWav = (samples: Float32Array): ArrayBuffer => {
+  const bytesPerSample = 2;
+  const buffer = new ArrayBuffer(44 + samples.length * bytesPerSample);
+  const view = new DataView(buffer);
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * bytesPerSample, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, VAD_SAMPLE_RATE, true);
+  view.setUint32(28, VAD_SAMPLE_RATE * bytesPerSample, true);
+  view.setUint16(32, bytesPerSample, true);
+  view.setUint16(34, 8 * bytesPerSample, true);
+  writeText(36, 'data');
+  view.setUint32(40, samples.length * bytesPerSample, true);
+
+  samples.forEach((sample, index) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + index * bytesPerSample, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return buffer;
+};
+
+/**
+ * Encodes an answer's speech segments as one WAV file. Returns null when no
+ * speech was captured, e.g. a coding answer submitted without talking.
+ */
+export const encodeAnswerAudio = (id: string, segments: Float32Array[]): { ref: AnswerAudioRef; blob: Blob } | null => {
+  const samples = joinAudioSegments(segments);
+  if (samples.length === 0) {
+    return null;
+  }
+
+  return {
+    ref: {
+      id,
+      mimeType: WAV_MIME_TYPE,
+      durationMs: Math.round(samples.length / VAD_SAMPLE_RATE * 1000)
+    },
+    blob: new Blob([encodeWav(samples)], { type: WAV_MIME_TYPE })
+  };
+};
+
+export const validateAnswerAudioRef = (value: unknown): AnswerAudioRef => {
+  if (!isRecord(value)) {
+    throw new AnswerAudioError('Answer audio must be an object');
+  }
+
+  const { id, mimeType, durationMs } = value;
+  if (typeof id !== 'string' || !AUDIO_ID_PATTERN.test(id)) {
+    throw new AnswerAudioError('"id" must be 8 to 80 letters, digits or dashes');
+  }
+  if (mimeType !== WAV_MIME_TYPE) {
+    throw new AnswerAudioError(`"mimeType" must be ${WAV_MIME_TYPE}`);
+  }
+  if (typeof durationMs !== 'number' || !Number.isFinite(durationMs) || durationMs < 0 || durationMs > AUDIO_LIMITS.maxDurationMs) {
+    throw new AnswerAudioError(`"durationMs" must be a number between 0 and ${AUDIO_LIMITS.maxDurationMs}`);
+  }
+  return { id, mimeType, durationMs: Math.round(durationMs) };
+};
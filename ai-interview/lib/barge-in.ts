@@ -0,0 +1,98 @@
+export interface BargeInOptions {
+  // VAD speech probability a frame needs to count towards a barge-in
+  minSpeechProbability: number;
+  // RMS level below which a frame is never the candidate, whatever the VAD says
+  minMicLevel: number;
+  // How far above the interviewer's echo the candidate has to be
+  echoMargin: number;
+  // Consecutive qualifying frames before the interviewer is cut off
+  minFrames: number;
+  // Frames at the start of playback that only teach the echo level
+  warmupFrames: number;
+}
+
+export const DEFAULT_BARGE_IN_OPTIONS: BargeInOptions = {
+  minSpeechProbability: 0.9,
+  minMicLevel: 0.02,
+  echoMargin: 2,
+  // About 300 ms with 1536-sample frames at 16 kHz
+  minFrames: 3,
+  warmupFrames: 3
+};
+
+// Weights of each new frame in the echo estimate: it rises quickly when the
+// interviewer gets louder and fades slowly through the gaps between words
+const ECHO_RISE = 0.3;
+const ECHO_FALL = 0.05;
+// Playback quieter than this says nothing about how much of it reaches the mic
+const MIN_PLAYBACK_LEVEL = 0.005;
+
+const smooth = (estimate: number | null, value: number): number => {
+  if (estimate === null) {
+    return value;
+  }
+  return estimate + (value - estimate) * (value > estimate ? ECHO_RISE : ECHO_FALL);
+};
+
+export const frameLevel = (frame: Float32Array): number => {
+  if (frame.length === 0) {
+    return 0;
+  }
+  let sum = 0;
+  for (const sample of frame) {
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / frame.length);
+};
+
+/**
+ * Decides when the candidate is talking over the interviewer. Echo
+ * cancellation never removes all of the interviewer's voice, and the VAD
+ * hears what leaks through as speech, so every frame that doesn't clear the
+ * gate teaches the echo level. Only speech well above it, held for a few
+ * frames, counts. When the TTS engine can report its output level, the gate
+ * follows that instead: the detector learns how much of the output reaches
+ * the mic, and scales the gate with what is playing right now.
+ */
+export class BargeInDetector {
+  private options: BargeInOptions;
+  // Mic level of the echo, for engines that can't report their output
+  private echoLevel: number | null = null;
+  // Mic level per unit of output level, for engines that can
+  private echoCoupling: number | null = null;
+  private frames = 0;
+  private speechFrames = 0;
+
+  constructor(options: Partial<BargeInOptions> = {}) {
+    this.options = { ...DEFAULT_BARGE_IN_OPTIONS, ...options };
+  }
+
+  reset(): void {
+    this.echoLevel = null;
+    this.echoCoupling = null;
+    this.frames = 0;
+    this.speechFrames = 0;
+  }
+
+  // Returns true on the frame that confirms the barge-in
+  processFrame(probability: number, frame: Float32Array, playbackLevel: number | null = null): boolean {
+    const level = frameLevel(frame);
+    const echo = playbackLevel === null ? this.echoLevel : (this.echoCoupling ?? 0) * playbackLevel;
+    const gate = Math.max(this.options.minMicLevel, (echo ?? 0) * this.options.echoMargin);
+    const warmedUp = this.frames >= this.options.warmupFrames;
+    this.frames += 1;
+
+    if (warmedUp && probability >= this.options.minSpeechProbability && level >= gate) {
+      this.speechFrames += 1;
+      return this.speechFrames === this.options.minFrames;
+    }
+
+    if (playbackLevel === null) {
+      this.echoLevel = smooth(this.echoLevel, level);
+    } else if (playbackLevel >= MIN_PLAYBACK_LEVEL) {
+      this.echoCoupling = smooth(this.echoCoupling, level / playbackLevel);
+    }
+    this.speechFrames = 0;
+    return false;
+  }
+}
@@ -0,0 +1,209 @@
+import { LLMMessage, LLMProvider } from './llm';
+import { CANDIDATE_TEXT_RULE, fenceCandidateText } from './prompt-safety';
+import { extractJson, isRecord, StructuredOutputError } from './structured-output';
+import { estimateTokens, truncateToTokens } from './tokens';
+
+export interface CandidateDocuments {
+  jobDescription?: string;
+  resume?: string;
+}
+
+/**
+ * Compact digest of the job description and resume. The raw documents are only
+ * sent once; every later prompt carries this instead to protect the context window.
+ */
+export interface InterviewBrief {
+  role: string;
+  requirements: string[];
+  resumeHighlights: string[];
+}
+
+export const DOCUMENT_LIMITS = {
+  // Raw text accepted from an upload
+  documentLength: 20000,
+  // How much of each document is sent to the model when building the brief
+  documentTokens: 2500,
+  // Budget for the brief inside every question prompt
+  briefTokens: 400,
+  briefItems: 8,
+  briefItemLength: 200,
+  roleLength: 120
+} as const;
+
+// Flattens Markdown and PDF extraction artefacts into plain prose
+export const normalizeDocumentText = (text: string): string => {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/(\*\*|__|`)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+const cleanItems = (items: string[]): string[] => {
+  return items
+    .map(item => item.replace(/\s+/g, ' ').trim().slice(0, DOCUMENT_LIMITS.briefItemLength))
+    .filter(Boolean)
+    .slice(0, DOCUMENT_LIMITS.briefItems);
+};
+
+// Drops the least important (last) items until the brief fits its token budget
+export const fitBriefToBudget = (brief: InterviewBrief): InterviewBrief => {
+  const fitted: InterviewBrief = {
+    role: brief.role.slice(0, DOCUMENT_LIMITS.roleLength),
+    requirements: cleanItems(brief.requirements),
+    resumeHighlights: cleanItems(brief.resumeHighlights)
+  };
+
+  while (estimateTokens(formatBrief(fitted)) > DOCUMENT_LIMITS.briefTokens) {
+    if (fitted.resumeHighlights.length >= fitted.requirements.length && fitted.resumeHighlights.length > 0) {
+      fitted.resumeHighlights.pop();
+    } else if (fitted.requirements.length > 0) {
+      fitted.requirements.pop();
+    } else {
+      break;
+    }
+  }
+
+  return fitted;
+};
+
+export const formatBrief = (brief: InterviewBrief): string => {
+  const sections = [`Role: ${brief.role || 'Not specified'}`];
+
+  if (brief.requirements.length > 0) {
+    sections.push(`Key requirements:\n${brief.requirements.map(item => `- ${item}`).join('\n')}`);
+  }
+  if (brief.resumeHighlights.length > 0) {
+    sections.push(`Claims from the candidate's resume:\n${brief.resumeHighlights.map(item => `- ${item}`).join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+};
+
+const extractBulletLines = (text: string): string[] => {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => /^([-*•▪]|\d+[.)])\s+/.test(line))
+    .map(line => line.replace(/^([-*•▪]|\d+[.)])\s+/, ''));
+};
+
+export class InterviewBriefBuilder {
+  private provider: LLMProvider | null;
+
+  constructor(provider: LLMProvider | null) {
+    this.provider = provider;
+  }
+
+  /**
+   * Condenses the documents into a brief. Uses the model when available and
+   * falls back to the documents' own bullet points otherwise.
+   */
+  async build(documents: CandidateDocuments): Promise<InterviewBrief | null> {
+    const jobDescription = normalizeDocumentText(documents.jobDescription ?? '');
+    const resume = normalizeDocumentText(documents.resume ?? '');
+
+    if (!jobDescription && !resume) {
+      return null;
+    }
+
+    if (this.provider) {
+      try {
+        const response = await this.provider.complete('documentBrief', this.buildMessages(jobDescription, resume));
+        return fitBriefToBudget(this.parseBrief(extractJson(response)));
+      } catch (error) {
+        if (error instanceof StructuredOutputError) {
+          console.warn('Invalid interview brief, using document bullet points:', error.message);
+        } else {
+          console.error('Error building interview brief:', error);
+        }
+      }
+    }
+
+    return fitBriefToBudget({
+      role: jobDescription.split('\n').find(line => line.trim())?.trim() ?? '',
+      requirements: extractBulletLines(jobDescription),
+      resumeHighlights: extractBulletLines(resume)
+    });
+  }
+
+  private parseBrief(value: unknown): InterviewBrief {
+    if (
+      !isRecord(value) ||
+      typeof value.role !== 'string' ||
+      !Array.isArray(value.requirements) ||
+      !Array.isArray(value.resumeHighlights)
+    ) {
+      throw new StructuredOutputError('Brief must have "role", "requirements" and "resumeHighlights"');
+    }
+
+    const strings = (items: unknown[]) => items.filter((item): item is string => typeof item === 'string');
+    return {
+      role: value.role,
+      requirements: strings(value.requirements),
+      resumeHighlights: strings(value.resumeHighlights)
+    };
+  }
+
+  private buildMessages(jobDescription: string, resume: string): LLMMessage[] {
+    const systemPrompt = `You prepare interviewers. Condense the job description and resume into a short brief.
+
+    Rules:
+    - "requirements": the most important skills and responsibilities from the job description, most important first
+    - "resumeHighlights": specific, checkable claims from the resume (projects, results, technologies, titles), most relevant to the role first
+    - At most ${DOCUMENT_LIMITS.briefItems} items per list, each under 20 words
+    - Use empty lists when a document is missing
+    - ${CANDIDATE_TEXT_RULE}
+
+    Respond with JSON only, in this shape:
+    {"role":"<job title>","requirements":["..."],"resumeHighlights":["..."]}`;
+
+    const jobSection = jobDescription
+      ? truncateToTokens(jobDescription, DOCUMENT_LIMITS.documentTokens)
+      : '(not provided)';
+    const resumeSection = resume
+      ? fenceCandidateText(truncateToTokens(resume, DOCUMENT_LIMITS.documentTokens), 'resume')
+      : '(not provided)';
+
+    return [
+      {
+        role: 'system',
+        content: systemPrompt
+      },
+      {
+        role: 'user',
+        content: `Job description:\n"""\n${jobSection}\n"""\n\nResume:\n${resumeSection}`
+      }
+    ];
+  }
+}
+
+export const validateBrief = (value: unknown): InterviewBrief => {
+  if (
+    !isRecord(value) ||
+    typeof value.role !== 'string' ||
+    value.role.length > DOCUMENT_LIMITS.roleLength ||
+    !Array.isArray(value.requirements) ||
+    !Array.isArray(value.resumeHighlights)
+  ) {
+    throw new StructuredOutputError('Brief must have "role", "requirements" and "resumeHighlights"');
+  }
+
+  for (const list of [value.requirements, value.resumeHighlights]) {
+    if (
+      list.length > DOCUMENT_LIMITS.briefItems ||
+      list.some(item => typeof item !== 'string' || item.length > DOCUMENT_LIMITS.briefItemLength)
+    ) {
+      throw new StructuredOutputError(`Brief lists must have at most ${DOCUMENT_LIMITS.briefItems} short items`);
+    }
+  }
+
+  return {
+    role: value.role,
+    requirements: value.requirements as string[],
+    resumeHighlights: value.resumeHighlights as string[]
+  };
+};
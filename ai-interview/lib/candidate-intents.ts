@@ -0,0 +1,201 @@
+import { LanguageCode } from './languages';
+import { LLMMessage, LLMProvider } from './llm';
+import { CANDIDATE_TEXT_RULE, fenceCandidateText } from './prompt-safety';
+import { extractJson, isRecord, StructuredOutputError } from './structured-output';
+import { foldText } from './text-matching';
+
+/**
+ * What the candidate meant by what they just said. Anything but 'answer' is
+ * a request about the interview itself and never reaches the interviewer as
+ * an answer.
+ */
+export type CandidateIntent = 'answer' | 'repeat' | 'rephrase' | 'skip' | 'pause' | 'end';
+
+export type ControlIntent = Exclude<CandidateIntent, 'answer'>;
+
+export interface IntentClassification {
+  intent: CandidateIntent;
+  source: 'rules' | 'model' | 'default';
+}
+
+export const CANDIDATE_INTENTS: CandidateIntent[] = ['answer', 'repeat', 'rephrase', 'skip', 'pause', 'end'];
+
+export const INTENT_LIMITS = {
+  // Longer transcripts are answers, even if they mention skipping or repeating
+  maxCommandWords: 8
+} as const;
+
+// Fillers that may come before a pause request and courtesies that may follow it
+const PAUSE_FRAMES: Record<LanguageCode, { leadIn: string; tail: string }> = {
+  en: {
+    leadIn: 'ok|okay|um+|uh+|hmm+|so|sorry|right|well|oh|yeah|actually',
+    tail: 'please|thanks|thank you|about (it|that|this)|to think|(just )?(a|one) (moment|minute|second|sec)'
+  },
+  es: {
+    leadIn: 'eh|em|mm+|bueno|pues|vale|perdon|a ver',
+    tail: 'por favor|gracias|para pensar(lo)?|un (momento|segundo|minuto)'
+  },
+  fr: {
+    leadIn: "euh|bon|alors|pardon|ok|d'accord|hmm+",
+    tail: "s'il vous plait|merci|pour reflechir|un (instant|moment)|une (minute|seconde)"
+  },
+  de: {
+    leadIn: 'ahm|ah|also|okay|ok|gut|hmm+',
+    tail: 'bitte|danke|kurz|zum nachdenken|(einen|ein) (moment|augenblick)'
+  }
+};
+
+// "let me think" and "for a second" also turn up inside short answers ("for a
+// second I panicked"), so a pause request has to be the whole utterance
+const pauseCommand = (language: LanguageCode, phrases: string[]): RegExp => {
+  const { leadIn, tail } = PAUSE_FRAMES[language];
+  return new RegExp(`^((${leadIn}) )*(${phrases.join('|')})( (${tail}))*$`);
+};
+
+// Checked in this order, so "could you repeat that more simply" is a rephrase.
+// Patterns are matched against lowercase text with accents removed.
+const INTENT_PATTERNS: Record<LanguageCode, Array<[ControlIntent, RegExp[]]>> = {
+  en: [
+    ['end', [/\b(end|stop|finish|quit) (the|this) interview\b/, /\bi( want|'d like| would like) to (stop|quit|end)( the interview| now| here)?$/]],
+    ['skip', [/\bskip (this|that|it|the question)\b/, /\blet'?s skip\b/, /\bnext question\b/, /\b(can|could) we move on\b/, /\bi'?ll pass\b/, /\b(rather|prefer) not (to )?answer\b/]],
+    ['rephrase', [/\b(rephrase|reword)\b/, /\b(another|different|simpler) way\b/, /\bmore simply\b/, /\bdon'?t (understand|get) the question\b/, /\bwhat do you mean\b/]],
+    ['repeat', [/\brepeat (that|it|the question)\b/, /\bsay (that|it) again\b/, /\bcome again\b/, /^pardon\b/, /\bdidn'?t (catch|hear) (that|it|the question)\b/]],
+    ['pause', [pauseCommand('en', ['((give me|i need|can i have|can i get|wait|just) )?(a|one|just a) (moment|minute|second|sec)', 'let me (think|gather my thoughts)', 'hold on', 'bear with me'])]]
+  ],
+  es: [
+    ['end', [/\b(terminar|finalizar|acabar) (la|esta) entrevista\b/, /\bquiero (terminar|parar)\b/]],
+    ['skip', [/\bsaltar (esta|la) pregunta\b/, /\bsiguiente pregunta\b/, /\bprefiero no (responder|contestar)\b/, /\bpaso (de )?esta pregunta\b/]],
+    ['rephrase', [/\breformular\b/, /\bde otra (forma|manera)\b/, /\bmas (simple|sencillo)\b/, /\bno entiendo la pregunta\b/, /\bque quiere decir\b/]],
+    ['repeat', [/\b(puede|podria|puedes) repetir\b/, /\b(repitalo|repitelo|repita|repite)\b/, /\bno (lo )?(escuche|oi)\b/, /^perdon\b/, /^como dice\b/]],
+    ['pause', [pauseCommand('es', ['((espere|espera|dame|deme|necesito) )?un (momento|segundo|minuto)', 'dej(e|a)me pensar(lo)?', '(dame|deme) (un poco de )?tiempo'])]]
+  ],
+  fr: [
+    ['end', [/\b(terminer|arreter|finir) (l'|cet )?entretien\b/, /\bje (veux|voudrais) (arreter|terminer)\b/]],
+    ['skip', [/\bpasser (a la question suivante|cette question)\b/, /\bquestion suivante\b/, /\bje prefere ne pas repondre\b/, /\bje passe\b/]],
+    ['rephrase', [/\breformuler\b/, /\b(dire|formuler|poser) (ca |la question )?autrement\b/, /\bplus simplement\b/, /\bje ne comprends pas la question\b/, /\bqu'est-ce que vous voulez dire\b/]],
+    ['repeat', [/\brepeter\b/, /\bencore une fois\b/, /^pardon\b/, /\bje n'ai pas (entendu|compris) la question\b/]],
+    ['pause', [pauseCommand('fr', ['((attendez|donnez-moi) )?(un (instant|moment)|une (minute|seconde))', 'laissez-moi reflechir', 'je reflechis'])]]
+  ],
+  de: [
+    ['end', [/\b(interview|gesprach) (beenden|abbrechen)\b/, /\bich (mochte|will) (aufhoren|abbrechen)\b/]],
+    ['skip', [/\buberspringen\b/, /\bnachste frage\b/, /\bmochte (ich )?nicht (darauf )?antworten\b/, /\bich passe\b/]],
+    ['rephrase', [/\banders formulieren\b/, /\bumformulieren\b/, /\beinfacher (formulieren|sagen|erklaren)\b/, /\bverstehe die frage nicht\b/, /\bwas meinen sie\b/]],
+    ['repeat', [/\bwiederholen\b/, /\bnoch (ein)?mal,? bitte\b/, /^wie bitte\b/, /\bnicht (verstanden|gehort)\b/]],
+    ['pause', [pauseCommand('de', ['((warten sie|geben sie mir|nur) )?((einen|ein) (moment|augenblick)|eine (minute|sekunde))', 'lassen sie mich (kurz )?(nachdenken|uberlegen)', 'ich (denke (kurz )?nach|muss (kurz )?(nachdenken|uberlegen))'])]]
+  ]
+};
+
+// A yes to "do you want to end the interview?"
+const AFFIRMATIVE_PATTERNS: Record<LanguageCode, RegExp> = {
+  en: /^(yes|yeah|yep|sure|correct|please do|i do)\b/,
+  es: /^(si|claro|correcto|por favor)\b/,
+  fr: /^(oui|d'accord|exactement|tout a fait)\b/,
+  de: /^(ja|genau|richtig|gerne)\b/
+};
+
+// Set NEXT_PUBLIC_INTENT_CLASSIFIER=llm to send short replies the rules don't recognise to the model
+export const INTENT_MODEL_ENABLED = process.env.NEXT_PUBLIC_INTENT_CLASSIFIER === 'llm';
+
+export class IntentClassificationError extends StructuredOutputError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IntentClassificationError';
+  }
+}
+
+const normalize = (transcript: string): string => {
+  return foldText(transcript)
+    .replace(/[^\p{L}\p{N}\s'-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+export const isCommandLength = (transcript: string): boolean => {
+  return countWords(transcript) <= INTENT_LIMITS.maxCommandWords;
+};
+
+// Keyword rules for the phrases candidates actually use; null when none match
+export const matchIntentRules = (transcript: string, language: LanguageCode): ControlIntent | null => {
+  const text = normalize(transcript);
+  if (!text || !isCommandLength(text)) {
+    return null;
+  }
+
+  const match = INTENT_PATTERNS[language].find(([, patterns]) => patterns.some(pattern => pattern.test(text)));
+  return match ? match[0] : null;
+};
+
+export const isAffirmative = (transcript: string, language: LanguageCode): boolean => {
+  const text = normalize(transcript);
+  return isCommandLength(text) && AFFIRMATIVE_PATTERNS[language].test(text);
+};
+
+export class IntentClassifier {
+  private provider: LLMProvider | null;
+
+  constructor(provider: LLMProvider | null) {
+    this.provider = provider;
+  }
+
+  /**
+   * Keyword rules first, then the model for short replies the rules don't
+   * recognise. Anything long, or anything the model can't place, is an answer.
+   */
+  async classify(transcript: string, question: string, language: LanguageCode): Promise<IntentClassification> {
+    const ruleIntent = matchIntentRules(transcript, language);
+    if (ruleIntent) {
+      return { intent: ruleIntent, source: 'rules' };
+    }
+    if (!this.provider || !isCommandLength(transcript)) {
+      return { intent: 'answer', source: 'default' };
+    }
+
+    try {
+      const response = await this.provider.complete('intent', this.buildMessages(transcript, question));
+      const value = extractJson(response);
+      if (!isRecord(value) || !CANDIDATE_INTENTS.includes(value.intent as CandidateIntent)) {
+        throw new IntentClassificationError(`Classification needs an "intent" (${CANDIDATE_INTENTS.join(', ')})`);
+      }
+      return { intent: value.intent as CandidateIntent, source: 'model' };
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        console.warn('Invalid intent classification, treating as an answer:', error.message);
+      } else {
+        console.error('Error classifying intent:', error);
+      }
+      return { intent: 'answer', source: 'default' };
+    }
+  }
+
+  private buildMessages(transcript: string, question: string): LLMMessage[] {
+    const systemPrompt = `You decide whether a job candidate's reply in a spoken interview answers the question or asks the interviewer to do something.
+
+    Classify the reply as one of:
+    - answer: any attempt to answer, even a short or unsure one
+    - repeat: asks to hear the question again
+    - rephrase: asks for the question to be explained or put more simply
+    - skip: asks to move on without answering
+    - pause: asks for a moment to think
+    - end: asks to stop the whole interview
+
+    When in doubt, choose answer. The reply may be in any language.
+
+    ${CANDIDATE_TEXT_RULE}
+
+    Respond with JSON only, in this shape:
+    {"intent":"<one of the above>"}`;
+
+    return [
+      {
+        role: 'system',
+        content: systemPrompt
+      },
+      {
+        role: 'user',
+        content: `Question: ${question}\n\nCandidate's reply:\n${fenceCandidateText(transcript, 'reply')}`
+      }
+    ];
+  }
+}
@@ -0,0 +1,119 @@
+import type { ConversationTurn } from './ai-interviewer';
+import { fenceCandidateText } from './prompt-safety';
+import { isRecord, StructuredOutputError } from './structured-output';
+import { truncateToTokens } from './tokens';
+
+export interface CodingTask {
+  id: string;
+  title: string;
+  prompt: string;
+  examples: string[];
+}
+
+/**
+ * What was in the editor when the candidate finished speaking. Sent with the
+ * answer and kept on the turn so the evaluator sees the code it was about.
+ */
+export interface CodeSnapshot {
+  taskId: string;
+  language: string;
+  code: string;
+  capturedAt: string;
+}
+
+export const CODING_LANGUAGES: Record<string, string> = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  python: 'Python',
+  java: 'Java',
+  go: 'Go',
+  cpp: 'C++'
+};
+
+export const CODE_LIMITS = {
+  codeLength: 8000,
+  // Share of a prompt the latest code may take
+  promptTokens: 1200
+} as const;
+
+// Roughly in order of difficulty; each interview works through them in order
+export const CODING_TASKS: CodingTask[] = [
+  {
+    id: 'pair-sum',
+    title: 'Pair With Target Sum',
+    prompt: 'Given an array of integers and a target, return the indices of two different elements that add up to the target. Return an empty result if there is no such pair.',
+    examples: ['[2, 7, 11, 15], target 9 → [0, 1]', '[3, 3], target 6 → [0, 1]', '[1, 2], target 7 → []']
+  },
+  {
+    id: 'balanced-brackets',
+    title: 'Balanced Brackets',
+    prompt: 'Given a string containing the characters ()[]{} and any other text, decide whether every bracket is closed by the matching bracket in the correct order.',
+    examples: ['"(a[b]{c})" → true', '"(]" → false', '"((" → false']
+  },
+  {
+    id: 'merge-intervals',
+    title: 'Merge Intervals',
+    prompt: 'Given a list of intervals as [start, end] pairs in any order, merge all overlapping intervals and return the result sorted by start.',
+    examples: ['[[1, 3], [2, 6], [8, 10]] → [[1, 6], [8, 10]]', '[[1, 4], [4, 5]] → [[1, 5]]']
+  },
+  {
+    id: 'lru-cache',
+    title: 'LRU Cache',
+    prompt: 'Implement a cache with a fixed capacity that supports get(key) and put(key, value). When it is full, put evicts the least recently used entry. Both operations should run in constant time.',
+    examples: ['capacity 2: put(1, 1), put(2, 2), get(1) → 1, put(3, 3) evicts key 2, get(2) → missing']
+  }
+];
+
+export class CodeSnapshotError extends StructuredOutputError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CodeSnapshotError';
+  }
+}
+
+export const getCodingTask = (id: string | undefined | null): CodingTask | null => {
+  return CODING_TASKS.find(task => task.id === id) ?? null;
+};
+
+// The first task this interview hasn't used yet
+export const chooseCodingTask = (history: ConversationTurn[]): CodingTask | null => {
+  const used = new Set(history.map(turn => turn.code?.taskId));
+  return CODING_TASKS.find(task => !used.has(task.id)) ?? null;
+};
+
+export const formatCodingTask = (task: CodingTask): string => {
+  return `${task.title}: ${task.prompt}\nExamples:\n${task.examples.map(example => `- ${example}`).join('\n')}`;
+};
+
+// Fenced like any other candidate text, and cut to fit the prompt
+export const formatCodeSnapshot = (snapshot: CodeSnapshot): string => {
+  const language = CODING_LANGUAGES[snapshot.language] ?? snapshot.language;
+  const code = snapshot.code.trim()
+    ? truncateToTokens(snapshot.code, CODE_LIMITS.promptTokens)
+    : '(the editor is empty)';
+  return `Candidate's code (${language}):\n${fenceCandidateText(code, 'code')}`;
+};
+
+export const validateCodeSnapshot = (value: unknown): CodeSnapshot => {
+  if (!isRecord(value)) {
+    throw new CodeSnapshotError('Code snapshot must be an object');
+  }
+
+  const { taskId, language, code, capturedAt } = value;
+  if (typeof taskId !== 'string' || !getCodingTask(taskId)) {
+    throw new CodeSnapshotError(`"taskId" must be one of ${CODING_TASKS.map(task => task.id).join(', ')}`);
+  }
+  if (typeof language !== 'string' || !Object.hasOwn(CODING_LANGUAGES, language)) {
+    throw new CodeSnapshotError(`"language" must be one of ${Object.keys(CODING_LANGUAGES).join(', ')}`);
+  }
+  if (typeof code !== 'string' || code.length > CODE_LIMITS.codeLength) {
+    throw new CodeSnapshotError(`"code" must be a string of at most ${CODE_LIMITS.codeLength} characters`);
+  }
+
+  return {
+    taskId,
+    language,
+    code,
+    capturedAt: typeof capturedAt === 'string' ? capturedAt : new Date().toISOString()
+  };
+};
@@ -0,0 +1,323 @@
+import { DEFAULT_LANGUAGE, LanguageCode } from './languages';
+import { LLMMessage, LLMProvider } from './llm';
+import { extractJson, isRecord, StructuredOutputError } from './structured-output';
+import { foldText } from './text-matching';
+
+export type ProtectedTopic =
+  | 'age'
+  | 'religion'
+  | 'marital-status'
+  | 'pregnancy'
+  | 'nationality'
+  | 'disability'
+  | 'race'
+  | 'gender'
+  | 'sexual-orientation'
+  | 'criminal-record'
+  | 'salary-history'
+  | 'union-membership'
+  | 'political-views';
+
+/**
+ * Topics an interviewer may not ask about in one jurisdiction. Add a rule set
+ * here to support another jurisdiction; the classifier prompt is built from it.
+ */
+export interface ComplianceRuleSet {
+  id: string;
+  name: string;
+  topics: ProtectedTopic[];
+}
+
+export interface ComplianceVerdict {
+  allowed: boolean;
+  topic?: ProtectedTopic;
+  reason: string;
+  // Which check made the call; 'rules' runs first and needs no model
+  source: 'rules' | 'classifier';
+}
+
+// One blocked question, kept in the interview context for the hiring team
+export interface ComplianceAuditEntry {
+  questionNumber: number;
+  question: string;
+  topic: ProtectedTopic | null;
+  reason: string;
+  source: ComplianceVerdict['source'];
+  jurisdiction: string;
+  blockedAt: string;
+}
+
+export const COMPLIANCE_LIMITS = {
+  // Enough for every question of the longest interview to be blocked on each attempt
+  auditEntries: 100,
+  questionLength: 500,
+  reasonLength: 300
+} as const;
+
+const TOPIC_NAMES: Record<ProtectedTopic, string> = {
+  'age': 'age or date of birth',
+  'religion': 'religion or beliefs',
+  'marital-status': 'marital status or family situation',
+  'pregnancy': 'pregnancy or plans for children',
+  'nationality': 'nationality, citizenship or national origin',
+  'disability': 'disability or health',
+  'race': 'race or skin colour',
+  'gender': 'sex or gender identity',
+  'sexual-orientation': 'sexual orientation',
+  'criminal-record': 'criminal history before a conditional offer',
+  'salary-history': 'salary history',
+  'union-membership': 'trade union membership',
+  'political-views': 'political opinions'
+};
+
+// Matched against the question lowercased with accents removed. English is
+// always checked too, since seed questions in a custom plan are used as written.
+const TOPIC_PATTERNS: Record<LanguageCode, Record<ProtectedTopic, RegExp[]>> = {
+  en: {
+    'age': [/\bhow old\b/i, /\b(your|what is your) age\b/i, /\bwhen were you born\b/i, /\b(birth ?date|date of birth|birth year)\b/i, /\bwhat year did you graduate\b/i, /\bplan(ning)? to retire\b/i],
+    'religion': [/\breligio(n|us)\b/i, /\b(church|mosque|synagogue|temple)\b/i, /\b(do|did) you pray\b/i, /\byour faith\b/i],
+    'marital-status': [/\b(are|were) you (married|single|divorced|engaged)\b/i, /\bmarital\b/i, /\b(your )?(spouse|husband|wife)\b/i, /\bmaiden name\b/i],
+    'pregnancy': [/\bpregnan/i, /\bmaternity\b/i, /\b(have|having|plan\w* (to have|on having)|want) (any )?(kids|children|a baby)\b/i, /\bstart(ing)? a family\b/i, /\bchildcare arrangements\b/i],
+    'nationality': [/\bnationality\b/i, /\b(are you a|your) citizen(ship)?\b/i, /\bwhere (are you|were you|is your family) (originally )?(from|born)\b/i, /\bcountry of origin\b/i, /\bnative (language|tongue)\b/i, /\byour accent\b/i, /\bethnic/i],
+    'disability': [/\bdisab(led|ility|ilities)\b/i, /\bhandicap/i, /\b(medical|health) (condition|history|problems?|issues?)\b/i, /\b(take|taking) (any )?medications?\b/i, /\bsick days\b/i, /\bmental health\b/i, /\bworkers'? comp/i],
+    'race': [/\b(your|what) race\b/i, /\bracial\b/i, /\bskin colou?r\b/i],
+    'gender': [/\byour (gender|sex)\b/i, /\bgender identity\b/i, /\bare you (a )?(man|woman|male|female|transgender)\b/i],
+    'sexual-orientation': [/\bsexual orientation\b/i, /\bsexuality\b/i, /\bare you (gay|straight|lesbian|bisexual)\b/i],
+    'criminal-record': [/\b(ever been|were you) (arrested|convicted)\b/i, /\bcriminal (record|history|background)\b/i],
+    'salary-history': [/\b(current|previous|last|past|prior) (salary|pay|compensation|wage)\b/i, /\bhow much (do|did) you (make|earn)\b/i],
+    'union-membership': [/\bunion member/i, /\b(trade|labou?r) union\b/i],
+    'political-views': [/\bpolitical (views|party|affiliation|opinions?|beliefs)\b/i, /\bwho did you vote\b/i]
+  },
+  es: {
+    'age': [/\b(que|su|tu) edad\b/, /\bcuantos anos tienes?( usted)?\s*(\?|$)/, /\bcuando (nacio|naciste)\b/, /\bfecha de nacimiento\b/, /\ben que ano (se graduo|te graduaste)\b/, /\b(piensa|piensas|planea|planeas) jubilar/],
+    'religion': [/\breligio(n|so|sa)\b/, /\b(iglesia|mezquita|sinagoga|templo)\b/, /\b(usted reza|rezas)\b/, /\b(su|tu) fe\b/],
+    'marital-status': [/\b(esta|estas) (casad|solter|divorciad|comprometid)[oa]\b/, /\bestado civil\b/, /\b(su|tu) (esposo|esposa|marido|conyuge)\b/],
+    'pregnancy': [/\bembarazad/, /\bmaternidad\b/, /\b(tiene|tienes|quiere|quieres|piensa|piensas|planea|planeas) (tener )?hijos\b/, /\bformar una familia\b/],
+    'nationality': [/\bnacionalidad\b/, /\bciudadania\b/, /\bde donde (es|eres|viene|vienes)\b/, /\bdonde (nacio|naciste)\b/, /\bpais de origen\b/, /\blengua materna\b/, /\b(su|tu) acento\b/, /\betni/],
+    'disability': [/\bdiscapacidad/, /\bminusvali/, /\b(condicion|problemas?|historial) (medic[oa]s?|de salud)\b/, /\b(toma|tomas) (algun )?medicamento/, /\bsalud mental\b/, /\bbajas? por enfermedad\b/],
+    'race': [/\b(su|tu|que) raza\b/, /\bracial\b/, /\bcolor de piel\b/],
+    'gender': [/\b(su|tu) (genero|sexo)\b/, /\bidentidad de genero\b/, /\b(es usted|eres) (un |una )?(hombre|mujer|transgenero)\b/],
+    'sexual-orientation': [/\borientacion sexual\b/, /\bsexualidad\b/, /\b(es usted|eres) (gay|heterosexual|lesbiana|bisexual)\b/],
+    'criminal-record': [/\b(ha|has) sido (arrestad|detenid|condenad)[oa]\b/, /\b(antecedentes|historial) (penales|delictivos?|criminal(es)?)\b/],
+    'salary-history': [/\b(salario|sueldo) (actual|anterior)\b/, /\b(su|tu) (ultimo|anterior) (salario|sueldo)\b/, /\bcuanto (gana|ganas|ganaba|ganabas|cobra|cobras)\b/],
+    'union-membership': [/\bsindicato/, /\bsindical\b/],
+    'political-views': [/\b(opiniones?|ideas|afiliacion|partido|creencias) politic[oa]s?\b/, /\bpor quien (voto|votaste)\b/]
+  },
+  fr: {
+    'age': [/\bquel age\b/, /\bvotre age\b/, /\bdate de naissance\b/, /\b(quand|en quelle annee) etes-vous nee?\b/, /\ben quelle annee avez-vous obtenu votre diplome\b/, /\bprendre (votre|ta) retraite\b/],
+    'religion': [/\breligi(on|eux|euse)\b/, /\b(eglise|mosquee|synagogue|temple)\b/, /\bpriez-vous\b/, /\bvotre (foi|croyance)/],
+    'marital-status': [/\betes-vous (marie|celibataire|divorce|fiance)e?\b/, /\bsituation (familiale|matrimoniale)\b/, /\bvotre (mari|femme|epoux|epouse|conjoint|conjointe)\b/, /\bnom de jeune fille\b/],
+    'pregnancy': [/\benceinte\b/, /\bgrossesse\b/, /\bmaternite\b/, /\b(avez-vous|voulez-vous|souhaitez-vous|comptez-vous) (avoir )?des enfants\b/, /\bfonder une famille\b/],
+    'nationality': [/\bnationalite\b/, /\bcitoyennete\b/, /\bd'ou (venez-vous|etes-vous|vient votre famille)\b/, /\bou etes-vous nee?\b/, /\bpays d'origine\b/, /\blangue maternelle\b/, /\bvotre accent\b/, /\bethni/],
+    'disability': [/\bhandicap/, /\b(problemes?|antecedents|etat) (de sante|medica(l|ux))\b/, /\bprenez-vous des medicaments\b/, /\bsante mentale\b/, /\barrets? maladie\b/],
+    'race': [/\b(votre|quelle) race\b/, /\braciale?\b/, /\bcouleur de peau\b/],
+    'gender': [/\bvotre (genre|sexe)\b/, /\bidentite de genre\b/, /\betes-vous (un homme|une femme|transgenre)\b/],
+    'sexual-orientation': [/\borientation sexuelle\b/, /\bsexualite\b/, /\betes-vous (gay|heterosexuel|lesbienne|bisexuel)/],
+    'criminal-record': [/\b(avez-vous|as-tu) (deja )?ete (arrete|condamne)e?\b/, /\bcasier judiciaire\b/, /\bantecedents judiciaires\b/],
+    'salary-history': [/\b(salaire|remuneration) (actuel|precedent)/, /\bvotre (dernier|ancien) salaire\b/, /\bcombien (gagnez-vous|gagniez-vous)\b/],
+    'union-membership': [/\bsyndic(at|al|ale|aux|ats)\b/, /\bsyndique/],
+    'political-views': [/\b(opinions?|convictions?|affiliation|parti|idees) politiques?\b/, /\bpour qui (avez-vous|as-tu) vote\b/]
+  },
+  de: {
+    'age': [/\bwie alt sind sie\b/, /\bihr alter\b/, /\bgeburts(datum|jahr)\b/, /\bwann sind sie geboren\b/, /\bin welchem jahr haben sie (ihren )?abschluss\b/, /\bin (den )?ruhestand\b/],
+    'religion': [/\breligi(on|os|ose|osen)\b/, /\b(kirche|moschee|synagoge|tempel)\b/, /\bbeten sie\b/, /\b(ihr|ihren|ihrem) glaube/, /\bkonfession\b/],
+    'marital-status': [/\bsind sie (verheiratet|ledig|geschieden|verlobt)\b/, /\bfamilienstand\b/, /\b(ihr|ihre) (ehemann|ehefrau|ehepartner)\b/, /\bmadchenname\b/],
+    'pregnancy': [/\bschwanger/, /\bmutterschutz\b/, /\belternzeit\b/, /\b(haben|wollen|planen) sie kinder\b/, /\bkinderwunsch\b/, /\bfamilie (zu )?grunden\b/],
+    'nationality': [/\bstaatsangehorigkeit\b/, /\bstaatsburger/, /\bnationalitat\b/, /\bwoher (kommen sie|stammen sie|stammt ihre familie)\b/, /\bwo sind sie geboren\b/, /\bherkunftsland\b/, /\bmuttersprache\b/, /\bihr akzent\b/, /\bethni/],
+    'disability': [/\bbehinderung/, /\bschwerbehindert/, /\b(gesundheitliche|medizinische) (probleme|einschrankungen|vorgeschichte)\b/, /\bnehmen sie medikamente\b/, /\bpsychische gesundheit\b/, /\bkrankheitstage\b/],
+    'race': [/\b(ihre|welche) rasse\b/, /\brassisch\b/, /\bhautfarbe\b/],
+    'gender': [/\bihr geschlecht\b/, /\bgeschlechtsidentitat\b/, /\bsind sie (ein mann|eine frau|transgender)\b/],
+    'sexual-orientation': [/\bsexuelle orientierung\b/, /\bsexualitat\b/, /\bsind sie (schwul|hetero(sexuell)?|lesbisch|bisexuell)\b/],
+    'criminal-record': [/\b(wurden|sind) sie (jemals |schon (einmal )?)?(verhaftet|verurteilt|festgenommen)\b/, /\bvorstrafe/, /\bfuhrungszeugnis\b/],
+    'salary-history': [/\b(aktuell|bisherig|letzt|fruher|vorherig)e[sn]? (gehalt|vergutung)\b/, /\bwie viel (verdienen|verdienten) sie\b/],
+    'union-membership': [/\bgewerkschaft/],
+    'political-views': [/\bpolitische(n)? (einstellung|ansichten|meinung|uberzeugung|partei)/, /\bparteimitglied/, /\bwen haben sie gewahlt\b/]
+  }
+};
+
+export const PROTECTED_TOPICS = Object.keys(TOPIC_NAMES) as ProtectedTopic[];
+
+const EQUALITY_TOPICS: ProtectedTopic[] = [
+  'age',
+  'religion',
+  'marital-status',
+  'pregnancy',
+  'nationality',
+  'disability',
+  'race',
+  'gender',
+  'sexual-orientation'
+];
+
+export const COMPLIANCE_RULE_SETS: Record<string, ComplianceRuleSet> = {
+  'us': {
+    id: 'us',
+    name: 'United States (federal)',
+    topics: EQUALITY_TOPICS
+  },
+  'us-ca': {
+    id: 'us-ca',
+    name: 'California',
+    topics: [...EQUALITY_TOPICS, 'criminal-record', 'salary-history']
+  },
+  'uk': {
+    id: 'uk',
+    name: 'United Kingdom',
+    topics: [...EQUALITY_TOPICS, 'union-membership']
+  },
+  'eu': {
+    id: 'eu',
+    name: 'European Union',
+    topics: [...EQUALITY_TOPICS, 'union-membership', 'political-views']
+  }
+};
+
+export const DEFAULT_JURISDICTION = 'us';
+
+export class ComplianceVerdictError extends StructuredOutputError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ComplianceVerdictError';
+  }
+}
+
+export const getRuleSet = (jurisdiction: string): ComplianceRuleSet => {
+  return COMPLIANCE_RULE_SETS[jurisdiction] ?? COMPLIANCE_RULE_SETS[DEFAULT_JURISDICTION];
+};
+
+// Deterministic first pass; catches the obvious cases without a model call
+export const checkComplianceRules = (
+  question: string,
+  ruleSet: ComplianceRuleSet,
+  language: LanguageCode = DEFAULT_LANGUAGE
+): ComplianceVerdict => {
+  const text = foldText(question);
+  const languages = language === 'en' ? ['en' as const] : ['en' as const, language];
+  const topic = ruleSet.topics.find(candidate => languages.some(code => TOPIC_PATTERNS[code][candidate].some(pattern => pattern.test(text))));
+  return topic
+    ? { allowed: false, topic, reason: `Asks about ${TOPIC_NAMES[topic]}.`, source: 'rules' }
+    : { allowed: true, reason: 'No protected topic matched.', source: 'rules' };
+};
+
+// For interviewer prompts, so protected topics are avoided in the first place
+export const describeProtectedTopics = (ruleSet: ComplianceRuleSet): string => {
+  return ruleSet.topics.map(topic => TOPIC_NAMES[topic]).join(', ');
+};
+
+// Prompt instruction for regenerating after a blocked question
+export const describeBlockedTopics = (log: ComplianceAuditEntry[]): string => {
+  const names = [...new Set(log.map(entry => entry.topic ? TOPIC_NAMES[entry.topic] : entry.reason))];
+  return `Do not ask about ${names.join(' or ')}, directly or indirectly. Ask only about job-related skills and experience.`;
+};
+
+export const validateAuditEntry = (value: unknown): ComplianceAuditEntry => {
+  if (!isRecord(value)) {
+    throw new ComplianceVerdictError('Audit entries must be objects');
+  }
+
+  const { questionNumber, question, topic, reason, source, jurisdiction, blockedAt } = value;
+  if (typeof questionNumber !== 'number' || !Number.isInteger(questionNumber) || questionNumber < 0) {
+    throw new ComplianceVerdictError('"questionNumber" must be a non-negative integer');
+  }
+  if (typeof question !== 'string' || question.length > COMPLIANCE_LIMITS.questionLength) {
+    throw new ComplianceVerdictError(`"question" must be a string of at most ${COMPLIANCE_LIMITS.questionLength} characters`);
+  }
+  if (typeof reason !== 'string' || reason.length > COMPLIANCE_LIMITS.reasonLength) {
+    throw new ComplianceVerdictError(`"reason" must be a string of at most ${COMPLIANCE_LIMITS.reasonLength} characters`);
+  }
+  if (topic !== null && !PROTECTED_TOPICS.includes(topic as ProtectedTopic)) {
+    throw new ComplianceVerdictError(`"topic" must be null or one of ${PROTECTED_TOPICS.join(', ')}`);
+  }
+  if (source !== 'rules' && source !== 'classifier') {
+    throw new ComplianceVerdictError('"source" must be "rules" or "classifier"');
+  }
+  if (typeof jurisdiction !== 'string' || typeof blockedAt !== 'string') {
+    throw new ComplianceVerdictError('Audit entries need a "jurisdiction" and "blockedAt"');
+  }
+
+  return {
+    questionNumber,
+    question,
+    topic: topic as ProtectedTopic | null,
+    reason,
+    source,
+    jurisdiction,
+    blockedAt
+  };
+};
+
+/**
+ * Checks a question against the jurisdiction's rule set, then asks the model
+ * to catch indirect phrasings the rules miss. If the classifier fails the
+ * rules alone decide.
+ */
+export class ComplianceChecker {
+  private provider: LLMProvider | null;
+  private ruleSet: ComplianceRuleSet;
+  private language: LanguageCode;
+
+  constructor(provider: LLMProvider | null, ruleSet: ComplianceRuleSet, language: LanguageCode = DEFAULT_LANGUAGE) {
+    this.provider = provider;
+    this.ruleSet = ruleSet;
+    this.language = language;
+  }
+
+  async check(question: string): Promise<ComplianceVerdict> {
+    const verdict = checkComplianceRules(question, this.ruleSet, this.language);
+    if (!verdict.allowed || !this.provider) {
+      return verdict;
+    }
+
+    try {
+      const response = await this.provider.complete('compliance', this.buildMessages(question));
+      return this.parseVerdict(extractJson(response));
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        console.warn('Invalid compliance verdict, using rules only:', error.message);
+      } else {
+        console.error('Error checking question compliance:', error);
+      }
+      return verdict;
+    }
+  }
+
+  private parseVerdict(value: unknown): ComplianceVerdict {
+    if (!isRecord(value) || typeof value.allowed !== 'boolean' || typeof value.reason !== 'string') {
+      throw new ComplianceVerdictError('Verdict needs "allowed" (boolean) and a "reason"');
+    }
+
+    const topic = this.ruleSet.topics.find(candidate => candidate === value.topic);
+    return {
+      allowed: value.allowed,
+      ...(topic ? { topic } : {}),
+      reason: value.reason.trim().slice(0, COMPLIANCE_LIMITS.reasonLength),
+      source: 'classifier'
+    };
+  }
+
+  private buildMessages(question: string): LLMMessage[] {
+    const topics = this.ruleSet.topics.map(topic => `- ${topic}: ${TOPIC_NAMES[topic]}`).join('\n    ');
+    const systemPrompt = `You review job interview questions for employment-law compliance in ${this.ruleSet.name}.
+
+    A question is not allowed if it asks, directly or indirectly, about any of these protected topics:
+    ${topics}
+
+    Questions about job-related skills, experience, and the ability to perform the job's essential functions are allowed, as is asking whether the candidate is legally authorized to work in the country.
+
+    The question may be in any language; judge what it asks, not how it is worded.
+
+    Respond with JSON only, in this shape:
+    {"allowed":true or false,"topic":"<protected topic id, or empty>","reason":"<one sentence>"}`;
+
+    return [
+      {
+        role: 'system',
+        content: systemPrompt
+      },
+      {
+        role: 'user',
+        content: `Question: ${question}`
+      }
+    ];
+  }
+}
@@ -0,0 +1,160 @@
+import type { ConversationTurn } from './ai-interviewer';
+import { LLMMessage, LLMProvider } from './llm';
+import { CANDIDATE_TEXT_RULE, escapeCandidateText, fenceCandidateText } from './prompt-safety';
+import { estimateTokens, truncateToTokens } from './tokens';
+
+/**
+ * Rolling summary of the oldest turns. Turns 1 to coveredTurns are only sent
+ * to the model through this text; later turns are sent verbatim.
+ */
+export interface ConversationSummary {
+  text: string;
+  coveredTurns: number;
+}
+
+// Sized for an 8k context: the history shares it with instructions, brief and the reply
+export const HISTORY_BUDGET = {
+  // Turns always kept verbatim after a summary refresh
+  recentTurns: 3,
+  // Everything sent as conversation history, summary included
+  historyTokens: 2000,
+  summaryTokens: 400,
+  // Older answers are cut to this before being dropped altogether
+  truncatedAnswerTokens: 80,
+  // Per-answer share of the fallback summary
+  fallbackAnswerTokens: 40
+} as const;
+
+const formatTurn = (turn: ConversationTurn, number: number): string => {
+  return `Q${number}: ${turn.question}\nA${number}:\n${fenceCandidateText(turn.answer)}`;
+};
+
+/**
+ * Builds the conversation history for a prompt within the token budget. The
+ * newest turns are kept whole; older ones have their answers shortened and
+ * are dropped last, after the summary of everything before them.
+ */
+export const buildHistoryContext = (history: ConversationTurn[], summary?: ConversationSummary): string => {
+  const covered = summary ? Math.min(summary.coveredTurns, history.length) : 0;
+  const summarySection = summary && covered > 0
+    ? `Summary of questions 1-${covered}:\n${summary.text}`
+    : '';
+
+  const budget = HISTORY_BUDGET.historyTokens - estimateTokens(summarySection);
+  const recent: string[] = [];
+  let used = 0;
+  let omitted = 0;
+
+  for (let index = history.length - 1; index >= covered; index--) {
+    const number = index + 1;
+    let text = formatTurn(history[index], number);
+
+    if (used + estimateTokens(text) > budget) {
+      text = formatTurn(
+        { ...history[index], answer: truncateToTokens(history[index].answer, HISTORY_BUDGET.truncatedAnswerTokens) },
+        number
+      );
+    }
+    // The latest answer is always included
+    if (used + estimateTokens(text) > budget && recent.length > 0) {
+      omitted = index - covered + 1;
+      break;
+    }
+
+    recent.unshift(text);
+    used += estimateTokens(text);
+  }
+
+  return [
+    summarySection,
+    omitted > 0 ? `(${omitted} earlier answer${omitted === 1 ? '' : 's'} omitted to fit the context window)` : '',
+    recent.join('\n\n')
+  ].filter(Boolean).join('\n\n');
+};
+
+export class ConversationSummarizer {
+  private provider: LLMProvider | null;
+
+  constructor(provider: LLMProvider | null) {
+    this.provider = provider;
+  }
+
+  /**
+   * Folds older turns into the summary once the verbatim part grows past twice
+   * the recent-turn count or the token budget. Returns the summary unchanged
+   * when nothing needs folding.
+   */
+  async refresh(history: ConversationTurn[], summary?: ConversationSummary): Promise<ConversationSummary | undefined> {
+    const covered = summary?.coveredTurns ?? 0;
+    const verbatim = history.slice(covered);
+    const verbatimTokens = estimateTokens(verbatim.map((turn, index) => formatTurn(turn, covered + index + 1)).join('\n\n'));
+
+    if (verbatim.length <= HISTORY_BUDGET.recentTurns * 2 && verbatimTokens <= HISTORY_BUDGET.historyTokens) {
+      return summary;
+    }
+
+    const coveredTurns = Math.max(covered, history.length - HISTORY_BUDGET.recentTurns);
+    const turns = history.slice(covered, coveredTurns).map((turn, index) => ({ turn, number: covered + index + 1 }));
+    if (turns.length === 0) {
+      return summary;
+    }
+
+    let text = '';
+    if (this.provider) {
+      try {
+        text = (await this.provider.complete('summary', this.buildMessages(turns, summary?.text))).trim();
+      } catch (error) {
+        console.error('Error summarizing conversation:', error);
+      }
+    }
+    if (!text) {
+      text = this.buildFallbackSummary(turns, summary?.text);
+    }
+
+    console.log(`🗜️ Summarized questions 1-${coveredTurns} of ${history.length}`);
+    return {
+      text: truncateToTokens(text, HISTORY_BUDGET.summaryTokens),
+      coveredTurns
+    };
+  }
+
+  // One line per turn, dropping the oldest lines once over budget
+  private buildFallbackSummary(turns: { turn: ConversationTurn; number: number }[], previous?: string): string {
+    const lines = [
+      ...(previous ? previous.split('\n') : []),
+      ...turns.map(({ turn, number }) =>
+        `- Q${number} (${turn.question}): ${escapeCandidateText(truncateToTokens(turn.answer, HISTORY_BUDGET.fallbackAnswerTokens))}`
+      )
+    ];
+
+    while (lines.length > 1 && estimateTokens(lines.join('\n')) > HISTORY_BUDGET.summaryTokens) {
+      lines.shift();
+    }
+    return lines.join('\n');
+  }
+
+  private buildMessages(turns: { turn: ConversationTurn; number: number }[], previous?: string): LLMMessage[] {
+    const systemPrompt = `You keep a running summary of a job interview for the interviewer.
+
+    Rules:
+    - Merge the new exchanges into the existing summary
+    - Keep the key facts and claims the candidate made: roles, projects, technologies, numbers, results
+    - Note which topics have been covered and anything left unclear
+    - Use short bullet points, under ${HISTORY_BUDGET.summaryTokens * 3 / 4} words in total
+    - Reply with the summary only
+    - ${CANDIDATE_TEXT_RULE}`;
+
+    const exchanges = turns.map(({ turn, number }) => formatTurn(turn, number)).join('\n\n');
+
+    return [
+      {
+        role: 'system',
+        content: systemPrompt
+      },
+      {
+        role: 'user',
+        content: `Existing summary:\n${previous || '(none yet)'}\n\nNew exchanges:\n${exchanges}`
+      }
+    ];
+  }
+}
@@ -0,0 +1,70 @@
+import { DOCUMENT_LIMITS } from './candidate-documents';
+
+export const DOCUMENT_FILE_ACCEPT = '.txt,.md,.pdf,text/plain,text/markdown,application/pdf';
+
+export class DocumentReadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentReadError';
+  }
+}
+
+const isPdf = (file: File): boolean => {
+  return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+};
+
+const isPlainText = (file: File): boolean => {
+  return file.type.startsWith('text/') || /\.(txt|md|markdown)$/i.test(file.name);
+};
+
+// pdf.js is large and browser-only, so it is loaded on first use
+const readPdfText = async (file: File): Promise<string> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    pages.push(
+      content.items
+        .map(item => ('str' in item ? `${item.str}${item.hasEOL ? '\n' : ''}` : ''))
+        .join('')
+    );
+
+    if (pages.join('\n').length >= DOCUMENT_LIMITS.documentLength) {
+      break;
+    }
+  }
+
+  return pages.join('\n');
+};
+
+/**
+ * Reads a job description or resume upload as plain text. Supports plain text,
+ * Markdown and PDF; the result is cut to the length the API accepts.
+ */
+export const readDocumentFile = async (file: File): Promise<string> => {
+  let text: string;
+
+  if (isPdf(file)) {
+    try {
+      text = await readPdfText(file);
+    } catch (error) {
+      console.error('Error reading PDF:', error);
+      throw new DocumentReadError(`Could not read "${file.name}". Try pasting the text instead.`);
+    }
+  } else if (isPlainText(file)) {
+    text = await file.text();
+  } else {
+    throw new DocumentReadError(`"${file.name}" is not a supported file. Use a .txt, .md or .pdf file.`);
+  }
+
+  if (!text.trim()) {
+    throw new DocumentReadError(`No text found in "${file.name}". Scanned PDFs are not supported.`);
+  }
+
+  return text.slice(0, DOCUMENT_LIMITS.documentLength);
+};
@@ -0,0 +1,324 @@
+import { LanguageCode } from './languages';
+import { LLMMessage, LLMProvider } from './llm';
+import { CANDIDATE_TEXT_RULE, fenceCandidateText } from './prompt-safety';
+import { extractJson, isRecord, StructuredOutputError } from './structured-output';
+import { foldText } from './text-matching';
+
+/**
+ * Something about the answer so far that makes it look finished or not.
+ * Recorded with every decision so the weights can be tuned from real
+ * interviews.
+ */
+export type EndOfTurnSignal =
+  | 'final-punctuation'
+  | 'trailing-conjunction'
+  | 'trailing-filler'
+  | 'incomplete-clause'
+  | 'short-answer'
+  | 'long-pauses'
+  | 'model-complete'
+  | 'model-incomplete';
+
+export const END_OF_TURN_SIGNALS: EndOfTurnSignal[] = [
+  'final-punctuation',
+  'trailing-conjunction',
+  'trailing-filler',
+  'incomplete-clause',
+  'short-answer',
+  'long-pauses',
+  'model-complete',
+  'model-incomplete'
+];
+
+/**
+ * How long to wait after the candidate went quiet before taking the answer
+ * as finished, and why. The outcome is filled in once the wait is over:
+ * 'ended' when the hold-off ran out, 'resumed' when the candidate carried on.
+ */
+export interface EndOfTurnDecision {
+  holdOffMs: number;
+  signals: EndOfTurnSignal[];
+  wordCount: number;
+  decidedAt: string;
+  outcome?: 'ended' | 'resumed';
+  // Silence from the end of speech until the outcome
+  silenceMs?: number;
+}
+
+export interface EndOfTurnOptions {
+  // Hold-off for an answer with nothing pointing either way
+  holdOffMs: number;
+  minHoldOffMs: number;
+  maxHoldOffMs: number;
+}
+
+export const DEFAULT_END_OF_TURN_OPTIONS: EndOfTurnOptions = {
+  holdOffMs: 1800,
+  minHoldOffMs: 600,
+  maxHoldOffMs: 4000
+};
+
+export const END_OF_TURN_LIMITS = {
+  // Decisions kept on each turn; a long think-aloud answer can have many pauses
+  maxDecisions: 10,
+  // Answers shorter than this rarely stand on their own
+  shortAnswerWords: 4,
+  // Pauses the candidate resumed after that are remembered for adapting the hold-off
+  pauseHistory: 20,
+  // Added to a typical resumed pause so the hold-off clears it
+  pauseMarginMs: 300
+} as const;
+
+// Multiplies the base hold-off; several signals compound
+const SIGNAL_WEIGHTS: Partial<Record<EndOfTurnSignal, number>> = {
+  'final-punctuation': 0.6,
+  'model-complete': 0.5,
+  'trailing-conjunction': 1.8,
+  'trailing-filler': 1.6,
+  'incomplete-clause': 1.6,
+  'short-answer': 1.3,
+  'model-incomplete': 1.8
+};
+
+// Matched against the last word, lowercase with accents removed. Words that
+// often end a sentence too ("so", "that", "well", "das") are left out.
+const TRAILING_CONJUNCTIONS: Record<LanguageCode, string[]> = {
+  en: ['and', 'but', 'or', 'because', 'since', 'although', 'though', 'while', 'if', 'unless', 'which'],
+  es: ['y', 'e', 'pero', 'o', 'u', 'porque', 'aunque', 'entonces', 'que', 'cuando', 'donde', 'mientras'],
+  fr: ['et', 'mais', 'ou', 'donc', 'car', 'parce', 'puisque', 'quand', 'que', 'qui', 'lorsque', 'comme'],
+  de: ['und', 'aber', 'oder', 'weil', 'denn', 'dass', 'wenn', 'ob', 'obwohl', 'sondern', 'wobei']
+};
+
+const TRAILING_FILLERS: Record<LanguageCode, string[]> = {
+  en: ['um', 'uh', 'erm', 'er', 'hmm'],
+  es: ['eh', 'em', 'pues', 'o sea'],
+  fr: ['euh', 'bah', 'ben'],
+  de: ['ahm', 'ah', 'em', 'also', 'naja']
+};
+
+// Articles, possessives and prepositions a sentence can't stop on. Prepositions
+// that are often left at the end ("worked on", "hörte auf") are left out.
+const INCOMPLETE_ENDINGS: Record<LanguageCode, string[]> = {
+  en: ['the', 'a', 'an', 'of', 'my', 'our', 'their', 'your', 'i', "i'm", 'very'],
+  es: ['el', 'los', 'las', 'un', 'de', 'del', 'al', 'con', 'por', 'para', 'mi', 'nuestro', 'muy'],
+  fr: ['le', 'les', 'de', 'des', 'du', 'au', 'pour', 'dans', 'sur', 'par', 'mon', 'ma', 'mes', 'je', "j'ai", 'tres'],
+  de: ['den', 'dem', 'ein', 'eine', 'einen', 'fur', 'von', 'bei', 'mein', 'meine', 'ich', 'sehr']
+};
+
+// The end-of-turn model call is only made when this is switched on
+export const END_OF_TURN_MODEL_ENABLED = process.env.NEXT_PUBLIC_END_OF_TURN_MODEL === 'llm';
+
+export class EndOfTurnError extends StructuredOutputError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EndOfTurnError';
+  }
+}
+
+const clamp = (value: number, min: number, max: number): number => {
+  return Math.min(max, Math.max(min, value));
+};
+
+/**
+ * Reads the end of an answer for signs it is finished or not. Final
+ * punctuation only appears when the recognizer adds it (Whisper does, most
+ * browsers don't), so its absence means nothing on its own.
+ */
+export const detectTurnSignals = (transcript: string, language: LanguageCode): EndOfTurnSignal[] => {
+  const text = foldText(transcript).trim();
+  const words = text.split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return [];
+  }
+
+  const signals: EndOfTurnSignal[] = [];
+  if (/[.!?]["')\]]*$/.test(text) && !/\.\.\.$/.test(text)) {
+    signals.push('final-punctuation');
+  }
+
+  const lastWord = words[words.length - 1].replace(/[^\p{L}'-]/gu, '');
+  const lastTwoWords = words.slice(-2).join(' ').replace(/[^\p{L}' -]/gu, '');
+  if (TRAILING_CONJUNCTIONS[language].includes(lastWord)) {
+    signals.push('trailing-conjunction');
+  } else if (TRAILING_FILLERS[language].includes(lastWord) || TRAILING_FILLERS[language].includes(lastTwoWords)) {
+    signals.push('trailing-filler');
+  } else if (INCOMPLETE_ENDINGS[language].includes(lastWord)) {
+    signals.push('incomplete-clause');
+  }
+
+  if (words.length < END_OF_TURN_LIMITS.shortAnswerWords) {
+    signals.push('short-answer');
+  }
+  return signals;
+};
+
+/**
+ * Turns VAD silence and the transcript so far into a hold-off before the
+ * answer is taken as finished. It adapts to the candidate: pauses they
+ * carried on after raise the base hold-off for the rest of the interview.
+ */
+export class EndOfTurnDetector {
+  private options: EndOfTurnOptions;
+  private resumedPauses: number[] = [];
+
+  constructor(options: Partial<EndOfTurnOptions> = {}) {
+    this.options = { ...DEFAULT_END_OF_TURN_OPTIONS, ...options };
+  }
+
+  /**
+   * The model's verdict is optional: null or undefined when it is disabled,
+   * still running or failed.
+   */
+  decide(transcript: string, language: LanguageCode, modelComplete?: boolean | null): EndOfTurnDecision {
+    const signals = detectTurnSignals(transcript, language);
+    const { minHoldOffMs, maxHoldOffMs } = this.options;
+
+    const baseHoldOffMs = this.getBaseHoldOff();
+    if (baseHoldOffMs > this.options.holdOffMs) {
+      signals.push('long-pauses');
+    }
+    if (modelComplete === true) {
+      signals.push('model-complete');
+    } else if (modelComplete === false) {
+      signals.push('model-incomplete');
+    }
+
+    const weight = signals.reduce((product, signal) => product * (SIGNAL_WEIGHTS[signal] ?? 1), 1);
+    return {
+      holdOffMs: Math.round(clamp(baseHoldOffMs * weight, minHoldOffMs, maxHoldOffMs)),
+      signals,
+      wordCount: transcript.split(/\s+/).filter(Boolean).length,
+      decidedAt: new Date().toISOString()
+    };
+  }
+
+  // Picks up new settings, e.g. after mic calibration, keeping what was learnt
+  configure(options: Partial<EndOfTurnOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  // Records how a decision played out; resumed pauses feed the adaptive base
+  noteOutcome(decision: EndOfTurnDecision, outcome: 'ended' | 'resumed', silenceMs: number): void {
+    decision.outcome = outcome;
+    decision.silenceMs = Math.round(silenceMs);
+    if (outcome === 'resumed') {
+      this.resumedPauses = [...this.resumedPauses, silenceMs].slice(-END_OF_TURN_LIMITS.pauseHistory);
+    }
+  }
+
+  // Long enough to clear three in four of the pauses this candidate came back from
+  private getBaseHoldOff(): number {
+    if (this.resumedPauses.length < 2) {
+      return this.options.holdOffMs;
+    }
+    const sorted = [...this.resumedPauses].sort((a, b) => a - b);
+    const typicalPause = sorted[Math.floor((sorted.length - 1) * 0.75)];
+    return clamp(
+      Math.max(this.options.holdOffMs, typicalPause + END_OF_TURN_LIMITS.pauseMarginMs),
+      this.options.minHoldOffMs,
+      this.options.maxHoldOffMs
+    );
+  }
+}
+
+/**
+ * A fast yes/no from the model on whether the answer so far is a complete
+ * thought. Returns null whenever it can't tell, so the rules decide alone.
+ */
+export class TurnCompletenessChecker {
+  private provider: LLMProvider | null;
+
+  constructor(provider: LLMProvider | null) {
+    this.provider = provider;
+  }
+
+  async check(transcript: string, question: string): Promise<boolean | null> {
+    if (!this.provider) {
+      return null;
+    }
+
+    try {
+      const response = await this.provider.complete('endOfTurn', this.buildMessages(transcript, question));
+      const value = extractJson(response);
+      if (!isRecord(value) || typeof value.complete !== 'boolean') {
+        throw new EndOfTurnError('Completeness check needs a boolean "complete"');
+      }
+      return value.complete;
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        console.warn('Invalid completeness check, ignoring it:', error.message);
+      } else {
+        console.error('Error checking answer completeness:', error);
+      }
+      return null;
+    }
+  }
+
+  private buildMessages(transcript: string, question: string): LLMMessage[] {
+    const systemPrompt = `You decide whether a job candidate has finished speaking in a spoken interview. They have just paused.
+
+    The answer is complete if it ends on a finished thought that answers the question, even briefly. It is incomplete if it stops mid-sentence, on a connecting word, or after announcing more ("there are three reasons" with fewer given).
+
+    When in doubt, answer incomplete. The answer may be in any language and has no punctuation if the recognizer didn't add it.
+
+    ${CANDIDATE_TEXT_RULE}
+
+    Respond with JSON only, in this shape:
+    {"complete":true}`;
+
+    return [
+      {
+        role: 'system',
+        content: systemPrompt
+      },
+      {
+        role: 'user',
+        content: `Question: ${question}\n\nCandidate's answer so far:\n${fenceCandidateText(transcript, 'answer')}`
+      }
+    ];
+  }
+}
+
+export const validateEndOfTurnDecisions = (value: unknown): EndOfTurnDecision[] => {
+  if (!Array.isArray(value) || value.length > END_OF_TURN_LIMITS.maxDecisions) {
+    throw new EndOfTurnError(`End-of-turn decisions must be an array of at most ${END_OF_TURN_LIMITS.maxDecisions}`);
+  }
+
+  const isDuration = (duration: unknown): duration is number => {
+    return typeof duration === 'number' && Number.isFinite(duration) && duration >= 0 && duration <= 60_000;
+  };
+
+  return value.map(item => {
+    if (!isRecord(item)) {
+      throw new EndOfTurnError('End-of-turn decisions must be objects');
+    }
+    const { holdOffMs, signals, wordCount, decidedAt, outcome, silenceMs } = item;
+    if (!isDuration(holdOffMs)) {
+      throw new EndOfTurnError('"holdOffMs" must be a number between 0 and 60000');
+    }
+    if (!Array.isArray(signals) || !signals.every(signal => END_OF_TURN_SIGNALS.includes(signal as EndOfTurnSignal))) {
+      throw new EndOfTurnError(`"signals" must only contain ${END_OF_TURN_SIGNALS.join(', ')}`);
+    }
+    if (typeof wordCount !== 'number' || !Number.isInteger(wordCount) || wordCount < 0) {
+      throw new EndOfTurnError('"wordCount" must be a non-negative integer');
+    }
+    if (typeof decidedAt !== 'string' || Number.isNaN(Date.parse(decidedAt))) {
+      throw new EndOfTurnError('"decidedAt" must be an ISO timestamp');
+    }
+    if (outcome !== undefined && outcome !== 'ended' && outcome !== 'resumed') {
+      throw new EndOfTurnError('"outcome" must be ended or resumed');
+    }
+    if (silenceMs !== undefined && !isDuration(silenceMs)) {
+      throw new EndOfTurnError('"silenceMs" must be a number between 0 and 60000');
+    }
+
+    return {
+      holdOffMs: Math.round(holdOffMs),
+      signals: [...new Set(signals as EndOfTurnSignal[])],
+      wordCount,
+      decidedAt,
+      ...(outcome !== undefined ? { outcome } : {}),
+      ...(silenceMs !== undefined ? { silenceMs: Math.round(silenceMs) } : {})
+    };
+  });
+};
@@ -0,0 +1,271 @@
+import { CodeSnapshot, formatCodeSnapshot } from './coding-tasks';
+import { LLMMessage, LLMProvider } from './llm';
+import { CANDIDATE_TEXT_RULE, fenceCandidateText } from './prompt-safety';
+import { extractJson, isRecord, StructuredOutputError } from './structured-output';
+import { foldText } from './text-matching';
+
+export interface RubricCompetency {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface Rubric {
+  competencies: RubricCompetency[];
+  scale: {
+    min: number;
+    max: number;
+  };
+}
+
+export interface CompetencyScore {
+  competencyId: string;
+  // null when the answer gives no evidence either way for this competency
+  score: number | null;
+  evidence: string[];
+  rationale: string;
+}
+
+export interface TurnEvaluation {
+  scores: CompetencyScore[];
+  evaluatedAt: string;
+  // Added by the server; the report only uses evaluations it can verify
+  signature?: string;
+}
+
+export const DEFAULT_RUBRIC: Rubric = {
+  competencies: [
+    {
+      id: 'communication',
+      name: 'Communication',
+      description: 'Explains ideas clearly, stays on topic and structures the answer so it is easy to follow.'
+    },
+    {
+      id: 'problem-solving',
+      name: 'Problem Solving',
+      description: 'Breaks problems down, weighs options and explains the reasoning behind decisions.'
+    },
+    {
+      id: 'role-fit',
+      name: 'Role Fit',
+      description: 'Shows relevant experience, motivation and values that match the role.'
+    }
+  ],
+  scale: {
+    min: 1,
+    max: 5
+  }
+};
+
+export const EVALUATION_LIMITS = {
+  competencies: 10,
+  evidencePerScore: 5,
+  evidenceLength: 300,
+  rationaleLength: 1000
+} as const;
+
+export class EvaluationValidationError extends StructuredOutputError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EvaluationValidationError';
+  }
+}
+
+const normalizeForMatch = (text: string): string => {
+  return foldText(text).replace(/[^\p{L}\p{N}'\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+};
+
+// True when the quote appears in the text, ignoring case, punctuation and spacing
+export const containsQuote = (text: string, quote: string): boolean => {
+  const normalizedQuote = normalizeForMatch(quote);
+  return normalizedQuote.length > 0 && normalizeForMatch(text).includes(normalizedQuote);
+};
+
+const validateScore = (value: unknown, rubric: Rubric): CompetencyScore => {
+  if (!isRecord(value)) {
+    throw new EvaluationValidationError('Each score must be an object');
+  }
+
+  const { competencyId, score, evidence, rationale } = value;
+
+  if (typeof competencyId !== 'string') {
+    throw new EvaluationValidationError('"competencyId" must be a string');
+  }
+  if (
+    score !== null &&
+    (typeof score !== 'number' || !Number.isInteger(score) || score < rubric.scale.min || score > rubric.scale.max)
+  ) {
+    throw new EvaluationValidationError(
+      `Score for "${competencyId}" must be an integer from ${rubric.scale.min} to ${rubric.scale.max} or null`
+    );
+  }
+  if (
+    !Array.isArray(evidence) ||
+    evidence.length > EVALUATION_LIMITS.evidencePerScore ||
+    evidence.some(quote => typeof quote !== 'string' || quote.length > EVALUATION_LIMITS.evidenceLength)
+  ) {
+    throw new EvaluationValidationError(`Evidence for "${competencyId}" must be a short list of quotes`);
+  }
+  if (typeof rationale !== 'string' || rationale.length > EVALUATION_LIMITS.rationaleLength) {
+    throw new EvaluationValidationError(`Rationale for "${competencyId}" must be a string`);
+  }
+
+  return {
+    competencyId,
+    score,
+    evidence: evidence as string[],
+    rationale
+  };
+};
+
+/**
+ * Checks an evaluation's structure against the rubric. Every competency must be
+ * scored exactly once; scores for competencies outside the rubric are dropped.
+ */
+export const validateEvaluation = (value: unknown, rubric: Rubric): TurnEvaluation => {
+  if (!isRecord(value) || !Array.isArray(value.scores)) {
+    throw new EvaluationValidationError('Evaluation must be an object with a "scores" array');
+  }
+
+  const knownIds = new Set(rubric.competencies.map(competency => competency.id));
+  const scores = value.scores
+    .map(score => validateScore(score, rubric))
+    .filter(score => knownIds.has(score.competencyId));
+
+  for (const competency of rubric.competencies) {
+    const count = scores.filter(score => score.competencyId === competency.id).length;
+    if (count !== 1) {
+      throw new EvaluationValidationError(`Competency "${competency.id}" must be scored exactly once`);
+    }
+  }
+
+  return {
+    scores,
+    evaluatedAt: typeof value.evaluatedAt === 'string' ? value.evaluatedAt : new Date().toISOString(),
+    ...(typeof value.signature === 'string' ? { signature: value.signature } : {})
+  };
+};
+
+export const validateRubric = (value: unknown): Rubric => {
+  if (!isRecord(value) || !Array.isArray(value.competencies) || !isRecord(value.scale)) {
+    throw new EvaluationValidationError('Rubric must have "competencies" and a "scale"');
+  }
+
+  const { min, max } = value.scale;
+  if (typeof min !== 'number' || typeof max !== 'number' || !Number.isInteger(min) || !Number.isInteger(max) || min >= max) {
+    throw new EvaluationValidationError('Rubric scale must be two integers with min below max');
+  }
+
+  if (value.competencies.length === 0 || value.competencies.length > EVALUATION_LIMITS.competencies) {
+    throw new EvaluationValidationError(`Rubric must have 1 to ${EVALUATION_LIMITS.competencies} competencies`);
+  }
+
+  const competencies = value.competencies.map((competency): RubricCompetency => {
+    if (
+      !isRecord(competency) ||
+      typeof competency.id !== 'string' || !/^[a-z0-9-]{1,40}$/.test(competency.id) ||
+      typeof competency.name !== 'string' || competency.name.length > 80 ||
+      typeof competency.description !== 'string' || competency.description.length > 500
+    ) {
+      throw new EvaluationValidationError('Rubric competencies need an id, name and description');
+    }
+    return {
+      id: competency.id,
+      name: competency.name,
+      description: competency.description
+    };
+  });
+
+  return {
+    competencies,
+    scale: { min, max }
+  };
+};
+
+export class AnswerEvaluator {
+  private provider: LLMProvider;
+  private rubric: Rubric;
+  private maxAttempts: number;
+
+  constructor(provider: LLMProvider, rubric: Rubric = DEFAULT_RUBRIC, maxAttempts: number = 2) {
+    this.provider = provider;
+    this.rubric = rubric;
+    this.maxAttempts = maxAttempts;
+  }
+
+  /**
+   * Scores one answer against the rubric. Invalid model output is retried with
+   * the validation error fed back; returns null if it never validates. For
+   * coding answers the code is scored along with what was said.
+   */
+  async evaluate(question: string, answer: string, code?: CodeSnapshot): Promise<TurnEvaluation | null> {
+    const messages = this.buildMessages(question, answer, code);
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      let response = '';
+      try {
+        response = await this.provider.complete('evaluation', messages);
+        const evaluation = validateEvaluation(extractJson(response), this.rubric);
+        return this.keepVerifiedEvidence(evaluation, code ? [answer, code.code] : [answer]);
+      } catch (error) {
+        if (!(error instanceof StructuredOutputError)) {
+          console.error('Error evaluating answer:', error);
+          return null;
+        }
+
+        console.warn(`Invalid evaluation (attempt ${attempt}/${this.maxAttempts}):`, error.message);
+        messages.push(
+          { role: 'assistant', content: response },
+          { role: 'user', content: `That response was invalid: ${error.message}. Reply with corrected JSON only.` }
+        );
+      }
+    }
+
+    return null;
+  }
+
+  // Evidence has to be a real quote from the answer or code, not a paraphrase
+  private keepVerifiedEvidence(evaluation: TurnEvaluation, sources: string[]): TurnEvaluation {
+    return {
+      ...evaluation,
+      scores: evaluation.scores.map(score => {
+        const evidence = score.evidence.filter(quote => sources.some(source => containsQuote(source, quote)));
+
+        if (evidence.length < score.evidence.length) {
+          console.warn(`Dropped ${score.evidence.length - evidence.length} unverifiable quote(s) for ${score.competencyId}`);
+        }
+        return { ...score, evidence };
+      })
+    };
+  }
+
+  private buildMessages(question: string, answer: string, code?: CodeSnapshot): LLMMessage[] {
+    const { min, max } = this.rubric.scale;
+    const competencies = this.rubric.competencies
+      .map(competency => `- ${competency.id} (${competency.name}): ${competency.description}`)
+      .join('\n');
+
+    const systemPrompt = `You are an experienced interview assessor. Score the candidate's answer against each competency in the rubric.
+
+    Rules:
+    - Use integer scores from ${min} (weak) to ${max} (excellent)
+    - Use null when the answer gives no evidence for a competency
+    - Evidence must be exact quotes copied from the candidate's answer${code ? ' or code' : ''}
+    - Keep each rationale to one or two sentences
+    - ${CANDIDATE_TEXT_RULE}
+
+    Respond with JSON only, in this shape:
+    {"scores":[{"competencyId":"<id>","score":<integer or null>,"evidence":["<exact quote>"],"rationale":"<why>"}]}`;
+
+    return [
+      {
+        role: 'system',
+        content: systemPrompt
+      },
+      {
+        role: 'user',
+        content: `Rubric:\n${competencies}\n\nQuestion: ${question}\n\nCandidate's answer:\n${fenceCandidateText(answer)}${code ? `\n\n${formatCodeSnapshot(code)}` : ''}`
+      }
+    ];
+  }
+}
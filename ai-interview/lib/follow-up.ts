@@ -0,0 +1,248 @@
+import { CodeSnapshot, CodingTask, formatCodeSnapshot, formatCodingTask } from './coding-tasks';
+import { LLMMessage, LLMProvider } from './llm';
+import { CANDIDATE_TEXT_RULE, fenceCandidateText } from './prompt-safety';
+import { extractJson, isRecord, StructuredOutputError } from './structured-output';
+
+export type AnswerAssessment = 'complete' | 'vague' | 'off-topic' | 'needs-clarification';
+
+export type FollowUpAction = 'probe' | 'advance';
+
+// What a follow-up on a coding answer digs into
+export type ProbeAngle = 'complexity' | 'edge-cases' | 'design';
+
+/**
+ * What the interviewer decided after an answer: dig deeper on the same topic
+ * or move on. Kept on the turn so reviewers can see why each question was asked.
+ */
+export interface FollowUpDecision {
+  assessment: AnswerAssessment;
+  action: FollowUpAction;
+  reason: string;
+  // What a probe should ask about
+  focus?: string;
+  // Set for coding answers
+  angle?: ProbeAngle;
+  decidedAt: string;
+}
+
+/**
+ * The coding task an answer was given for, with the code written so far and
+ * the angles earlier follow-ups on it already covered.
+ */
+export interface CodeReview {
+  task: CodingTask;
+  snapshot: CodeSnapshot;
+  probedAngles: ProbeAngle[];
+}
+
+export const ANSWER_ASSESSMENTS: AnswerAssessment[] = ['complete', 'vague', 'off-topic', 'needs-clarification'];
+
+export const PROBE_ANGLES: ProbeAngle[] = ['complexity', 'edge-cases', 'design'];
+
+export const FOLLOW_UP_LIMITS = {
+  reasonLength: 300,
+  focusLength: 200
+} as const;
+
+// Without a model, answers shorter than this are treated as vague
+const MIN_COMPLETE_ANSWER_WORDS = 15;
+
+const PROBE_INSTRUCTIONS: Record<Exclude<AnswerAssessment, 'complete'>, string> = {
+  'vague': 'The last answer was vague. Ask for a concrete example or specifics',
+  'off-topic': 'The last answer drifted off topic. Gently steer the candidate back to the original question',
+  'needs-clarification': 'Part of the last answer was unclear. Ask the candidate to clarify it'
+};
+
+const ANGLE_INSTRUCTIONS: Record<ProbeAngle, string> = {
+  'complexity': "Ask about the time and space complexity of the candidate's code and whether it could be improved",
+  'edge-cases': "Ask how the candidate's code handles edge cases such as empty or very large input, duplicates or invalid values",
+  'design': 'Ask why the candidate chose this approach, data structures and structure for their code, and what the trade-offs are'
+};
+
+export class FollowUpDecisionError extends StructuredOutputError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FollowUpDecisionError';
+  }
+}
+
+export const validateFollowUpDecision = (value: unknown): FollowUpDecision => {
+  if (!isRecord(value)) {
+    throw new FollowUpDecisionError('Follow-up decision must be an object');
+  }
+
+  const { assessment, action, reason, focus, angle, decidedAt } = value;
+  if (!ANSWER_ASSESSMENTS.includes(assessment as AnswerAssessment)) {
+    throw new FollowUpDecisionError(`"assessment" must be one of ${ANSWER_ASSESSMENTS.join(', ')}`);
+  }
+  if (action !== 'probe' && action !== 'advance') {
+    throw new FollowUpDecisionError('"action" must be "probe" or "advance"');
+  }
+  if (typeof reason !== 'string' || reason.length > FOLLOW_UP_LIMITS.reasonLength) {
+    throw new FollowUpDecisionError(`"reason" must be a string of at most ${FOLLOW_UP_LIMITS.reasonLength} characters`);
+  }
+  if (focus !== undefined && (typeof focus !== 'string' || focus.length > FOLLOW_UP_LIMITS.focusLength)) {
+    throw new FollowUpDecisionError(`"focus" must be a string of at most ${FOLLOW_UP_LIMITS.focusLength} characters`);
+  }
+  if (angle !== undefined && !PROBE_ANGLES.includes(angle as ProbeAngle)) {
+    throw new FollowUpDecisionError(`"angle" must be one of ${PROBE_ANGLES.join(', ')}`);
+  }
+
+  return {
+    assessment: assessment as AnswerAssessment,
+    action,
+    reason,
+    ...(focus ? { focus: focus as string } : {}),
+    ...(angle ? { angle: angle as ProbeAngle } : {}),
+    decidedAt: typeof decidedAt === 'string' ? decidedAt : new Date().toISOString()
+  };
+};
+
+// Prompt instruction for a probing question
+export const describeProbe = (decision: FollowUpDecision): string => {
+  let instruction = decision.assessment === 'complete'
+    ? 'Ask a follow-up that digs deeper into the last answer'
+    : PROBE_INSTRUCTIONS[decision.assessment];
+  if (decision.angle) {
+    instruction = ANGLE_INSTRUCTIONS[decision.angle];
+  }
+  return decision.focus ? `${instruction}, focusing on: ${decision.focus}` : instruction;
+};
+
+export class FollowUpDecider {
+  private provider: LLMProvider | null;
+
+  constructor(provider: LLMProvider | null) {
+    this.provider = provider;
+  }
+
+  /**
+   * Classifies the answer and decides whether to probe. Incomplete answers are
+   * probed only while the topic is under its follow-up limit. Coding answers
+   * are also probed on each angle not yet covered.
+   */
+  async decide(question: string, answer: string, canProbe: boolean, review?: CodeReview): Promise<FollowUpDecision> {
+    const classification = await this.classify(question, answer, review);
+    const openAngles = review ? PROBE_ANGLES.filter(angle => !review.probedAngles.includes(angle)) : [];
+    const angle = openAngles.find(candidate => candidate === classification.angle) ?? openAngles[0];
+
+    const wantsProbe = classification.assessment !== 'complete' || angle !== undefined;
+    const reason = wantsProbe && !canProbe
+      ? `${classification.reason} Follow-up limit reached for this topic, moving on.`
+      : classification.reason;
+
+    return {
+      assessment: classification.assessment,
+      action: wantsProbe && canProbe ? 'probe' : 'advance',
+      reason: reason.slice(0, FOLLOW_UP_LIMITS.reasonLength),
+      ...(classification.focus ? { focus: classification.focus } : {}),
+      ...(angle ? { angle } : {}),
+      decidedAt: new Date().toISOString()
+    };
+  }
+
+  private async classify(
+    question: string,
+    answer: string,
+    review?: CodeReview
+  ): Promise<Pick<FollowUpDecision, 'assessment' | 'reason' | 'focus' | 'angle'>> {
+    if (this.provider) {
+      try {
+        const response = await this.provider.complete('followUpDecision', this.buildMessages(question, answer, review));
+        return this.parseClassification(extractJson(response));
+      } catch (error) {
+        if (error instanceof StructuredOutputError) {
+          console.warn('Invalid follow-up decision, using answer length:', error.message);
+        } else {
+          console.error('Error deciding on follow-up:', error);
+        }
+      }
+    }
+
+    const words = answer.trim().split(/\s+/).filter(Boolean).length;
+    return words < MIN_COMPLETE_ANSWER_WORDS
+      ? { assessment: 'vague', reason: `Short answer (${words} words).` }
+      : { assessment: 'complete', reason: 'Answer length suggests a full response.' };
+  }
+
+  private parseClassification(value: unknown): Pick<FollowUpDecision, 'assessment' | 'reason' | 'focus' | 'angle'> {
+    if (
+      !isRecord(value) ||
+      !ANSWER_ASSESSMENTS.includes(value.assessment as AnswerAssessment) ||
+      typeof value.reason !== 'string'
+    ) {
+      throw new FollowUpDecisionError(`Decision needs an "assessment" (${ANSWER_ASSESSMENTS.join(', ')}) and a "reason"`);
+    }
+
+    const focus = typeof value.focus === 'string' ? value.focus.trim().slice(0, FOLLOW_UP_LIMITS.focusLength) : '';
+    const angle = PROBE_ANGLES.find(candidate => candidate === value.angle);
+    return {
+      assessment: value.assessment as AnswerAssessment,
+      reason: value.reason.trim(),
+      ...(focus ? { focus } : {}),
+      ...(angle ? { angle } : {})
+    };
+  }
+
+  private buildMessages(question: string, answer: string, review?: CodeReview): LLMMessage[] {
+    if (review) {
+      return this.buildCodeReviewMessages(question, answer, review);
+    }
+
+    const systemPrompt = `You review interview answers to decide whether the interviewer should follow up.
+
+    Classify the candidate's answer as one of:
+    - complete: answers the question with enough substance to move on
+    - vague: generic or lacking concrete examples, actions or results
+    - off-topic: does not address the question that was asked
+    - needs-clarification: on topic, but part of it is ambiguous or contradictory
+
+    ${CANDIDATE_TEXT_RULE}
+
+    Respond with JSON only, in this shape:
+    {"assessment":"<one of the above>","reason":"<one sentence>","focus":"<what a follow-up should ask about, or empty>"}`;
+
+    return [
+      {
+        role: 'system',
+        content: systemPrompt
+      },
+      {
+        role: 'user',
+        content: `Question: ${question}\n\nCandidate's answer:\n${fenceCandidateText(answer)}`
+      }
+    ];
+  }
+
+  private buildCodeReviewMessages(question: string, answer: string, review: CodeReview): LLMMessage[] {
+    const openAngles = PROBE_ANGLES.filter(angle => !review.probedAngles.includes(angle));
+    const systemPrompt = `You review a candidate's work on a coding task in a technical interview to decide what the interviewer should follow up on.
+
+    Classify the candidate's spoken answer together with their code as one of:
+    - complete: a working approach, clearly explained
+    - vague: the explanation or the code leaves out how the solution actually works
+    - off-topic: does not address the task or the question
+    - needs-clarification: the code or explanation has a gap, bug or contradiction worth asking about
+
+    Also pick the most useful angle for a follow-up from: ${openAngles.length > 0 ? openAngles.join(', ') : 'none left'}
+    - complexity: time and space complexity, and whether it could be better
+    - edge-cases: empty, large, duplicate or invalid input
+    - design: choice of approach and data structures, naming and structure, trade-offs
+
+    ${CANDIDATE_TEXT_RULE}
+
+    Respond with JSON only, in this shape:
+    {"assessment":"<one of the above>","reason":"<one sentence>","focus":"<the specific part of the code to ask about, or empty>","angle":"<one of the angles, or empty>"}`;
+
+    return [
+      {
+        role: 'system',
+        content: systemPrompt
+      },
+      {
+        role: 'user',
+        content: `Task: ${formatCodingTask(review.task)}\n\nQuestion: ${question}\n\nCandidate's answer:\n${fenceCandidateText(answer)}\n\n${formatCodeSnapshot(review.snapshot)}`
+      }
+    ];
+  }
+}
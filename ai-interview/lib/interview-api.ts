@@ -0,0 +1,167 @@
+import { DegradedStatus, InterviewContext, InterviewTurnEvent } from './ai-interviewer';
+import { CandidateDocuments } from './candidate-documents';
+import { IntentClassification } from './candidate-intents';
+import { CodeSnapshot } from './coding-tasks';
+import { Rubric } from './evaluation';
+import { InterviewLength } from './interview-length';
+import { InterviewPlan } from './interview-plan';
+import { LanguageCode } from './languages';
+import { CandidateReport } from './report';
+import { TurnTiming } from './transcript';
+import { TtsVoice } from './tts/types';
+
+// Shared contract between the browser client and the /api/interview routes
+
+export const SESSION_HEADER = 'x-interview-session';
+
+export const INTERVIEW_API_ROUTES = {
+  session: '/api/interview/session',
+  firstQuestion: '/api/interview/first-question',
+  nextQuestion: '/api/interview/next-question',
+  appreciation: '/api/interview/appreciation',
+  turn: '/api/interview/turn',
+  report: '/api/interview/report',
+  transcribe: '/api/interview/transcribe',
+  speech: '/api/interview/speech',
+  intent: '/api/interview/intent',
+  rephrase: '/api/interview/rephrase',
+  endOfTurn: '/api/interview/end-of-turn'
+} as const;
+
+export const INTERVIEW_API_LIMITS = {
+  answerLength: 4000,
+  questionLength: 500,
+  interviewTypeLength: 50,
+  categoryIdLength: 40,
+  historyTurns: 30,
+  summaryLength: 4000,
+  // Base64 of about 60 seconds of 16 kHz 16-bit WAV
+  segmentAudioLength: 2_600_000,
+  // Speech is requested a sentence or so at a time
+  speechTextLength: 1000,
+  voiceIdLength: 100
+} as const;
+
+export interface SessionResponse {
+  // Signed by the server; sent back as the session header until it expires
+  sessionId: string;
+}
+
+export interface FirstQuestionRequest {
+  interviewType: string;
+  rubric?: Rubric;
+  plan?: InterviewPlan;
+  length?: InterviewLength;
+  // Raw documents are only sent here; later requests carry the condensed brief
+  documents?: CandidateDocuments;
+  // Key of COMPLIANCE_RULE_SETS; defaults to US federal rules
+  jurisdiction?: string;
+  // Defaults to English
+  language?: LanguageCode;
+}
+
+export interface FirstQuestionResponse {
+  question: string;
+  context: InterviewContext;
+  // Present when the answer came from built-in text instead of the model
+  degraded?: DegradedStatus;
+}
+
+export interface NextQuestionRequest {
+  context: InterviewContext;
+  answer: string;
+  currentQuestion: string;
+  // Editor contents, sent with every answer while a coding task is open
+  code?: CodeSnapshot;
+  // When the question was spoken and the answer given
+  timing?: TurnTiming;
+}
+
+export interface NextQuestionResponse {
+  question: string;
+  context: InterviewContext;
+  degraded?: DegradedStatus;
+}
+
+export interface AppreciationRequest {
+  answer: string;
+  language?: LanguageCode;
+}
+
+export interface AppreciationResponse {
+  appreciation: string;
+  degraded?: DegradedStatus;
+}
+
+// The turn route answers with newline-delimited JSON, one event per line
+export type TurnRequest = NextQuestionRequest;
+export type TurnStreamEvent = InterviewTurnEvent;
+
+export interface ReportRequest {
+  context: InterviewContext;
+}
+
+export interface ReportResponse {
+  report: CandidateReport;
+}
+
+export interface IntentRequest {
+  transcript: string;
+  // The question the transcript replies to
+  question: string;
+  language?: LanguageCode;
+}
+
+export type IntentResponse = IntentClassification;
+
+export interface EndOfTurnRequest {
+  // The answer so far, up to the pause
+  transcript: string;
+  question: string;
+}
+
+export interface EndOfTurnResponse {
+  // Null when the model couldn't tell
+  complete: boolean | null;
+}
+
+export interface RephraseRequest {
+  context: InterviewContext;
+  question: string;
+}
+
+export interface RephraseResponse {
+  question: string;
+  context: InterviewContext;
+  degraded?: DegradedStatus;
+}
+
+export interface TranscribeRequest {
+  // Base64 WAV of one VAD speech segment
+  audio: string;
+  language?: LanguageCode;
+}
+
+export interface TranscribeResponse {
+  text: string;
+  // From the model's average log probability, when the server reports it
+  confidence?: number;
+  // Milliseconds from the start of the segment
+  words: Array<{ word: string; startMs: number; endMs: number }>;
+}
+
+export interface SpeechRequest {
+  text: string;
+  // One of the voices listed by GET on the speech route; unset uses the server default
+  voice?: string;
+  rate?: number;
+}
+
+export interface SpeechVoicesResponse {
+  voices: TtsVoice[];
+}
+
+export interface InterviewApiErrorBody {
+  error: string;
+  retryAfterMs?: number;
+}
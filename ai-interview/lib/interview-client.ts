@@ -0,0 +1,408 @@
+import { ConversationTurn, DegradedStatus, InterviewContext } from './ai-interviewer';
+import { AnswerAudioRef } from './answer-audio';
+import { CandidateDocuments } from './candidate-documents';
+import { INTENT_MODEL_ENABLED, IntentClassification, isCommandLength, matchIntentRules } from './candidate-intents';
+import { CodeSnapshot, CodingTask, getCodingTask } from './coding-tasks';
+import { ComplianceAuditEntry } from './compliance';
+import { END_OF_TURN_LIMITS, END_OF_TURN_MODEL_ENABLED, EndOfTurnDecision } from './end-of-turn';
+import { Rubric } from './evaluation';
+import { InterviewLength, InterviewPacer, InterviewProgress } from './interview-length';
+import { DEFAULT_LANGUAGE, LanguageCode } from './languages';
+import { CategoryCoverage, CLOSING_CATEGORY, getDefaultPlan, InterviewPlan, InterviewPlanner } from './interview-plan';
+import { CandidateReport } from './report';
+import { buildTranscript, InterviewTranscript, TurnTiming } from './transcript';
+import {
+  AppreciationRequest,
+  AppreciationResponse,
+  EndOfTurnRequest,
+  EndOfTurnResponse,
+  FirstQuestionRequest,
+  FirstQuestionResponse,
+  INTERVIEW_API_ROUTES,
+  InterviewApiErrorBody,
+  IntentRequest,
+  IntentResponse,
+  NextQuestionRequest,
+  NextQuestionResponse,
+  RephraseRequest,
+  RephraseResponse,
+  ReportRequest,
+  ReportResponse,
+  TurnRequest,
+  TurnStreamEvent
+} from './interview-api';
+import { fetchWithSession, resetInterviewSession } from './interview-session';
+
+export class InterviewApiError extends Error {
+  readonly status: number;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'InterviewApiError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const createSessionId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
+
+export interface InterviewClientOptions {
+  rubric?: Rubric;
+  plan?: InterviewPlan;
+  length?: InterviewLength;
+  documents?: CandidateDocuments;
+  jurisdiction?: string;
+  language?: LanguageCode;
+}
+
+/**
+ * Browser-side interviewer. Holds the interview context locally and delegates
+ * all LLM work to the /api/interview routes so no API key reaches the client.
+ */
+export class InterviewClient {
+  private context: InterviewContext;
+  // Names the saved session, its recordings and transcript; the server's
+  // session header comes from interview-session
+  private sessionId: string;
+  private documents?: CandidateDocuments;
+  // From the latest response; null once the model answers normally again
+  private degraded: DegradedStatus | null = null;
+
+  constructor(interviewType: string = 'general', options: InterviewClientOptions = {}) {
+    this.sessionId = createSessionId();
+    this.documents = options.documents;
+    this.context = {
+      conversationHistory: [],
+      currentQuestionNumber: 0,
+      interviewType,
+      rubric: options.rubric,
+      plan: options.plan,
+      length: options.length,
+      jurisdiction: options.jurisdiction,
+      language: options.language
+    };
+  }
+
+  /**
+   * Picks up a saved interview. The documents aren't needed again; the brief
+   * built from them is already in the context.
+   */
+  static restore(sessionId: string, context: InterviewContext): InterviewClient {
+    const client = new InterviewClient(context.interviewType);
+    client.sessionId = sessionId;
+    client.context = context;
+    return client;
+  }
+
+  async generateFirstQuestion(): Promise<string> {
+    const response = await this.post<FirstQuestionRequest, FirstQuestionResponse>(
+      INTERVIEW_API_ROUTES.firstQuestion,
+      {
+        interviewType: this.context.interviewType,
+        rubric: this.context.rubric,
+        plan: this.context.plan,
+        length: this.context.length,
+        documents: this.documents,
+        jurisdiction: this.context.jurisdiction,
+        language: this.context.language
+      }
+    );
+    this.context = response.context;
+    this.degraded = response.degraded ?? null;
+    return response.question;
+  }
+
+  async generateNextQuestion(
+    previousAnswer: string,
+    currentQuestion: string,
+    code?: CodeSnapshot,
+    timing?: TurnTiming
+  ): Promise<string> {
+    const submittedAt = Date.now();
+    const response = await this.post<NextQuestionRequest, NextQuestionResponse>(
+      INTERVIEW_API_ROUTES.nextQuestion,
+      {
+        context: this.context,
+        answer: previousAnswer,
+        currentQuestion,
+        code,
+        timing
+      }
+    );
+    this.context = response.context;
+    this.degraded = response.degraded ?? null;
+    this.recordProcessingTime(submittedAt);
+    return response.question;
+  }
+
+  /**
+   * Streams the acknowledgment and next question as they are generated. The
+   * local context is updated when the final 'done' event arrives.
+   */
+  async *streamTurn(
+    previousAnswer: string,
+    currentQuestion: string,
+    code?: CodeSnapshot,
+    timing?: TurnTiming
+  ): AsyncGenerator<TurnStreamEvent> {
+    const submittedAt = Date.now();
+    const response = await this.send<TurnRequest>(INTERVIEW_API_ROUTES.turn, {
+      context: this.context,
+      answer: previousAnswer,
+      currentQuestion,
+      code,
+      timing
+    });
+
+    if (!response.body) {
+      throw new InterviewApiError('Interview stream was empty', response.status);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() ?? '';
+
+        for (const line of lines) {
+          if (!line.trim()) {
+            continue;
+          }
+
+          const event = JSON.parse(line) as TurnStreamEvent;
+          if (event.type === 'done') {
+            this.context = event.context;
+            this.degraded = event.degraded ?? null;
+            this.recordProcessingTime(submittedAt);
+          }
+          yield event;
+        }
+
+        if (done) {
+          break;
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Whether a finished transcript answers the question or asks for something
+   * else. Keyword rules run here; short replies they don't match go to the
+   * model when it is enabled. A failed request counts as an answer.
+   */
+  async classifyIntent(transcript: string, question: string): Promise<IntentClassification> {
+    const language = this.context.language ?? DEFAULT_LANGUAGE;
+    const intent = matchIntentRules(transcript, language);
+    if (intent) {
+      return { intent, source: 'rules' };
+    }
+    if (!INTENT_MODEL_ENABLED || !isCommandLength(transcript)) {
+      return { intent: 'answer', source: 'default' };
+    }
+
+    try {
+      return await this.post<IntentRequest, IntentResponse>(
+        INTERVIEW_API_ROUTES.intent,
+        { transcript, question, language }
+      );
+    } catch (error) {
+      console.error('Error classifying intent:', error);
+      return { intent: 'answer', source: 'default' };
+    }
+  }
+
+  /**
+   * The model's view on whether a paused answer is finished, or null when the
+   * check is disabled or fails; the end-of-turn rules then decide alone.
+   */
+  async checkTurnComplete(transcript: string, question: string): Promise<boolean | null> {
+    if (!END_OF_TURN_MODEL_ENABLED || !transcript.trim()) {
+      return null;
+    }
+
+    try {
+      const response = await this.post<EndOfTurnRequest, EndOfTurnResponse>(
+        INTERVIEW_API_ROUTES.endOfTurn,
+        { transcript, question }
+      );
+      return response.complete;
+    } catch (error) {
+      console.error('Error checking answer completeness:', error);
+      return null;
+    }
+  }
+
+  async rephraseQuestion(question: string): Promise<string> {
+    const response = await this.post<RephraseRequest, RephraseResponse>(
+      INTERVIEW_API_ROUTES.rephrase,
+      { context: this.context, question }
+    );
+    this.context = response.context;
+    this.degraded = response.degraded ?? null;
+    return response.question;
+  }
+
+  // The candidate asked to stop; what they answered so far still gets a report
+  endEarly(): void {
+    this.context = { ...this.context, phase: 'complete' };
+  }
+
+  async generateAppreciation(answer: string): Promise<string> {
+    const response = await this.post<AppreciationRequest, AppreciationResponse>(
+      INTERVIEW_API_ROUTES.appreciation,
+      { answer, language: this.context.language }
+    );
+    this.degraded = response.degraded ?? null;
+    return response.appreciation;
+  }
+
+  async generateReport(): Promise<CandidateReport> {
+    const response = await this.post<ReportRequest, ReportResponse>(
+      INTERVIEW_API_ROUTES.report,
+      { context: this.context }
+    );
+    return response.report;
+  }
+
+  getQuestionNumber(): number {
+    return this.context.currentQuestionNumber;
+  }
+
+  getConversationHistory(): ConversationTurn[] {
+    return this.context.conversationHistory;
+  }
+
+  getCategoryCoverage(): CategoryCoverage[] {
+    const plan = this.context.plan ?? getDefaultPlan(this.context.interviewType);
+    return new InterviewPlanner(plan).getCoverage(this.context.conversationHistory);
+  }
+
+  // The task shown in the editor panel, while its category is being asked about
+  getCodingTask(): CodingTask | null {
+    return getCodingTask(this.context.codingTaskId);
+  }
+
+  // True until the candidate submits code for the current task
+  isAwaitingSolution(): boolean {
+    const taskId = this.context.codingTaskId;
+    return taskId !== undefined && !this.context.conversationHistory.some(turn => turn.code?.taskId === taskId);
+  }
+
+  // Elapsed time uses the local clock, so this can be polled between turns
+  getProgress(): InterviewProgress {
+    const questionsAnswered = this.context.conversationHistory
+      .filter(turn => turn.category !== CLOSING_CATEGORY)
+      .length;
+    return new InterviewPacer(this.context.length, this.context.startedAt)
+      .getProgress(this.context.phase ?? 'questions', questionsAnswered);
+  }
+
+  // Questions the compliance filter blocked, for the hiring team
+  getComplianceLog(): ComplianceAuditEntry[] {
+    return this.context.complianceLog ?? [];
+  }
+
+  isComplete(): boolean {
+    return this.context.phase === 'complete';
+  }
+
+  getDegradedStatus(): DegradedStatus | null {
+    return this.degraded;
+  }
+
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
+  // For saving the session between turns
+  getContext(): InterviewContext {
+    return this.context;
+  }
+
+  getTranscript(): InterviewTranscript {
+    return buildTranscript(this.sessionId, this.context);
+  }
+
+  reset(): void {
+    this.sessionId = createSessionId();
+    resetInterviewSession();
+    this.degraded = null;
+    this.context = {
+      conversationHistory: [],
+      currentQuestionNumber: 0,
+      interviewType: this.context.interviewType,
+      rubric: this.context.rubric,
+      plan: this.context.plan,
+      length: this.context.length,
+      jurisdiction: this.context.jurisdiction,
+      language: this.context.language
+    };
+  }
+
+  // Links the recording of the latest answer; the audio never leaves the browser
+  attachAnswerAudio(audio: AnswerAudioRef): void {
+    const history = this.context.conversationHistory;
+    const turn = history[history.length - 1];
+    if (turn) {
+      turn.audio = audio;
+    }
+  }
+
+  // Logs how the latest answer's end was detected; the last decisions are kept
+  attachEndOfTurn(decisions: EndOfTurnDecision[]): void {
+    const history = this.context.conversationHistory;
+    const turn = history[history.length - 1];
+    if (turn && decisions.length > 0) {
+      turn.endOfTurn = decisions.slice(-END_OF_TURN_LIMITS.maxDecisions);
+    }
+  }
+
+  // Only the browser sees the whole round trip, so it times the turn it just sent
+  private recordProcessingTime(submittedAt: number): void {
+    const history = this.context.conversationHistory;
+    const turn = history[history.length - 1];
+    if (turn) {
+      turn.timing = { ...turn.timing, processingMs: Date.now() - submittedAt };
+    }
+  }
+
+  private async post<TRequest, TResponse>(url: string, body: TRequest): Promise<TResponse> {
+    const response = await this.send(url, body);
+    return await response.json() as TResponse;
+  }
+
+  private async send<TRequest>(url: string, body: TRequest): Promise<Response> {
+    const response = await fetchWithSession(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null) as InterviewApiErrorBody | null;
+      throw new InterviewApiError(
+        errorBody?.error ?? `Interview request failed with status ${response.status}`,
+        response.status,
+        errorBody?.retryAfterMs
+      );
+    }
+
+    return response;
+  }
+}
@@ -1,3 +1,6 @@
+import type { ProbeAngle } from './follow-up';
+import { DEFAULT_LANGUAGE, LanguageCode } from './languages';
+
 export interface InterviewQuestion {
   id: number;
   question: string;
@@ -8,6 +11,23 @@ export interface AppreciationResponse {
   responses: string[];
 }
 
+/**
+ * Fixed lines the interviewer speaks, and the questions it falls back to when
+ * the model is unavailable. One set per interview language.
+ */
+export interface InterviewerPhrases {
+  wrapUpQuestion: string;
+  firstFallbackQuestion: string;
+  followUpFallbackQuestion: string;
+  closingFallbackReply: string;
+  closingStatement: string;
+  lastQuestionNotice: string;
+  timeNotice: (minutes: number) => string;
+  codingTaskQuestion: (taskTitle: string) => string;
+  // Asked when a coding follow-up can't be generated
+  angleFallbackQuestions: Record<ProbeAngle, string>;
+}
+
 export const interviewQuestions: InterviewQuestion[] = [
   {
     id: 1,
@@ -56,8 +76,77 @@ export const interviewQuestions: InterviewQuestion[] = [
   }
 ];
 
-export const appreciationResponses: AppreciationResponse = {
-  responses: [
+// Seed questions of the built-in plans, by their English text
+const SEED_QUESTION_TRANSLATIONS: Record<string, Partial<Record<LanguageCode, string>>> = {
+  "Tell me about yourself and your background.": {
+    es: 'Hábleme de usted y de su trayectoria.',
+    fr: 'Parlez-moi de vous et de votre parcours.',
+    de: 'Erzählen Sie mir etwas über sich und Ihren Werdegang.'
+  },
+  "What are your greatest strengths?": {
+    es: '¿Cuáles son sus mayores fortalezas?',
+    fr: 'Quelles sont vos plus grandes forces ?',
+    de: 'Was sind Ihre größten Stärken?'
+  },
+  "Where do you see yourself in 5 years?": {
+    es: '¿Dónde se ve dentro de 5 años?',
+    fr: 'Où vous voyez-vous dans 5 ans ?',
+    de: 'Wo sehen Sie sich in 5 Jahren?'
+  },
+  "Why are you interested in this position?": {
+    es: '¿Por qué le interesa este puesto?',
+    fr: 'Pourquoi ce poste vous intéresse-t-il ?',
+    de: 'Warum interessieren Sie sich für diese Stelle?'
+  },
+  "Describe a challenging situation you faced and how you handled it.": {
+    es: 'Describa una situación difícil a la que se enfrentó y cómo la gestionó.',
+    fr: "Décrivez une situation difficile que vous avez rencontrée et la façon dont vous l'avez gérée.",
+    de: 'Beschreiben Sie eine schwierige Situation, mit der Sie konfrontiert waren, und wie Sie damit umgegangen sind.'
+  },
+  "What motivates you to do your best work?": {
+    es: '¿Qué le motiva a dar lo mejor de sí en su trabajo?',
+    fr: "Qu'est-ce qui vous motive à donner le meilleur de vous-même ?",
+    de: 'Was motiviert Sie, Ihre beste Arbeit zu leisten?'
+  },
+  "How do you handle working under pressure?": {
+    es: '¿Cómo gestiona el trabajo bajo presión?',
+    fr: 'Comment gérez-vous le travail sous pression ?',
+    de: 'Wie gehen Sie mit Arbeit unter Druck um?'
+  },
+  "What are your salary expectations?": {
+    es: '¿Cuáles son sus expectativas salariales?',
+    fr: 'Quelles sont vos prétentions salariales ?',
+    de: 'Was sind Ihre Gehaltsvorstellungen?'
+  },
+  "Tell me about a technical project you're proud of and the part you played in it.": {
+    es: 'Hábleme de un proyecto técnico del que se sienta orgulloso y del papel que desempeñó en él.',
+    fr: "Parlez-moi d'un projet technique dont vous êtes fier et du rôle que vous y avez joué.",
+    de: 'Erzählen Sie mir von einem technischen Projekt, auf das Sie stolz sind, und welche Rolle Sie dabei gespielt haben.'
+  },
+  "How do you approach code reviews, both giving and receiving feedback?": {
+    es: '¿Cómo aborda las revisiones de código, tanto al dar como al recibir comentarios?',
+    fr: "Comment abordez-vous les revues de code, qu'il s'agisse de donner ou de recevoir des retours ?",
+    de: 'Wie gehen Sie an Code-Reviews heran, sowohl beim Geben als auch beim Empfangen von Feedback?'
+  },
+  "Tell me about a production incident you helped resolve.": {
+    es: 'Hábleme de un incidente en producción que ayudó a resolver.',
+    fr: "Parlez-moi d'un incident de production que vous avez aidé à résoudre.",
+    de: 'Erzählen Sie mir von einem Produktionsvorfall, bei dessen Lösung Sie geholfen haben.'
+  },
+  "How would you design a service that shortens URLs?": {
+    es: '¿Cómo diseñaría un servicio para acortar URL?',
+    fr: "Comment concevriez-vous un service de raccourcissement d'URL ?",
+    de: 'Wie würden Sie einen Dienst zum Kürzen von URLs entwerfen?'
+  },
+  "How would you design a rate limiter for a public API?": {
+    es: '¿Cómo diseñaría un limitador de peticiones para una API pública?',
+    fr: 'Comment concevriez-vous un limiteur de débit pour une API publique ?',
+    de: 'Wie würden Sie ein Rate-Limiting für eine öffentliche API entwerfen?'
+  }
+};
+
+const APPRECIATIONS: Record<LanguageCode, string[]> = {
+  en: [
     "Thank you for that thoughtful answer.",
     "That's a great perspective, I appreciate your honesty.",
     "Excellent response, thank you for sharing.",
@@ -68,10 +157,119 @@ export const appreciationResponses: AppreciationResponse = {
     "Great answer, that shows good self-awareness.",
     "Thank you for sharing your experience with us.",
     "That's exactly the kind of thinking we're looking for."
+  ],
+  es: [
+    'Gracias por esa respuesta tan reflexiva.',
+    'Es una perspectiva muy interesante, le agradezco la sinceridad.',
+    'Excelente respuesta, gracias por compartirla.',
+    'Muy acertado, se nota que lo ha pensado bien.',
+    'Gracias por una explicación tan detallada.',
+    'Es un ejemplo estupendo, gracias.',
+    'Le agradezco la transparencia en esa respuesta.',
+    'Buena respuesta, demuestra que se conoce bien.',
+    'Gracias por compartir su experiencia con nosotros.',
+    'Ese es justo el tipo de enfoque que buscamos.'
+  ],
+  fr: [
+    'Merci pour cette réponse réfléchie.',
+    "C'est un point de vue intéressant, merci pour votre franchise.",
+    "Excellente réponse, merci de l'avoir partagée.",
+    'Très pertinent, on voit que vous y avez réfléchi.',
+    'Merci pour cette explication détaillée.',
+    "C'est un très bon exemple, merci.",
+    "J'apprécie votre transparence dans cette réponse.",
+    'Belle réponse, qui montre une bonne connaissance de vous-même.',
+    'Merci de nous avoir fait part de votre expérience.',
+    "C'est exactement le type de réflexion que nous recherchons."
+  ],
+  de: [
+    'Vielen Dank für diese durchdachte Antwort.',
+    'Das ist eine interessante Sichtweise, danke für Ihre Offenheit.',
+    'Ausgezeichnete Antwort, danke, dass Sie das geteilt haben.',
+    'Sehr aufschlussreich, man merkt, dass Sie darüber nachgedacht haben.',
+    'Danke für diese ausführliche Erklärung.',
+    'Das ist ein sehr gutes Beispiel, danke.',
+    'Ich schätze Ihre Ehrlichkeit bei dieser Antwort.',
+    'Gute Antwort, das zeugt von guter Selbstreflexion.',
+    'Danke, dass Sie Ihre Erfahrungen mit uns teilen.',
+    'Genau diese Art von Denken suchen wir.'
   ]
 };
 
-export const getRandomAppreciation = (): string => {
-  const randomIndex = Math.floor(Math.random() * appreciationResponses.responses.length);
-  return appreciationResponses.responses[randomIndex];
-};
\ No newline at end of file
+export const appreciationResponses: AppreciationResponse = {
+  responses: APPRECIATIONS.en
+};
+
+export const INTERVIEWER_PHRASES: Record<LanguageCode, InterviewerPhrases> = {
+  en: {
+    wrapUpQuestion: "Thank you for your thoughtful responses. Do you have any questions for us about the role or company?",
+    firstFallbackQuestion: "Tell me about yourself and what brings you here today.",
+    followUpFallbackQuestion: "Can you walk me through a specific example of that?",
+    closingFallbackReply: "Thank you for asking. The hiring team will be happy to follow up on anything I couldn't cover.",
+    closingStatement: "Thank you for taking the time to interview with us today. We'll be in touch soon with next steps.",
+    lastQuestionNotice: "Here's my last question.",
+    timeNotice: minutes => `Just a heads-up, we have about ${minutes} minute${minutes === 1 ? '' : 's'} left.`,
+    codingTaskQuestion: taskTitle => `Let's move on to a coding task: ${taskTitle}. The details are in the editor panel. Talk me through your approach as you write your solution, and submit it when you're ready to discuss it.`,
+    angleFallbackQuestions: {
+      'complexity': 'What are the time and space complexity of your solution, and could you improve either?',
+      'edge-cases': 'How does your code handle edge cases like empty input, duplicates or very large inputs?',
+      'design': 'Why did you choose this approach, and what trade-offs did you consider?'
+    }
+  },
+  es: {
+    wrapUpQuestion: 'Gracias por sus respuestas tan reflexivas. ¿Tiene alguna pregunta para nosotros sobre el puesto o la empresa?',
+    firstFallbackQuestion: 'Cuénteme sobre usted y qué le trae hoy por aquí.',
+    followUpFallbackQuestion: '¿Puede explicarme un ejemplo concreto de eso?',
+    closingFallbackReply: 'Gracias por preguntar. El equipo de selección le responderá sobre todo lo que yo no haya podido aclarar.',
+    closingStatement: 'Gracias por dedicar su tiempo a esta entrevista. Nos pondremos en contacto pronto con los próximos pasos.',
+    lastQuestionNotice: 'Esta es mi última pregunta.',
+    timeNotice: minutes => `Le aviso de que nos queda${minutes === 1 ? '' : 'n'} unos ${minutes} minuto${minutes === 1 ? '' : 's'}.`,
+    codingTaskQuestion: taskTitle => `Pasemos a un ejercicio de programación: ${taskTitle}. Tiene los detalles en el panel del editor. Explíqueme su enfoque mientras escribe la solución y envíela cuando esté listo para comentarla.`,
+    angleFallbackQuestions: {
+      'complexity': '¿Cuál es la complejidad temporal y espacial de su solución, y podría mejorar alguna de las dos?',
+      'edge-cases': '¿Cómo maneja su código casos límite como una entrada vacía, valores duplicados o entradas muy grandes?',
+      'design': '¿Por qué eligió este enfoque y qué ventajas e inconvenientes tuvo en cuenta?'
+    }
+  },
+  fr: {
+    wrapUpQuestion: "Merci pour vos réponses réfléchies. Avez-vous des questions à nous poser sur le poste ou l'entreprise ?",
+    firstFallbackQuestion: "Parlez-moi de vous et de ce qui vous amène ici aujourd'hui.",
+    followUpFallbackQuestion: 'Pouvez-vous me donner un exemple concret ?',
+    closingFallbackReply: "Merci pour votre question. L'équipe de recrutement reviendra vers vous sur tout ce que je n'ai pas pu couvrir.",
+    closingStatement: "Merci d'avoir pris le temps de passer cet entretien avec nous aujourd'hui. Nous vous recontacterons bientôt pour la suite.",
+    lastQuestionNotice: 'Voici ma dernière question.',
+    timeNotice: minutes => `Pour information, il nous reste environ ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+    codingTaskQuestion: taskTitle => `Passons à un exercice de programmation : ${taskTitle}. Les détails se trouvent dans le panneau de l'éditeur. Expliquez-moi votre démarche pendant que vous écrivez votre solution, puis soumettez-la quand vous serez prêt à en discuter.`,
+    angleFallbackQuestions: {
+      'complexity': "Quelle est la complexité en temps et en espace de votre solution, et pourriez-vous l'améliorer ?",
+      'edge-cases': 'Comment votre code gère-t-il les cas limites comme une entrée vide, des doublons ou de très grandes entrées ?',
+      'design': 'Pourquoi avez-vous choisi cette approche, et quels compromis avez-vous envisagés ?'
+    }
+  },
+  de: {
+    wrapUpQuestion: 'Vielen Dank für Ihre durchdachten Antworten. Haben Sie Fragen an uns zur Stelle oder zum Unternehmen?',
+    firstFallbackQuestion: 'Erzählen Sie mir etwas über sich und was Sie heute zu uns führt.',
+    followUpFallbackQuestion: 'Können Sie mir dazu ein konkretes Beispiel nennen?',
+    closingFallbackReply: 'Danke für Ihre Frage. Das Recruiting-Team meldet sich gern zu allem, was ich nicht beantworten konnte.',
+    closingStatement: 'Vielen Dank, dass Sie sich heute Zeit für das Gespräch genommen haben. Wir melden uns bald mit den nächsten Schritten.',
+    lastQuestionNotice: 'Hier ist meine letzte Frage.',
+    timeNotice: minutes => `Nur zur Info: Wir haben noch etwa ${minutes} Minute${minutes === 1 ? '' : 'n'}.`,
+    codingTaskQuestion: taskTitle => `Kommen wir zu einer Programmieraufgabe: ${taskTitle}. Die Details finden Sie im Editor. Erklären Sie mir Ihren Ansatz, während Sie Ihre Lösung schreiben, und reichen Sie sie ein, wenn Sie bereit sind, darüber zu sprechen.`,
+    angleFallbackQuestions: {
+      'complexity': 'Welche Zeit- und Speicherkomplexität hat Ihre Lösung, und ließe sich eine davon verbessern?',
+      'edge-cases': 'Wie geht Ihr Code mit Randfällen wie leeren Eingaben, Duplikaten oder sehr großen Eingaben um?',
+      'design': 'Warum haben Sie sich für diesen Ansatz entschieden, und welche Abwägungen haben Sie getroffen?'
+    }
+  }
+};
+
+export const getRandomAppreciation = (language: LanguageCode = DEFAULT_LANGUAGE): string => {
+  const responses = APPRECIATIONS[language];
+  const randomIndex = Math.floor(Math.random() * responses.length);
+  return responses[randomIndex];
+};
+
+// Custom plans are written in the interview's language, so only built-in seeds are translated
+export const translateSeedQuestion = (question: string, language: LanguageCode): string => {
+  return SEED_QUESTION_TRANSLATIONS[question]?.[language] ?? question;
+};
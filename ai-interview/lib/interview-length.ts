@@ -0,0 +1,123 @@
+/**
+ * How long an interview runs. Either limit can be left out; with both set the
+ * interview wraps up at whichever is reached first.
+ */
+export interface InterviewLength {
+  maxQuestions?: number;
+  maxMinutes?: number;
+}
+
+// questions: the main interview; candidate-questions: "any questions for us?" has been asked
+export type InterviewPhase = 'questions' | 'candidate-questions' | 'complete';
+
+export interface InterviewProgress {
+  phase: InterviewPhase;
+  questionsAnswered: number;
+  maxQuestions: number | null;
+  elapsedMs: number;
+  maxMs: number | null;
+  // 0 to 1, for the progress bar
+  fraction: number;
+}
+
+export const DEFAULT_INTERVIEW_LENGTH: InterviewLength = {
+  maxQuestions: 7
+};
+
+export const LENGTH_LIMITS = {
+  maxQuestions: 25,
+  maxMinutes: 120
+} as const;
+
+// Share of the time budget after which the candidate is warned, and after which no new questions start
+const TIME_WARNING_FRACTION = 0.8;
+const WRAP_UP_FRACTION = 0.9;
+// Used to estimate how many questions fit before any answer has been timed
+const DEFAULT_MS_PER_QUESTION = 2 * 60 * 1000;
+// Progress shown once the main questions are done
+const CANDIDATE_QUESTIONS_FRACTION = 0.9;
+
+/**
+ * Applies the length limits. Stateless: the start time and answer count come
+ * from the interview context on every call.
+ */
+export class InterviewPacer {
+  private length: InterviewLength;
+  private startedAt: number | null;
+
+  constructor(length: InterviewLength = DEFAULT_INTERVIEW_LENGTH, startedAt?: string) {
+    this.length = length;
+    this.startedAt = startedAt ? Date.parse(startedAt) : null;
+  }
+
+  getElapsedMs(now: number = Date.now()): number {
+    return this.startedAt === null || Number.isNaN(this.startedAt) ? 0 : Math.max(0, now - this.startedAt);
+  }
+
+  private getMaxMs(): number | null {
+    return this.length.maxMinutes ? this.length.maxMinutes * 60 * 1000 : null;
+  }
+
+  // Time-only interviews still stop at the question cap so the context stays within API limits
+  shouldWrapUp(questionsAnswered: number, now: number = Date.now()): boolean {
+    const maxMs = this.getMaxMs();
+    return (
+      questionsAnswered >= (this.length.maxQuestions ?? LENGTH_LIMITS.maxQuestions) ||
+      (maxMs !== null && this.getElapsedMs(now) >= maxMs * WRAP_UP_FRACTION)
+    );
+  }
+
+  shouldWarnAboutTime(now: number = Date.now()): boolean {
+    const maxMs = this.getMaxMs();
+    return maxMs !== null && this.getElapsedMs(now) >= maxMs * TIME_WARNING_FRACTION;
+  }
+
+  getMinutesLeft(now: number = Date.now()): number {
+    const maxMs = this.getMaxMs();
+    return maxMs === null ? Infinity : Math.max(1, Math.round((maxMs - this.getElapsedMs(now)) / 60000));
+  }
+
+  // Questions still to ask, counting the next one; time-based limits use the pace so far
+  getQuestionsRemaining(questionsAnswered: number, now: number = Date.now()): number {
+    let remaining = Infinity;
+
+    if (this.length.maxQuestions !== undefined) {
+      remaining = this.length.maxQuestions - questionsAnswered;
+    }
+
+    const maxMs = this.getMaxMs();
+    if (maxMs !== null) {
+      const elapsedMs = this.getElapsedMs(now);
+      const msPerQuestion = questionsAnswered > 0 ? elapsedMs / questionsAnswered : DEFAULT_MS_PER_QUESTION;
+      const byTime = Math.floor((maxMs * WRAP_UP_FRACTION - elapsedMs) / Math.max(msPerQuestion, 1)) + 1;
+      remaining = Math.min(remaining, byTime);
+    }
+
+    return Math.max(1, remaining);
+  }
+
+  getProgress(phase: InterviewPhase, questionsAnswered: number, now: number = Date.now()): InterviewProgress {
+    const maxMs = this.getMaxMs();
+    const elapsedMs = this.getElapsedMs(now);
+    const shares = [
+      this.length.maxQuestions ? questionsAnswered / this.length.maxQuestions : 0,
+      maxMs !== null ? elapsedMs / (maxMs * WRAP_UP_FRACTION) : 0
+    ];
+
+    let fraction = Math.min(1, Math.max(...shares)) * CANDIDATE_QUESTIONS_FRACTION;
+    if (phase === 'candidate-questions') {
+      fraction = CANDIDATE_QUESTIONS_FRACTION;
+    } else if (phase === 'complete') {
+      fraction = 1;
+    }
+
+    return {
+      phase,
+      questionsAnswered,
+      maxQuestions: this.length.maxQuestions ?? null,
+      elapsedMs,
+      maxMs,
+      fraction
+    };
+  }
+}
@@ -0,0 +1,275 @@
+import type { ConversationTurn } from './ai-interviewer';
+import { interviewQuestions } from './interview-data';
+import { isRecord, StructuredOutputError } from './structured-output';
+
+export interface PlanCategory {
+  id: string;
+  name: string;
+  // Required categories are always asked before wrap-up
+  required: boolean;
+  seedQuestions: string[];
+  // Extra questions on the same category after its first one
+  maxFollowUps: number;
+  // The first question posts a coding task to the editor instead of asking a seed question
+  coding?: boolean;
+}
+
+/**
+ * Plain JSON description of an interview. Categories are asked in the order
+ * they are listed.
+ */
+export interface InterviewPlan {
+  id: string;
+  name: string;
+  categories: PlanCategory[];
+}
+
+export interface CategoryCoverage {
+  categoryId: string;
+  name: string;
+  required: boolean;
+  questionsAsked: number;
+}
+
+export interface NextCategory {
+  category: PlanCategory;
+  isFollowUp: boolean;
+  seedQuestion: string | null;
+}
+
+export const PLAN_LIMITS = {
+  categories: 20,
+  seedQuestions: 10,
+  maxFollowUps: 5,
+  seedQuestionLength: 300
+} as const;
+
+const CATEGORY_NAMES: Record<string, string> = {
+  introduction: 'Introduction',
+  personal: 'Strengths',
+  career: 'Career Goals',
+  motivation: 'Motivation',
+  experience: 'Experience',
+  skills: 'Skills',
+  practical: 'Practicalities'
+};
+
+// Reserved for the "any questions for us?" exchange at the end of every interview
+export const CLOSING_CATEGORY = 'closing';
+
+// The closing category is left out; the interviewer wraps up on its own
+export const DEFAULT_INTERVIEW_PLAN: InterviewPlan = {
+  id: 'general',
+  name: 'General Interview',
+  categories: interviewQuestions
+    .filter(question => question.category !== CLOSING_CATEGORY)
+    .reduce<PlanCategory[]>((categories, question) => {
+      const existing = categories.find(category => category.id === question.category);
+      if (existing) {
+        existing.seedQuestions.push(question.question);
+      } else {
+        categories.push({
+          id: question.category,
+          name: CATEGORY_NAMES[question.category] ?? question.category,
+          required: question.category !== 'practical',
+          seedQuestions: [question.question],
+          maxFollowUps: 1
+        });
+      }
+      return categories;
+    }, [])
+};
+
+// Follow-ups on the coding task probe complexity, edge cases and design choices in turn
+export const DEFAULT_TECHNICAL_PLAN: InterviewPlan = {
+  id: 'technical',
+  name: 'Technical Interview',
+  categories: [
+    {
+      id: 'introduction',
+      name: 'Introduction',
+      required: true,
+      seedQuestions: ["Tell me about a technical project you're proud of and the part you played in it."],
+      maxFollowUps: 1
+    },
+    {
+      id: 'coding',
+      name: 'Coding Task',
+      required: true,
+      seedQuestions: [],
+      maxFollowUps: 3,
+      coding: true
+    },
+    {
+      id: 'engineering-practices',
+      name: 'Engineering Practices',
+      required: true,
+      seedQuestions: [
+        'How do you approach code reviews, both giving and receiving feedback?',
+        'Tell me about a production incident you helped resolve.'
+      ],
+      maxFollowUps: 1
+    },
+    {
+      id: 'system-design',
+      name: 'System Design',
+      required: false,
+      seedQuestions: [
+        'How would you design a service that shortens URLs?',
+        'How would you design a rate limiter for a public API?'
+      ],
+      maxFollowUps: 1
+    }
+  ]
+};
+
+export const getDefaultPlan = (interviewType: string): InterviewPlan => {
+  return interviewType === 'technical' ? DEFAULT_TECHNICAL_PLAN : DEFAULT_INTERVIEW_PLAN;
+};
+
+export class PlanValidationError extends StructuredOutputError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanValidationError';
+  }
+}
+
+export const validatePlan = (value: unknown): InterviewPlan => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string' || !Array.isArray(value.categories)) {
+    throw new PlanValidationError('Plan must have an "id", a "name" and "categories"');
+  }
+
+  if (value.categories.length === 0 || value.categories.length > PLAN_LIMITS.categories) {
+    throw new PlanValidationError(`Plan must have 1 to ${PLAN_LIMITS.categories} categories`);
+  }
+
+  const categories = value.categories.map((category): PlanCategory => {
+    if (
+      !isRecord(category) ||
+      typeof category.id !== 'string' || !/^[a-z0-9-]{1,40}$/.test(category.id) ||
+      typeof category.name !== 'string' || category.name.length > 80 ||
+      typeof category.required !== 'boolean'
+    ) {
+      throw new PlanValidationError('Plan categories need an id, a name and "required"');
+    }
+    if (category.id === CLOSING_CATEGORY) {
+      throw new PlanValidationError(`"${CLOSING_CATEGORY}" is reserved for the end of the interview`);
+    }
+
+    const { seedQuestions, maxFollowUps, coding } = category;
+    if (
+      !Array.isArray(seedQuestions) ||
+      seedQuestions.length > PLAN_LIMITS.seedQuestions ||
+      seedQuestions.some(question => typeof question !== 'string' || question.length > PLAN_LIMITS.seedQuestionLength)
+    ) {
+      throw new PlanValidationError(`Seed questions for "${category.id}" must be a short list of strings`);
+    }
+    if (
+      typeof maxFollowUps !== 'number' ||
+      !Number.isInteger(maxFollowUps) ||
+      maxFollowUps < 0 ||
+      maxFollowUps > PLAN_LIMITS.maxFollowUps
+    ) {
+      throw new PlanValidationError(`"maxFollowUps" for "${category.id}" must be an integer from 0 to ${PLAN_LIMITS.maxFollowUps}`);
+    }
+
+    if (coding !== undefined && typeof coding !== 'boolean') {
+      throw new PlanValidationError(`"coding" for "${category.id}" must be a boolean`);
+    }
+
+    return {
+      id: category.id,
+      name: category.name,
+      required: category.required,
+      seedQuestions: seedQuestions as string[],
+      maxFollowUps,
+      ...(coding ? { coding } : {})
+    };
+  });
+
+  if (new Set(categories.map(category => category.id)).size !== categories.length) {
+    throw new PlanValidationError('Plan category ids must be unique');
+  }
+
+  return {
+    id: value.id,
+    name: value.name,
+    categories
+  };
+};
+
+/**
+ * Decides which category each question should cover. Stateless: coverage is
+ * read back from the categories recorded on the conversation turns.
+ */
+export class InterviewPlanner {
+  private plan: InterviewPlan;
+
+  constructor(plan: InterviewPlan = DEFAULT_INTERVIEW_PLAN) {
+    this.plan = plan;
+  }
+
+  getCoverage(history: ConversationTurn[]): CategoryCoverage[] {
+    return this.plan.categories.map(category => ({
+      categoryId: category.id,
+      name: category.name,
+      required: category.required,
+      questionsAsked: history.filter(turn => turn.category === category.id).length
+    }));
+  }
+
+  getUncoveredRequired(history: ConversationTurn[]): PlanCategory[] {
+    const asked = new Set(history.map(turn => turn.category));
+    return this.plan.categories.filter(category => category.required && !asked.has(category.id));
+  }
+
+  /**
+   * True when the latest topic can take another follow-up: it is under its
+   * follow-up limit and the remaining questions aren't all needed to reach the
+   * required categories that haven't been asked yet.
+   */
+  canFollowUp(history: ConversationTurn[], questionsRemaining: number): boolean {
+    const current = this.getCurrentCategory(history);
+    if (!current || questionsRemaining <= this.getUncoveredRequired(history).length) {
+      return false;
+    }
+
+    let followUpsAsked = 0;
+    for (let index = history.length - 2; index >= 0 && history[index].category === current.id; index--) {
+      followUpsAsked++;
+    }
+    return followUpsAsked < current.maxFollowUps;
+  }
+
+  /**
+   * Picks the category for the next question: the current one for a follow-up,
+   * otherwise the next unasked category in plan order, switching to required
+   * ones first when questions are running out.
+   */
+  chooseNext(history: ConversationTurn[], questionsRemaining: number, followUp: boolean = false): NextCategory | null {
+    const asked = new Set(history.map(turn => turn.category));
+    const uncoveredRequired = this.getUncoveredRequired(history);
+    const current = this.getCurrentCategory(history);
+
+    if (followUp && current && this.canFollowUp(history, questionsRemaining)) {
+      return { category: current, isFollowUp: true, seedQuestion: null };
+    }
+
+    const next = questionsRemaining > uncoveredRequired.length
+      ? this.plan.categories.find(category => !asked.has(category.id))
+      : uncoveredRequired[0];
+
+    return next
+      ? { category: next, isFollowUp: false, seedQuestion: this.getUnaskedSeed(next, history) }
+      : null;
+  }
+
+  private getCurrentCategory(history: ConversationTurn[]): PlanCategory | undefined {
+    return this.plan.categories.find(category => category.id === history[history.length - 1]?.category);
+  }
+
+  private getUnaskedSeed(category: PlanCategory, history: ConversationTurn[]): string | null {
+    const askedQuestions = new Set(history.map(turn => turn.question));
+    return category.seedQuestions.find(question => !askedQuestions.has(question)) ?? null;
+  }
+}
@@ -0,0 +1,70 @@
+import { INTERVIEW_API_ROUTES, SESSION_HEADER, SessionResponse } from './interview-api';
+
+// The server's answer to the session request: the token, or the failed response
+type SessionResult = string | Response;
+
+let pendingSession: Promise<SessionResult> | null = null;
+
+const requestSession = (): Promise<SessionResult> => {
+  const request = fetch(INTERVIEW_API_ROUTES.session, { method: 'POST' }).then(async response => {
+    if (!response.ok) {
+      return response;
+    }
+    const body = await response.json() as SessionResponse;
+    return body.sessionId;
+  });
+
+  // A failure isn't cached, so the next request asks again
+  request.then(
+    result => {
+      if (result instanceof Response && pendingSession === request) {
+        pendingSession = null;
+      }
+    },
+    () => {
+      if (pendingSession === request) {
+        pendingSession = null;
+      }
+    }
+  );
+  return request;
+};
+
+const getSession = (): Promise<SessionResult> => {
+  if (!pendingSession) {
+    pendingSession = requestSession();
+  }
+  return pendingSession;
+};
+
+// Starts a fresh server session, e.g. for a new interview
+export const resetInterviewSession = (): void => {
+  pendingSession = null;
+};
+
+/**
+ * fetch for the interview API routes. The session id is issued by the server
+ * and shared by everything on the page; a 401 means it expired or the server
+ * restarted, so it is renewed and the request sent once more.
+ */
+export const fetchWithSession = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  for (let attempt = 0; ; attempt++) {
+    const session = getSession();
+    const result = await session;
+    if (result instanceof Response) {
+      // Each caller reads the error body itself
+      return result.clone();
+    }
+
+    const headers = new Headers(init.headers);
+    headers.set(SESSION_HEADER, result);
+    const response = await fetch(url, { ...init, headers });
+    if (response.status !== 401 || attempt > 0) {
+      return response;
+    }
+    // Only renew once when several requests fail on the same session
+    if (pendingSession === session) {
+      pendingSession = null;
+    }
+  }
+};
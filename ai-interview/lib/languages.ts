@@ -0,0 +1,39 @@
+export type LanguageCode = 'en' | 'es' | 'fr' | 'de';
+
+export interface InterviewLanguage {
+  code: LanguageCode;
+  // English name, used in prompts
+  name: string;
+  // Shown in the language picker
+  nativeName: string;
+  // BCP 47 tag for speech recognition and voice selection
+  locale: string;
+}
+
+export const INTERVIEW_LANGUAGES: Record<LanguageCode, InterviewLanguage> = {
+  en: { code: 'en', name: 'English', nativeName: 'English', locale: 'en-US' },
+  es: { code: 'es', name: 'Spanish', nativeName: 'Español', locale: 'es-ES' },
+  fr: { code: 'fr', name: 'French', nativeName: 'Français', locale: 'fr-FR' },
+  de: { code: 'de', name: 'German', nativeName: 'Deutsch', locale: 'de-DE' }
+};
+
+export const LANGUAGE_CODES = Object.keys(INTERVIEW_LANGUAGES) as LanguageCode[];
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export const isLanguageCode = (value: unknown): value is LanguageCode => {
+  return typeof value === 'string' && LANGUAGE_CODES.includes(value as LanguageCode);
+};
+
+export const getLanguage = (code: string | undefined): InterviewLanguage => {
+  return isLanguageCode(code) ? INTERVIEW_LANGUAGES[code] : INTERVIEW_LANGUAGES[DEFAULT_LANGUAGE];
+};
+
+// For prompts whose output is spoken to the candidate; English prompts need no instruction
+export const describeSpokenLanguage = (code: LanguageCode): string => {
+  if (code === DEFAULT_LANGUAGE) {
+    return '';
+  }
+  const { name } = INTERVIEW_LANGUAGES[code];
+  return `Conduct the interview in ${name}. Write everything the candidate will hear in natural ${name}, even if they answer in another language.`;
+};
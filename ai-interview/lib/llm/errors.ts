@@ -0,0 +1,109 @@
+import { StructuredOutputError } from '../structured-output';
+
+// 'unknown' covers anything we can't attribute, such as a rejected request body
+export type LLMErrorKind = 'auth' | 'rate-limit' | 'network' | 'bad-output' | 'unknown';
+
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: LLMErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  // Rate limits and network problems usually clear up on their own
+  get retryable(): boolean {
+    return this.kind === 'rate-limit' || this.kind === 'network';
+  }
+}
+
+type HeaderSource = { get(name: string): string | null } | Record<string, string | null | undefined>;
+
+const readHeader = (headers: unknown, name: string): string | null => {
+  if (!headers || typeof headers !== 'object') {
+    return null;
+  }
+  if (typeof (headers as { get?: unknown }).get === 'function') {
+    return (headers as { get(name: string): string | null }).get(name);
+  }
+  return (headers as Record<string, string | null | undefined>)[name] ?? null;
+};
+
+/**
+ * Reads how long the server asked us to wait, from retry-after-ms or
+ * retry-after (seconds or an HTTP date).
+ */
+export const parseRetryAfter = (headers: HeaderSource | undefined | null, now: number = Date.now()): number | undefined => {
+  const milliseconds = Number(readHeader(headers, 'retry-after-ms'));
+  if (Number.isFinite(milliseconds) && milliseconds > 0) {
+    return milliseconds;
+  }
+
+  const retryAfter = readHeader(headers, 'retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+const kindForStatus = (status: number): LLMErrorKind => {
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 429) {
+    return 'rate-limit';
+  }
+  if (status === 408 || status >= 500) {
+    return 'network';
+  }
+  return 'unknown';
+};
+
+/**
+ * Maps provider SDK, fetch and validation errors onto one of a few kinds the
+ * interviewer can act on.
+ */
+export const classifyLLMError = (error: unknown): LLMError => {
+  if (error instanceof LLMError) {
+    return error;
+  }
+  if (error instanceof StructuredOutputError || error instanceof SyntaxError) {
+    return new LLMError('bad-output', error.message);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const details = (typeof error === 'object' && error !== null ? error : {}) as {
+    status?: unknown;
+    headers?: unknown;
+    name?: unknown;
+  };
+
+  if (typeof details.status === 'number') {
+    return new LLMError(kindForStatus(details.status), message, {
+      status: details.status,
+      retryAfterMs: parseRetryAfter(details.headers as HeaderSource | undefined)
+    });
+  }
+
+  // fetch and the SDKs report connection problems as TypeErrors or *ConnectionError / AbortError
+  if (
+    error instanceof TypeError ||
+    (typeof details.name === 'string' && /Abort|Timeout|Connection/.test(details.name))
+  ) {
+    return new LLMError('network', message);
+  }
+
+  return new LLMError('unknown', message);
+};
@@ -0,0 +1,75 @@
+import Groq from 'groq-sdk';
+import {
+  DEFAULT_CALL_SETTINGS,
+  LLMCallType,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderOverrides,
+  LLMRequestOptions,
+  mergeProviderConfig,
+  resolveCallSettings
+} from './types';
+
+export const GROQ_DEFAULT_CONFIG: LLMProviderConfig = {
+  defaults: {
+    model: 'llama3-8b-8192',
+    temperature: 0.7,
+    maxTokens: 100
+  },
+  calls: DEFAULT_CALL_SETTINGS
+};
+
+export interface GroqProviderOptions {
+  apiKey: string;
+  dangerouslyAllowBrowser?: boolean;
+  config?: LLMProviderOverrides;
+}
+
+export class GroqProvider implements LLMProvider {
+  readonly name = 'groq';
+  private client: Groq;
+  private config: LLMProviderConfig;
+
+  constructor(options: GroqProviderOptions) {
+    this.client = new Groq({
+      apiKey: options.apiKey,
+      dangerouslyAllowBrowser: options.dangerouslyAllowBrowser ?? false,
+      // Retries and timeouts are handled by ResilientProvider so they can honour retry-after consistently
+      maxRetries: 0
+    });
+    this.config = mergeProviderConfig(GROQ_DEFAULT_CONFIG, options.config);
+  }
+
+  async complete(callType: LLMCallType, messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<string> {
+    const settings = resolveCallSettings(this.config, callType);
+
+    const response = await this.client.chat.completions.create({
+      model: settings.model,
+      messages,
+      max_tokens: settings.maxTokens,
+      temperature: settings.temperature,
+    }, { signal: options.signal });
+
+    return response.choices[0]?.message?.content?.trim() ?? '';
+  }
+
+  async *stream(callType: LLMCallType, messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncIterable<string> {
+    const settings = resolveCallSettings(this.config, callType);
+
+    const stream = await this.client.chat.completions.create({
+      model: settings.model,
+      messages,
+      max_tokens: settings.maxTokens,
+      temperature: settings.temperature,
+      stream: true,
+    }, { signal: options.signal });
+
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) {
+        yield text;
+      }
+    }
+  }
+}
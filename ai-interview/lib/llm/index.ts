@@ -0,0 +1,29 @@
+import { GroqProvider, GroqProviderOptions } from './groq-provider';
+import { OpenAICompatibleProvider, OpenAICompatibleProviderOptions } from './openai-compatible-provider';
+import { LLMScript, ScriptedProvider } from './scripted-provider';
+import { LLMProvider } from './types';
+
+export * from './types';
+export { GroqProvider, GROQ_DEFAULT_CONFIG } from './groq-provider';
+export { OpenAICompatibleProvider } from './openai-compatible-provider';
+export { ScriptedProvider, DEMO_SCRIPT } from './scripted-provider';
+export { LLMError, classifyLLMError, parseRetryAfter } from './errors';
+export type { LLMErrorKind } from './errors';
+export { ResilientProvider, FailureTrackingProvider, DEFAULT_RESILIENCE_CONFIG } from './resilient-provider';
+export type { ResilienceConfig } from './resilient-provider';
+
+export type LLMProviderOptions =
+  | ({ type: 'groq' } & GroqProviderOptions)
+  | ({ type: 'openai-compatible' } & OpenAICompatibleProviderOptions)
+  | { type: 'scripted'; script?: LLMScript };
+
+export const createLLMProvider = (options: LLMProviderOptions): LLMProvider => {
+  switch (options.type) {
+    case 'groq':
+      return new GroqProvider(options);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(options);
+    case 'scripted':
+      return new ScriptedProvider(options.script);
+  }
+};
@@ -0,0 +1,140 @@
+import { LLMError } from './errors';
+import {
+  DEFAULT_CALL_SETTINGS,
+  LLMCallType,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMRequestOptions,
+  mergeProviderConfig,
+  resolveCallSettings
+} from './types';
+
+export interface OpenAICompatibleProviderOptions {
+  // e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp
+  baseURL: string;
+  apiKey?: string;
+  config: Partial<LLMProviderConfig> & Pick<LLMProviderConfig, 'defaults'>;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+    };
+  }>;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  private baseURL: string;
+  private apiKey?: string;
+  private config: LLMProviderConfig;
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    this.baseURL = options.baseURL.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.config = mergeProviderConfig(
+      { defaults: options.config.defaults, calls: DEFAULT_CALL_SETTINGS },
+      options.config
+    );
+  }
+
+  async complete(callType: LLMCallType, messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<string> {
+    const response = await this.request(callType, messages, false, options.signal);
+    const data = await response.json() as ChatCompletionResponse;
+    return data.choices?.[0]?.message?.content?.trim() ?? '';
+  }
+
+  async *stream(callType: LLMCallType, messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncIterable<string> {
+    const response = await this.request(callType, messages, true, options.signal);
+    if (!response.body) {
+      throw new LLMError('bad-output', `${this.name} returned an empty stream`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        // Server-sent events: each payload line looks like "data: {...}"
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) {
+            continue;
+          }
+
+          const payload = trimmed.slice('data:'.length).trim();
+          if (payload === '[DONE]') {
+            return;
+          }
+
+          const chunk = JSON.parse(payload) as ChatCompletionChunk;
+          const text = chunk.choices?.[0]?.delta?.content;
+          if (text) {
+            yield text;
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  private async request(
+    callType: LLMCallType,
+    messages: LLMMessage[],
+    stream: boolean,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const settings = resolveCallSettings(this.config, callType);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: settings.model,
+        messages,
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature,
+        stream
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      // Classified by status; headers carry retry-after for rate limits
+      throw Object.assign(new Error(`${this.name} request failed with status ${response.status}`), {
+        status: response.status,
+        headers: response.headers
+      });
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,208 @@
+import { classifyLLMError, LLMError } from './errors';
+import { LLMCallType, LLMMessage, LLMProvider, LLMRequestOptions } from './types';
+
+export interface ResilienceConfig {
+  // Per attempt; for streams, the longest wait for the next chunk
+  timeoutMs: number;
+  callTimeouts?: Partial<Record<LLMCallType, number>>;
+  maxRetries: number;
+  callRetries?: Partial<Record<LLMCallType, number>>;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // A retry-after longer than this fails fast instead of stalling the interview
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RESILIENCE_CONFIG: ResilienceConfig = {
+  timeoutMs: 15000,
+  callTimeouts: {
+    evaluation: 30000,
+    report: 45000,
+    documentBrief: 30000,
+    // The candidate is waiting on these; a late answer is no use, so give up
+    // about when the longest end-of-turn hold-off would have run out
+    endOfTurn: 4000,
+    intent: 4000
+  },
+  maxRetries: 2,
+  callRetries: {
+    endOfTurn: 0,
+    intent: 0
+  },
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 10000
+};
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rejects on abort even if the provider ignores its signal
+const abortable = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+  if (signal.aborted) {
+    return Promise.reject(new DOMException('The operation was aborted', 'AbortError'));
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('The operation was aborted', 'AbortError'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Wraps a provider with per-attempt timeouts and retries. Failures come out as
+ * an LLMError so callers can tell a bad key from a rate limit or an outage.
+ */
+export class ResilientProvider implements LLMProvider {
+  readonly name: string;
+  private provider: LLMProvider;
+  private config: ResilienceConfig;
+
+  constructor(provider: LLMProvider, config: Partial<ResilienceConfig> = {}) {
+    this.provider = provider;
+    this.name = provider.name;
+    this.config = { ...DEFAULT_RESILIENCE_CONFIG, ...config };
+  }
+
+  async complete(callType: LLMCallType, messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<string> {
+    for (let attempt = 0; ; attempt++) {
+      const attemptSignal = this.startAttempt(callType, options.signal);
+      try {
+        return await abortable(
+          this.provider.complete(callType, messages, { signal: attemptSignal.signal }),
+          attemptSignal.signal
+        );
+      } catch (error) {
+        const llmError = attemptSignal.toError(error);
+        if (options.signal?.aborted) {
+          throw llmError;
+        }
+        await this.waitBeforeRetry(callType, llmError, attempt);
+      } finally {
+        attemptSignal.clear();
+      }
+    }
+  }
+
+  // Only retried before the first chunk; once text has been yielded the caller owns the partial output
+  async *stream(callType: LLMCallType, messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncIterable<string> {
+    for (let attempt = 0; ; attempt++) {
+      const attemptSignal = this.startAttempt(callType, options.signal);
+      let yielded = false;
+      try {
+        const iterator = this.provider.stream(callType, messages, { signal: attemptSignal.signal })[Symbol.asyncIterator]();
+        while (true) {
+          const result = await abortable(iterator.next(), attemptSignal.signal);
+          if (result.done) {
+            return;
+          }
+          attemptSignal.restart();
+          yielded = true;
+          yield result.value;
+        }
+      } catch (error) {
+        const llmError = attemptSignal.toError(error);
+        if (yielded || options.signal?.aborted) {
+          throw llmError;
+        }
+        await this.waitBeforeRetry(callType, llmError, attempt);
+      } finally {
+        attemptSignal.clear();
+      }
+    }
+  }
+
+  private getTimeout(callType: LLMCallType): number {
+    return this.config.callTimeouts?.[callType] ?? this.config.timeoutMs;
+  }
+
+  private getMaxRetries(callType: LLMCallType): number {
+    return this.config.callRetries?.[callType] ?? this.config.maxRetries;
+  }
+
+  // Throws the error when it can't be retried, otherwise backs off
+  private async waitBeforeRetry(callType: LLMCallType, error: LLMError, attempt: number): Promise<void> {
+    const maxRetries = this.getMaxRetries(callType);
+    if (!error.retryable || attempt >= maxRetries) {
+      throw error;
+    }
+    if (error.retryAfterMs !== undefined && error.retryAfterMs > this.config.maxRetryAfterMs) {
+      throw error;
+    }
+
+    const backoff = Math.min(this.config.maxDelayMs, this.config.baseDelayMs * 2 ** attempt);
+    // Jitter keeps concurrent calls from retrying in lockstep
+    const delay = error.retryAfterMs ?? backoff * (0.8 + Math.random() * 0.4);
+
+    console.warn(`⏳ ${callType} call failed (${error.kind}: ${error.message}), retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms`);
+    await sleep(delay);
+  }
+
+  private startAttempt(callType: LLMCallType, outerSignal?: AbortSignal) {
+    const controller = new AbortController();
+    const timeoutMs = this.getTimeout(callType);
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+    };
+    const abortFromOuter = () => controller.abort();
+
+    outerSignal?.addEventListener('abort', abortFromOuter);
+    restart();
+
+    return {
+      signal: controller.signal,
+      restart,
+      clear: () => {
+        clearTimeout(timer);
+        outerSignal?.removeEventListener('abort', abortFromOuter);
+      },
+      toError: (error: unknown): LLMError => {
+        return timedOut
+          ? new LLMError('network', `${callType} call timed out after ${timeoutMs}ms`)
+          : classifyLLMError(error);
+      }
+    };
+  }
+}
+
+/**
+ * Reports every failed call to a listener before re-throwing it. Lets the
+ * interviewer notice when it is about to fall back to built-in text.
+ */
+export class FailureTrackingProvider implements LLMProvider {
+  readonly name: string;
+  private provider: LLMProvider;
+  private onFailure: (callType: LLMCallType, error: LLMError) => void;
+
+  constructor(provider: LLMProvider, onFailure: (callType: LLMCallType, error: LLMError) => void) {
+    this.provider = provider;
+    this.name = provider.name;
+    this.onFailure = onFailure;
+  }
+
+  async complete(callType: LLMCallType, messages: LLMMessage[], options?: LLMRequestOptions): Promise<string> {
+    try {
+      return await this.provider.complete(callType, messages, options);
+    } catch (error) {
+      const llmError = classifyLLMError(error);
+      this.onFailure(callType, llmError);
+      throw llmError;
+    }
+  }
+
+  async *stream(callType: LLMCallType, messages: LLMMessage[], options?: LLMRequestOptions): AsyncIterable<string> {
+    try {
+      yield* this.provider.stream(callType, messages, options);
+    } catch (error) {
+      const llmError = classifyLLMError(error);
+      this.onFailure(callType, llmError);
+      throw llmError;
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { LLMCallType, LLMProvider } from './types';
+
+export type LLMScript = Partial<Record<LLMCallType, string[]>>;
+
+// Covers every call type, so the demo never falls through to an empty response
+export const DEMO_SCRIPT: Required<LLMScript> = {
+  firstQuestion: [
+    "Tell me a little about yourself and what brings you here today."
+  ],
+  nextQuestion: [
+    "What part of your recent work are you most proud of, and why?",
+    "Can you walk me through a difficult problem you solved recently?",
+    "How do you approach disagreements with teammates?",
+    "What kind of environment helps you do your best work?",
+    "Tell me about a time you had to learn something quickly.",
+    "Where would you like your career to be in a few years?"
+  ],
+  appreciation: [
+    "Thank you, that's helpful context.",
+    "That's a great example.",
+    "I appreciate the detail there."
+  ],
+  turn: [
+    "Thank you, that's helpful context.\nQUESTION: What part of your recent work are you most proud of, and why?",
+    "That's a great example.\nQUESTION: Can you walk me through a difficult problem you solved recently?",
+    "I appreciate the detail there.\nQUESTION: How do you approach disagreements with teammates?",
+    "That makes sense.\nQUESTION: What kind of environment helps you do your best work?",
+    "Thanks for walking me through that.\nQUESTION: Tell me about a time you had to learn something quickly.",
+    "Great, thank you.\nQUESTION: Where would you like your career to be in a few years?"
+  ],
+  evaluation: [
+    JSON.stringify({
+      scores: [
+        { competencyId: 'communication', score: 3, evidence: [], rationale: 'Scripted demo evaluation.' },
+        { competencyId: 'problem-solving', score: null, evidence: [], rationale: 'Scripted demo evaluation.' },
+        { competencyId: 'role-fit', score: 3, evidence: [], rationale: 'Scripted demo evaluation.' }
+      ]
+    })
+  ],
+  report: [
+    JSON.stringify({
+      summary: 'Scripted demo report. The candidate completed the interview and gave consistent answers.',
+      strengths: ['Clear communication'],
+      concerns: ['Limited evidence of problem solving'],
+      notableQuotes: [],
+      recommendation: { decision: 'hire', confidence: 0.5, rationale: 'Scripted demo recommendation.' }
+    })
+  ],
+  followUpDecision: [
+    JSON.stringify({ assessment: 'vague', reason: 'Scripted demo: the answer had no concrete example.', focus: 'a specific example' }),
+    JSON.stringify({ assessment: 'complete', reason: 'Scripted demo: the answer was complete.', focus: '' })
+  ],
+  summary: [
+    "- Scripted demo summary: the candidate described their background and recent work."
+  ],
+  compliance: [
+    JSON.stringify({ allowed: true, topic: '', reason: 'Scripted demo: the question is job-related.' })
+  ],
+  closing: [
+    "Good question. The hiring team will follow up with the details."
+  ],
+  intent: [
+    JSON.stringify({ intent: 'answer' })
+  ],
+  rephrase: [
+    "To put it another way, could you tell me a bit more about your experience with that?"
+  ],
+  endOfTurn: [
+    JSON.stringify({ complete: true })
+  ],
+  documentBrief: [
+    JSON.stringify({
+      role: 'Software Engineer',
+      requirements: ['Builds and ships web features', 'Communicates clearly with the team'],
+      resumeHighlights: ['Led a migration to TypeScript']
+    })
+  ]
+};
+
+/**
+ * Deterministic provider for demos and tests. Responses are returned in order
+ * per call type and the last one repeats once the script runs out.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted';
+  private script: LLMScript;
+  private positions: Partial<Record<LLMCallType, number>> = {};
+
+  constructor(script: LLMScript = DEMO_SCRIPT) {
+    this.script = script;
+  }
+
+  async complete(callType: LLMCallType): Promise<string> {
+    const responses = this.script[callType] ?? [];
+    if (responses.length === 0) {
+      return '';
+    }
+
+    const position = this.positions[callType] ?? 0;
+    this.positions[callType] = position + 1;
+    return responses[Math.min(position, responses.length - 1)];
+  }
+
+  async *stream(callType: LLMCallType): AsyncIterable<string> {
+    const response = await this.complete(callType);
+
+    // Emit word by word so streaming consumers behave as they would live
+    for (const piece of response.match(/\S+\s*/g) ?? []) {
+      yield piece;
+    }
+  }
+
+  reset(): void {
+    this.positions = {};
+  }
+}
@@ -0,0 +1,78 @@
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+// Each kind of request the interviewer makes can be tuned independently
+export type LLMCallType = 'firstQuestion' | 'nextQuestion' | 'appreciation' | 'turn' | 'evaluation' | 'report' | 'documentBrief' | 'closing' | 'followUpDecision' | 'summary' | 'compliance' | 'intent' | 'rephrase' | 'endOfTurn';
+
+export interface LLMCallSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LLMProviderConfig {
+  defaults: LLMCallSettings;
+  calls?: Partial<Record<LLMCallType, Partial<LLMCallSettings>>>;
+}
+
+export interface LLMProviderOverrides {
+  defaults?: Partial<LLMCallSettings>;
+  calls?: LLMProviderConfig['calls'];
+}
+
+export interface LLMRequestOptions {
+  // Aborts the underlying HTTP request, used for timeouts
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(callType: LLMCallType, messages: LLMMessage[], options?: LLMRequestOptions): Promise<string>;
+  // Yields text deltas as the model produces them
+  stream(callType: LLMCallType, messages: LLMMessage[], options?: LLMRequestOptions): AsyncIterable<string>;
+}
+
+// Per-call tweaks every provider starts from; a combined turn carries both an
+// acknowledgment and a question so it needs more room, and scoring should be
+// as repeatable as possible
+export const DEFAULT_CALL_SETTINGS: LLMProviderConfig['calls'] = {
+  appreciation: { maxTokens: 50 },
+  turn: { maxTokens: 150 },
+  evaluation: { maxTokens: 600, temperature: 0.2 },
+  report: { maxTokens: 900, temperature: 0.3 },
+  documentBrief: { maxTokens: 500, temperature: 0.2 },
+  closing: { maxTokens: 150 },
+  followUpDecision: { maxTokens: 120, temperature: 0 },
+  summary: { maxTokens: 500, temperature: 0.2 },
+  compliance: { maxTokens: 100, temperature: 0 },
+  intent: { maxTokens: 20, temperature: 0 },
+  endOfTurn: { maxTokens: 15, temperature: 0 }
+};
+
+export const resolveCallSettings = (config: LLMProviderConfig, callType: LLMCallType): LLMCallSettings => {
+  return {
+    ...config.defaults,
+    ...config.calls?.[callType]
+  };
+};
+
+export const mergeProviderConfig = (
+  base: LLMProviderConfig,
+  overrides?: LLMProviderOverrides
+): LLMProviderConfig => {
+  const calls: LLMProviderConfig['calls'] = { ...base.calls };
+
+  for (const [callType, settings] of Object.entries(overrides?.calls ?? {})) {
+    const key = callType as LLMCallType;
+    calls[key] = { ...calls[key], ...settings };
+  }
+
+  return {
+    defaults: { ...base.defaults, ...overrides?.defaults },
+    calls
+  };
+};
@@ -0,0 +1,231 @@
+import { frameLevel } from './barge-in';
+import { foldText } from './text-matching';
+
+/**
+ * VAD settings the speech hooks run with. The defaults suit a quiet room and
+ * a clear speaker; calibration replaces them per candidate.
+ */
+export interface VadSettings {
+  // Speech probability that starts a speech segment
+  positiveSpeechThreshold: number;
+  // Probability below which a frame counts as silence
+  negativeSpeechThreshold: number;
+  // Silent frames allowed inside a segment before it ends
+  redemptionFrames: number;
+  // Base hold-off before an answer is taken as finished
+  silenceAfterSpeechTimeout: number;
+}
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  positiveSpeechThreshold: 0.8,
+  negativeSpeechThreshold: 0.3,
+  redemptionFrames: 8,
+  silenceAfterSpeechTimeout: 1800
+};
+
+export type CalibrationPhase = 'noise' | 'reading';
+
+export type CalibrationWarning = 'no-input' | 'low-input' | 'clipping' | 'noisy-room' | 'stt-failed' | 'stt-mismatch';
+
+export interface MicCalibration {
+  vad: VadSettings;
+  // Median RMS levels of the quiet phase and of the candidate's speech
+  noiseFloor: number;
+  speechLevel: number | null;
+  snrDb: number | null;
+  // Share of read-aloud samples at full scale
+  clippedRatio: number;
+  // What the speech-to-text backend heard of the sentence
+  heard: string;
+  warnings: CalibrationWarning[];
+  calibratedAt: string;
+}
+
+export const CALIBRATION_LIMITS = {
+  noiseMs: 3000,
+  maxReadingMs: 12000,
+  // How long to wait for a transcript after reading ends
+  transcriptWaitMs: 3000,
+  // MicVAD frames are 1536 samples at 16 kHz
+  frameMs: 96,
+  // Probability from which a read-aloud frame counts as speech
+  speechProbability: 0.5,
+  minSpeechFrames: 5,
+  minSpeechLevel: 0.01,
+  clipLevel: 0.99,
+  maxClippedRatio: 0.001,
+  minSnrDb: 12,
+  // Share of the sentence's words the recognizer has to get
+  minWordMatch: 0.5
+} as const;
+
+// Bounds the derived settings stay within, whatever the measurements say
+const VAD_BOUNDS = {
+  minPositive: 0.5,
+  maxPositive: 0.9,
+  // Above the speech probability of the loudest noise frames
+  noiseMargin: 0.3,
+  // Below the candidate's typical speech probability
+  speechMargin: 0.05,
+  // Gap between the start and end thresholds, as in the defaults
+  thresholdGap: 0.5,
+  minNegative: 0.15,
+  maxRedemptionFrames: 16,
+  minSilenceMs: 1500,
+  maxSilenceMs: 3000,
+  // Reading pauses up to this long need no extra hold-off
+  typicalPauseMs: 400
+} as const;
+
+interface CalibrationFrame {
+  probability: number;
+  level: number;
+  clipped: number;
+  samples: number;
+}
+
+const clamp = (value: number, min: number, max: number): number => {
+  return Math.min(max, Math.max(min, value));
+};
+
+const percentile = (values: number[], fraction: number): number | null => {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.round((sorted.length - 1) * fraction)];
+};
+
+const normalizeWords = (text: string): string[] => {
+  return foldText(text)
+    .replace(/[^\p{L}\p{N}'\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+};
+
+// Share of the sentence's words that were heard, in any order
+export const matchSentence = (expected: string, heard: string): number => {
+  const expectedWords = normalizeWords(expected);
+  if (expectedWords.length === 0) {
+    return 1;
+  }
+  const heardWords = new Set(normalizeWords(heard));
+  return expectedWords.filter(word => heardWords.has(word)).length / expectedWords.length;
+};
+
+// Silent stretches between the first and last speech frame, in ms
+const findPauses = (frames: CalibrationFrame[], negativeThreshold: number): number[] => {
+  const first = frames.findIndex(frame => frame.probability >= CALIBRATION_LIMITS.speechProbability);
+  const last = frames.findLastIndex(frame => frame.probability >= CALIBRATION_LIMITS.speechProbability);
+  const pauses: number[] = [];
+  let run = 0;
+  for (let i = first + 1; first >= 0 && i <= last; i++) {
+    if (frames[i].probability < negativeThreshold) {
+      run += 1;
+    } else if (run > 0) {
+      pauses.push(run * CALIBRATION_LIMITS.frameMs);
+      run = 0;
+    }
+  }
+  return pauses;
+};
+
+/**
+ * Collects VAD frames during the two calibration phases: a few seconds of
+ * quiet for the noise floor, then the candidate reading a sentence aloud.
+ */
+export class CalibrationRecorder {
+  private frames: Record<CalibrationPhase, CalibrationFrame[]> = { noise: [], reading: [] };
+
+  addFrame(phase: CalibrationPhase, probability: number, frame: Float32Array): void {
+    let clipped = 0;
+    for (const sample of frame) {
+      if (Math.abs(sample) >= CALIBRATION_LIMITS.clipLevel) {
+        clipped += 1;
+      }
+    }
+    this.frames[phase].push({ probability, level: frameLevel(frame), clipped, samples: frame.length });
+  }
+
+  reset(): void {
+    this.frames = { noise: [], reading: [] };
+  }
+
+  /**
+   * Derives VAD settings from the measurements and flags anything likely to
+   * spoil the interview. Settings fall back to the defaults when there was no
+   * speech to measure.
+   */
+  analyze(sentence: string, heard: string, sttError: string | null): MicCalibration {
+    const { noise, reading } = this.frames;
+    const speech = reading.filter(frame => frame.probability >= CALIBRATION_LIMITS.speechProbability);
+    const hasSpeech = speech.length >= CALIBRATION_LIMITS.minSpeechFrames;
+
+    const noiseFloor = percentile(noise.map(frame => frame.level), 0.5) ?? 0;
+    const noiseProbability = percentile(noise.map(frame => frame.probability), 0.95) ?? 0;
+    const speechLevel = hasSpeech ? percentile(speech.map(frame => frame.level), 0.5) : null;
+    const speechProbability = hasSpeech ? percentile(speech.map(frame => frame.probability), 0.5) : null;
+    const snrDb = speechLevel !== null && noiseFloor > 0 ? 20 * Math.log10(speechLevel / noiseFloor) : null;
+    const totalSamples = reading.reduce((sum, frame) => sum + frame.samples, 0);
+    const clippedRatio = totalSamples > 0 ? reading.reduce((sum, frame) => sum + frame.clipped, 0) / totalSamples : 0;
+
+    const vad = { ...DEFAULT_VAD_SETTINGS };
+    if (hasSpeech && speechProbability !== null) {
+      // Raised above the room's noise, then lowered if that would miss the candidate's speech
+      const positive = Math.min(
+        clamp(
+          Math.max(DEFAULT_VAD_SETTINGS.positiveSpeechThreshold, noiseProbability + VAD_BOUNDS.noiseMargin),
+          VAD_BOUNDS.minPositive,
+          VAD_BOUNDS.maxPositive
+        ),
+        Math.max(VAD_BOUNDS.minPositive, speechProbability - VAD_BOUNDS.speechMargin)
+      );
+      vad.positiveSpeechThreshold = Number(positive.toFixed(2));
+      vad.negativeSpeechThreshold = Number(Math.max(VAD_BOUNDS.minNegative, positive - VAD_BOUNDS.thresholdGap).toFixed(2));
+
+      // Slow, deliberate readers get longer gaps inside a segment and a longer hold-off
+      const longPause = percentile(findPauses(reading, vad.negativeSpeechThreshold), 0.9) ?? 0;
+      vad.redemptionFrames = clamp(
+        Math.ceil(longPause * 1.5 / CALIBRATION_LIMITS.frameMs),
+        DEFAULT_VAD_SETTINGS.redemptionFrames,
+        VAD_BOUNDS.maxRedemptionFrames
+      );
+      vad.silenceAfterSpeechTimeout = Math.round(clamp(
+        DEFAULT_VAD_SETTINGS.silenceAfterSpeechTimeout + Math.max(0, longPause - VAD_BOUNDS.typicalPauseMs) * 2,
+        VAD_BOUNDS.minSilenceMs,
+        VAD_BOUNDS.maxSilenceMs
+      ));
+    }
+
+    const warnings: CalibrationWarning[] = [];
+    if (!hasSpeech) {
+      warnings.push('no-input');
+    } else {
+      if (speechLevel !== null && speechLevel < CALIBRATION_LIMITS.minSpeechLevel) {
+        warnings.push('low-input');
+      }
+      if (sttError || !heard.trim()) {
+        warnings.push('stt-failed');
+      } else if (matchSentence(sentence, heard) < CALIBRATION_LIMITS.minWordMatch) {
+        warnings.push('stt-mismatch');
+      }
+    }
+    if (clippedRatio > CALIBRATION_LIMITS.maxClippedRatio) {
+      warnings.push('clipping');
+    }
+    if ((snrDb !== null && snrDb < CALIBRATION_LIMITS.minSnrDb) || noiseProbability + VAD_BOUNDS.noiseMargin > VAD_BOUNDS.maxPositive) {
+      warnings.push('noisy-room');
+    }
+
+    return {
+      vad,
+      noiseFloor,
+      speechLevel,
+      snrDb: snrDb !== null ? Number(snrDb.toFixed(1)) : null,
+      clippedRatio,
+      heard: heard.trim(),
+      warnings,
+      calibratedAt: new Date().toISOString()
+    };
+  }
+}
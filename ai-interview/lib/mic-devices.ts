@@ -0,0 +1,38 @@
+/**
+ * A microphone the candidate can pick. Labels are empty until the page has
+ * been allowed to use the microphone once.
+ */
+export interface MicDevice {
+  id: string;
+  label: string;
+}
+
+// Chrome lists these as extra entries that alias a real device
+const ALIAS_DEVICE_IDS = ['default', 'communications'];
+
+// Echo cancellation keeps the interviewer's voice out of the mic, so the VAD can run while it talks
+const MIC_CONSTRAINTS: MediaTrackConstraints = {
+  channelCount: 1,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true
+};
+
+// An empty id means the system default
+export const getMicConstraints = (deviceId?: string): MediaTrackConstraints => {
+  return deviceId ? { ...MIC_CONSTRAINTS, deviceId: { exact: deviceId } } : MIC_CONSTRAINTS;
+};
+
+export const listMicDevices = async (): Promise<MicDevice[]> => {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'audioinput' && device.deviceId && !ALIAS_DEVICE_IDS.includes(device.deviceId))
+    .map(device => ({ id: device.deviceId, label: device.label }));
+};
+
+export const sameMicDevices = (a: MicDevice[], b: MicDevice[]): boolean => {
+  return a.length === b.length && a.every(device => b.some(other => other.id === device.id));
+};
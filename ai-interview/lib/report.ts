@@ -0,0 +1,295 @@
+import { ConversationTurn } from './ai-interviewer';
+import { containsQuote, DEFAULT_RUBRIC, Rubric } from './evaluation';
+import { LLMMessage, LLMProvider } from './llm';
+import { CANDIDATE_TEXT_RULE, fenceCandidateText } from './prompt-safety';
+import { extractJson, isRecord, StructuredOutputError } from './structured-output';
+
+export type HiringDecision = 'hire' | 'no-hire';
+
+export interface ReportCompetencyScore {
+  competencyId: string;
+  name: string;
+  // Average of the per-answer scores, null if no answer gave evidence
+  score: number | null;
+  scoredAnswers: number;
+}
+
+export interface NotableQuote {
+  quote: string;
+  questionNumber: number;
+  context: string;
+}
+
+export interface CandidateReport {
+  summary: string;
+  strengths: string[];
+  concerns: string[];
+  competencyScores: ReportCompetencyScore[];
+  scale: Rubric['scale'];
+  notableQuotes: NotableQuote[];
+  recommendation: {
+    decision: HiringDecision;
+    // 0 to 1
+    confidence: number;
+    rationale: string;
+  };
+  questionCount: number;
+  // False when the model was unavailable and the report was built from scores alone
+  aiGenerated: boolean;
+  generatedAt: string;
+}
+
+export class ReportValidationError extends StructuredOutputError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportValidationError';
+  }
+}
+
+const readStringList = (value: unknown, field: string, maxItems: number): string[] => {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new ReportValidationError(`"${field}" must be a list of strings`);
+  }
+  return (value as string[]).map(item => item.trim()).filter(Boolean).slice(0, maxItems);
+};
+
+/**
+ * Averages the per-answer evaluations for each competency. These numbers come
+ * straight from the validated evaluations, never from the report prompt; on
+ * the server, evaluations without a valid signature were dropped on the way in.
+ */
+export const aggregateCompetencyScores = (
+  history: ConversationTurn[],
+  rubric: Rubric
+): ReportCompetencyScore[] => {
+  return rubric.competencies.map(competency => {
+    const scores = history
+      .map(turn => turn.evaluation?.scores.find(score => score.competencyId === competency.id)?.score)
+      .filter((score): score is number => typeof score === 'number');
+
+    return {
+      competencyId: competency.id,
+      name: competency.name,
+      score: scores.length > 0
+        ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10
+        : null,
+      scoredAnswers: scores.length
+    };
+  });
+};
+
+export class ReportGenerator {
+  private provider: LLMProvider | null;
+  private rubric: Rubric;
+
+  constructor(provider: LLMProvider | null, rubric: Rubric = DEFAULT_RUBRIC) {
+    this.provider = provider;
+    this.rubric = rubric;
+  }
+
+  async generate(history: ConversationTurn[]): Promise<CandidateReport> {
+    const competencyScores = aggregateCompetencyScores(history, this.rubric);
+
+    if (!this.provider) {
+      console.warn('LLM provider not configured, building report from scores only');
+      return this.buildFallbackReport(history, competencyScores);
+    }
+
+    const messages = this.buildMessages(history, competencyScores);
+
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      let response = '';
+      try {
+        response = await this.provider.complete('report', messages);
+        return this.parseReport(response, history, competencyScores);
+      } catch (error) {
+        if (!(error instanceof StructuredOutputError)) {
+          console.error('Error generating report:', error);
+          break;
+        }
+
+        console.warn(`Invalid report (attempt ${attempt}/2):`, error.message);
+        messages.push(
+          { role: 'assistant', content: response },
+          { role: 'user', content: `That response was invalid: ${error.message}. Reply with corrected JSON only.` }
+        );
+      }
+    }
+
+    return this.buildFallbackReport(history, competencyScores);
+  }
+
+  private parseReport(
+    response: string,
+    history: ConversationTurn[],
+    competencyScores: ReportCompetencyScore[]
+  ): CandidateReport {
+    const parsed = extractJson(response);
+    if (!isRecord(parsed)) {
+      throw new ReportValidationError('Report must be a JSON object');
+    }
+
+    if (typeof parsed.summary !== 'string' || !parsed.summary.trim()) {
+      throw new ReportValidationError('"summary" must be a non-empty string');
+    }
+
+    const recommendation = parsed.recommendation;
+    if (
+      !isRecord(recommendation) ||
+      (recommendation.decision !== 'hire' && recommendation.decision !== 'no-hire') ||
+      typeof recommendation.confidence !== 'number' ||
+      recommendation.confidence < 0 ||
+      recommendation.confidence > 1 ||
+      typeof recommendation.rationale !== 'string'
+    ) {
+      throw new ReportValidationError(
+        '"recommendation" needs a decision of "hire" or "no-hire", a confidence from 0 to 1 and a rationale'
+      );
+    }
+
+    if (!Array.isArray(parsed.notableQuotes)) {
+      throw new ReportValidationError('"notableQuotes" must be a list');
+    }
+
+    // Only keep quotes that really appear in the answer they are attributed to
+    const notableQuotes = parsed.notableQuotes
+      .filter(isRecord)
+      .map(item => {
+        const questionNumber = typeof item.questionNumber === 'number' ? item.questionNumber : -1;
+        const turn = history[questionNumber - 1];
+        return turn && typeof item.quote === 'string' && containsQuote(turn.answer, item.quote)
+          ? { quote: item.quote.trim(), questionNumber, context: turn.question }
+          : null;
+      })
+      .filter((quote): quote is NotableQuote => quote !== null)
+      .slice(0, 5);
+
+    return {
+      summary: parsed.summary.trim(),
+      strengths: readStringList(parsed.strengths, 'strengths', 6),
+      concerns: readStringList(parsed.concerns, 'concerns', 6),
+      competencyScores,
+      scale: this.rubric.scale,
+      notableQuotes,
+      recommendation: {
+        decision: recommendation.decision,
+        confidence: Math.round(recommendation.confidence * 100) / 100,
+        rationale: recommendation.rationale.trim()
+      },
+      questionCount: history.length,
+      aiGenerated: true,
+      generatedAt: new Date().toISOString()
+    };
+  }
+
+  private buildFallbackReport(
+    history: ConversationTurn[],
+    competencyScores: ReportCompetencyScore[]
+  ): CandidateReport {
+    const { min, max } = this.rubric.scale;
+    const scored = competencyScores.filter(competency => competency.score !== null);
+    const average = scored.length > 0
+      ? scored.reduce((sum, competency) => sum + (competency.score ?? 0), 0) / scored.length
+      : null;
+    const midpoint = (min + max) / 2;
+
+    return {
+      summary: `The candidate answered ${history.length} questions. An AI summary was not available, so this report is based on the per-answer scores only.`,
+      strengths: scored
+        .filter(competency => (competency.score ?? 0) > midpoint)
+        .map(competency => `${competency.name} scored ${competency.score} of ${max}`),
+      concerns: scored
+        .filter(competency => (competency.score ?? 0) <= midpoint)
+        .map(competency => `${competency.name} scored ${competency.score} of ${max}`),
+      competencyScores,
+      scale: this.rubric.scale,
+      notableQuotes: [],
+      recommendation: {
+        decision: average !== null && average > midpoint ? 'hire' : 'no-hire',
+        // Low confidence: nobody has read the transcript
+        confidence: average === null ? 0 : 0.3,
+        rationale: average === null
+          ? 'No scored answers were available.'
+          : `Average competency score ${average.toFixed(1)} of ${max}.`
+      },
+      questionCount: history.length,
+      aiGenerated: false,
+      generatedAt: new Date().toISOString()
+    };
+  }
+
+  private buildMessages(history: ConversationTurn[], competencyScores: ReportCompetencyScore[]): LLMMessage[] {
+    const { max } = this.rubric.scale;
+    const transcript = history
+      .map((turn, index) => `Q${index + 1}: ${turn.question}\nA${index + 1}:\n${fenceCandidateText(turn.answer)}`)
+      .join('\n\n');
+    const scores = competencyScores
+      .map(competency => `- ${competency.name}: ${competency.score === null ? 'not demonstrated' : `${competency.score} of ${max}`}`)
+      .join('\n');
+
+    const systemPrompt = `You are a senior recruiter writing a hiring report from an interview transcript.
+
+    Rules:
+    - Base every statement on the transcript; do not invent experience
+    - Notable quotes must be copied exactly from the candidate's answers, with the number of the answer they come from
+    - Confidence is a number from 0 to 1 reflecting how much evidence the interview gave
+    - ${CANDIDATE_TEXT_RULE}
+
+    Respond with JSON only, in this shape:
+    {"summary":"<3-4 sentences>","strengths":["..."],"concerns":["..."],"notableQuotes":[{"quote":"<exact quote>","questionNumber":<number>}],"recommendation":{"decision":"hire" or "no-hire","confidence":<0-1>,"rationale":"<why>"}}`;
+
+    return [
+      {
+        role: 'system',
+        content: systemPrompt
+      },
+      {
+        role: 'user',
+        content: `Competency scores from per-answer evaluation:\n${scores}\n\nTranscript:\n${transcript}`
+      }
+    ];
+  }
+}
+
+export const formatReportMarkdown = (report: CandidateReport): string => {
+  const list = (items: string[]) => items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '- None noted';
+  const scoreRows = report.competencyScores
+    .map(competency => `| ${competency.name} | ${competency.score ?? 'n/a'} / ${report.scale.max} | ${competency.scoredAnswers} |`)
+    .join('\n');
+  const quotes = report.notableQuotes.length > 0
+    ? report.notableQuotes.map(quote => `> "${quote.quote}"\n>\n> — answer to Q${quote.questionNumber}: ${quote.context}`).join('\n\n')
+    : '_No notable quotes._';
+
+  return `# Candidate Interview Report
+
+Generated ${new Date(report.generatedAt).toLocaleString()} from ${report.questionCount} answers${report.aiGenerated ? '' : ' (scores only, no AI summary)'}.
+
+## Recommendation
+
+**${report.recommendation.decision === 'hire' ? 'Hire' : 'No hire'}** (confidence ${Math.round(report.recommendation.confidence * 100)}%)
+
+${report.recommendation.rationale}
+
+## Summary
+
+${report.summary}
+
+## Strengths
+
+${list(report.strengths)}
+
+## Concerns
+
+${list(report.concerns)}
+
+## Competency Scores
+
+| Competency | Score | Scored answers |
+|------------|-------|----------------|
+${scoreRows}
+
+## Notable Quotes
+
+${quotes}
+`;
+};
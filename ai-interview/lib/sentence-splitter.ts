@@ -0,0 +1,45 @@
+// Words ending in a period that don't end a sentence
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'vs', 'etc', 'e.g', 'i.e', 'approx']);
+
+const SENTENCE_BOUNDARY = /[.!?]+["')\]]*\s+/g;
+
+/**
+ * Collects streamed text and hands back whole sentences as soon as they are
+ * complete, so each one can be spoken while the rest is still generating.
+ */
+export class SentenceSplitter {
+  private buffer = '';
+
+  push(text: string): string[] {
+    this.buffer += text;
+
+    const sentences: string[] = [];
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    SENTENCE_BOUNDARY.lastIndex = 0;
+    while ((match = SENTENCE_BOUNDARY.exec(this.buffer)) !== null) {
+      const candidate = this.buffer.slice(start, match.index + match[0].length);
+      const lastWord = this.buffer.slice(start, match.index).split(/\s+/).pop()?.toLowerCase() ?? '';
+
+      if (ABBREVIATIONS.has(lastWord)) {
+        continue;
+      }
+
+      const sentence = candidate.trim();
+      if (sentence) {
+        sentences.push(sentence);
+      }
+      start = match.index + match[0].length;
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return sentences;
+  }
+
+  flush(): string[] {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest ? [rest] : [];
+  }
+}
@@ -0,0 +1,30 @@
+import { appendFile } from 'fs/promises';
+import { ComplianceAuditEntry } from '../compliance';
+
+export interface ComplianceAuditRecord extends ComplianceAuditEntry {
+  sessionId: string;
+}
+
+/**
+ * Server-side record of every blocked question. The copy in the interview
+ * context is only for display: the client holds it and could edit it, so the
+ * audit trail is written here as the interviewer blocks each question.
+ */
+export const recordBlockedQuestion = (sessionId: string, entry: ComplianceAuditEntry): void => {
+  const record: ComplianceAuditRecord = { sessionId, ...entry };
+  const line = JSON.stringify(record);
+  console.info(`🧾 Compliance audit: ${line}`);
+
+  // One JSON record per line, appended so earlier entries are never rewritten
+  const path = process.env.COMPLIANCE_AUDIT_LOG;
+  if (path) {
+    appendFile(path, `${line}\n`).catch(error => {
+      console.error('Error writing compliance audit log:', error);
+    });
+  }
+};
+
+// For AIInterviewerOptions.onQuestionBlocked
+export const createComplianceAuditSink = (sessionId: string) => {
+  return (entry: ComplianceAuditEntry): void => recordBlockedQuestion(sessionId, entry);
+};
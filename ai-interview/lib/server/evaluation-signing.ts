@@ -0,0 +1,30 @@
+import { ConversationTurn } from '../ai-interviewer';
+import { Rubric, TurnEvaluation } from '../evaluation';
+import { signValue, verifyValue } from './signing';
+
+// The scores together with what was scored and against which rubric
+const evaluationPayload = (turn: ConversationTurn, evaluation: TurnEvaluation, rubric: Rubric): string => {
+  return JSON.stringify({
+    question: turn.question,
+    answer: turn.answer,
+    code: turn.code?.code ?? null,
+    rubric,
+    scores: evaluation.scores,
+    evaluatedAt: evaluation.evaluatedAt
+  });
+};
+
+// For AIInterviewerOptions.signEvaluation
+export const signEvaluation = (turn: ConversationTurn, evaluation: TurnEvaluation, rubric: Rubric): string => {
+  return signValue('evaluation', evaluationPayload(turn, evaluation, rubric));
+};
+
+/**
+ * The browser holds the interview context between requests, so an evaluation
+ * it sends back is only trusted if the server signed exactly these scores for
+ * exactly this turn.
+ */
+export const verifyEvaluation = (turn: ConversationTurn, evaluation: TurnEvaluation, rubric: Rubric): boolean => {
+  return evaluation.signature !== undefined &&
+    verifyValue('evaluation', evaluationPayload(turn, evaluation, rubric), evaluation.signature);
+};
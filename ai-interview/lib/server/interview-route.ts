@@ -0,0 +1,149 @@
+import { InterviewApiErrorBody, SESSION_HEADER, SessionResponse } from '../interview-api';
+import { RateLimiter } from './rate-limit';
+import { issueSessionToken, verifySessionToken } from './session';
+import { RequestValidationError } from './validation';
+
+// A session is one candidate's interview; the client limit stops a single
+// caller from spreading requests over many sessions.
+const sessionLimiter = new RateLimiter({ limit: 20, windowMs: 60_000 });
+const clientLimiter = new RateLimiter({ limit: 60, windowMs: 60_000 });
+// New sessions are only needed at the start of an interview or after a restart
+const sessionIssueLimiter = new RateLimiter({ limit: 10, windowMs: 60_000 });
+
+export interface RouteLimiters {
+  client: RateLimiter;
+  session: RateLimiter;
+}
+
+const DEFAULT_LIMITERS: RouteLimiters = { client: clientLimiter, session: sessionLimiter };
+
+const errorResponse = (status: number, body: InterviewApiErrorBody): Response => {
+  const headers: Record<string, string> = {};
+  if (body.retryAfterMs !== undefined) {
+    headers['Retry-After'] = String(Math.ceil(body.retryAfterMs / 1000));
+  }
+  return Response.json(body, { status, headers });
+};
+
+/**
+ * Forwarding headers are only believed behind TRUSTED_PROXY_HOPS proxies: each
+ * appends the address it saw, so the entry added by the outermost one is the
+ * client and anything before it is whatever the caller sent. Route handlers
+ * don't see the socket address, so direct callers share one key.
+ */
+const getClientKey = (request: Request): string => {
+  const hops = Number.parseInt(process.env.TRUSTED_PROXY_HOPS ?? '', 10);
+  if (!(hops > 0)) {
+    return 'direct';
+  }
+
+  const chain = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  return chain[chain.length - hops] || request.headers.get('x-real-ip') || 'unknown';
+};
+
+/**
+ * Streams events as newline-delimited JSON. Failures after the stream has
+ * started can't change the status code, so they become an 'error' event.
+ */
+export const ndjsonResponse = (events: AsyncIterable<unknown>): Response => {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const event of events) {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        }
+      } catch (error) {
+        console.error('Interview stream error:', error);
+        controller.enqueue(encoder.encode(`${JSON.stringify({ type: 'error', error: 'Stream interrupted' })}\n`));
+      } finally {
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache'
+    }
+  });
+};
+
+/**
+ * Shared plumbing for the interview API routes: session + rate limit checks,
+ * JSON parsing and validation, and consistent error responses. Routes called
+ * far more often than once a turn pass their own limiters.
+ */
+export const handleInterviewRequest = async <T>(
+  request: Request,
+  validate: (body: unknown) => T,
+  handler: (input: T, sessionId: string) => Promise<unknown>,
+  limiters: RouteLimiters = DEFAULT_LIMITERS
+): Promise<Response> => {
+  let sessionId: string;
+  let input: T;
+
+  try {
+    const verifiedId = verifySessionToken(request.headers.get(SESSION_HEADER));
+    if (!verifiedId) {
+      return errorResponse(401, { error: 'Session is missing or has expired' });
+    }
+    sessionId = verifiedId;
+
+    for (const [limiter, key] of [
+      [limiters.client, getClientKey(request)],
+      [limiters.session, sessionId]
+    ] as const) {
+      const result = limiter.check(key);
+      if (!result.allowed) {
+        console.warn(`Rate limit exceeded for ${key}`);
+        return errorResponse(429, {
+          error: 'Too many requests, please slow down.',
+          retryAfterMs: result.retryAfterMs
+        });
+      }
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new RequestValidationError('Request body must be valid JSON');
+    }
+    input = validate(body);
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      return errorResponse(400, { error: error.message });
+    }
+    throw error;
+  }
+
+  try {
+    const result = await handler(input, sessionId);
+    return result instanceof Response ? result : Response.json(result);
+  } catch (error) {
+    console.error('Interview API error:', error);
+    return errorResponse(500, { error: 'Failed to process interview request' });
+  }
+};
+
+// Session ids come from the server so the per-session limit can't be dodged
+export const handleSessionRequest = (request: Request): Response => {
+  const key = getClientKey(request);
+  const result = sessionIssueLimiter.check(key);
+  if (!result.allowed) {
+    console.warn(`Session limit exceeded for ${key}`);
+    return errorResponse(429, {
+      error: 'Too many new sessions, please slow down.',
+      retryAfterMs: result.retryAfterMs
+    });
+  }
+
+  const response: SessionResponse = { sessionId: issueSessionToken() };
+  return Response.json(response);
+};
@@ -0,0 +1,116 @@
+import { createLLMProvider, LLMCallSettings, LLMProvider, ResilienceConfig, ResilientProvider } from '../llm';
+
+let cachedProvider: LLMProvider | null | undefined;
+
+// The scripted provider keeps a cursor into its script, so each session gets
+// its own; the oldest are dropped once this many are held
+const MAX_SCRIPTED_SESSIONS = 1000;
+const scriptedProviders = new Map<string, LLMProvider>();
+
+const readNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const readDefaultsOverride = (): Partial<LLMCallSettings> => {
+  const overrides: Partial<LLMCallSettings> = {};
+  const temperature = readNumber(process.env.LLM_TEMPERATURE);
+  const maxTokens = readNumber(process.env.LLM_MAX_TOKENS);
+
+  if (process.env.LLM_MODEL) {
+    overrides.model = process.env.LLM_MODEL;
+  }
+  if (temperature !== undefined) {
+    overrides.temperature = temperature;
+  }
+  if (maxTokens !== undefined) {
+    overrides.maxTokens = maxTokens;
+  }
+  return overrides;
+};
+
+const readResilienceOverride = (): Partial<ResilienceConfig> => {
+  const overrides: Partial<ResilienceConfig> = {};
+  const timeoutMs = readNumber(process.env.LLM_TIMEOUT_MS);
+  const maxRetries = readNumber(process.env.LLM_MAX_RETRIES);
+
+  if (timeoutMs !== undefined && timeoutMs > 0) {
+    overrides.timeoutMs = timeoutMs;
+  }
+  if (maxRetries !== undefined && maxRetries >= 0) {
+    overrides.maxRetries = Math.floor(maxRetries);
+  }
+  return overrides;
+};
+
+const getScriptedProvider = (sessionId: string): LLMProvider => {
+  let provider = scriptedProviders.get(sessionId);
+  if (!provider) {
+    provider = new ResilientProvider(createLLMProvider({ type: 'scripted' }), readResilienceOverride());
+    scriptedProviders.set(sessionId, provider);
+    if (scriptedProviders.size > MAX_SCRIPTED_SESSIONS) {
+      scriptedProviders.delete(scriptedProviders.keys().next().value as string);
+    }
+  }
+  return provider;
+};
+
+/**
+ * Builds the provider used by the API routes from server-only environment
+ * variables. Returns null when nothing is configured so the interviewer falls
+ * back to its built-in questions.
+ */
+export const getServerLLMProvider = (sessionId: string): LLMProvider | null => {
+  const type = process.env.LLM_PROVIDER ?? 'groq';
+  if (type === 'scripted') {
+    return getScriptedProvider(sessionId);
+  }
+  if (cachedProvider !== undefined) {
+    return cachedProvider;
+  }
+
+  const defaults = readDefaultsOverride();
+
+  switch (type) {
+    case 'groq':
+      cachedProvider = process.env.GROQ_API_KEY
+        ? createLLMProvider({
+            type: 'groq',
+            apiKey: process.env.GROQ_API_KEY,
+            config: { defaults }
+          })
+        : null;
+      break;
+    case 'openai-compatible':
+      cachedProvider = process.env.LLM_BASE_URL
+        ? createLLMProvider({
+            type: 'openai-compatible',
+            baseURL: process.env.LLM_BASE_URL,
+            apiKey: process.env.LLM_API_KEY,
+            config: {
+              defaults: {
+                model: 'llama3',
+                temperature: 0.7,
+                maxTokens: 100,
+                ...defaults
+              }
+            }
+          })
+        : null;
+      break;
+    default:
+      console.warn(`Unknown LLM_PROVIDER "${type}", using fallback questions`);
+      cachedProvider = null;
+  }
+
+  if (!cachedProvider) {
+    console.warn('No LLM provider configured on the server, using fallback questions');
+  } else {
+    cachedProvider = new ResilientProvider(cachedProvider, readResilienceOverride());
+  }
+
+  return cachedProvider;
+};
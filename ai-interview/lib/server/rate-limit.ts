@@ -0,0 +1,70 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+export interface RateLimiterOptions {
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Sliding-window limiter kept in process memory. Good enough for a single
+ * Next.js server; a multi-instance deployment would need a shared store.
+ */
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+  private limit: number;
+  private windowMs: number;
+
+  constructor(options: RateLimiterOptions) {
+    this.limit = options.limit;
+    this.windowMs = options.windowMs;
+  }
+
+  check(key: string, now: number = Date.now()): RateLimitResult {
+    const windowStart = now - this.windowMs;
+    const recent = (this.hits.get(key) ?? []).filter(timestamp => timestamp > windowStart);
+
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: recent[0] + this.windowMs - now
+      };
+    }
+
+    recent.push(now);
+    this.hits.set(key, recent);
+    this.prune(windowStart);
+
+    return {
+      allowed: true,
+      remaining: this.limit - recent.length,
+      retryAfterMs: 0
+    };
+  }
+
+  private prune(windowStart: number): void {
+    // Keep the map from growing without bound as sessions come and go
+    if (this.hits.size < 1000) {
+      return;
+    }
+    for (const [key, timestamps] of this.hits) {
+      if (timestamps[timestamps.length - 1] <= windowStart) {
+        this.hits.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Limits for routes called many times a turn, at every sentence or pause,
+ * rather than once. Each route gets its own limiters so they don't share a budget.
+ */
+export const createHighFrequencyLimiters = () => ({
+  client: new RateLimiter({ limit: 240, windowMs: 60_000 }),
+  session: new RateLimiter({ limit: 120, windowMs: 60_000 })
+});
@@ -0,0 +1,34 @@
+import { randomUUID } from 'crypto';
+import { signValue, verifyValue } from './signing';
+
+export const SESSION_LIMITS = {
+  // Long enough for any interview, including a resumed one
+  ttlMs: 12 * 60 * 60 * 1000
+} as const;
+
+const SESSION_TOKEN_PATTERN = /^([0-9a-f-]{36})\.([0-9a-z]{1,12})\.([A-Za-z0-9_-]{43})$/;
+
+/**
+ * Issues a session for the x-interview-session header: an id and the time it
+ * was issued, signed so the browser can't mint its own ids to dodge the
+ * per-session rate limit.
+ */
+export const issueSessionToken = (now: number = Date.now()): string => {
+  const payload = `${randomUUID()}.${now.toString(36)}`;
+  return `${payload}.${signValue('session', payload)}`;
+};
+
+// The session id when the token is genuine and unexpired, otherwise null
+export const verifySessionToken = (token: string | null, now: number = Date.now()): string | null => {
+  const match = token ? SESSION_TOKEN_PATTERN.exec(token) : null;
+  if (!match) {
+    return null;
+  }
+
+  const [, id, issuedAt, signature] = match;
+  if (!verifyValue('session', `${id}.${issuedAt}`, signature)) {
+    return null;
+  }
+  const age = now - parseInt(issuedAt, 36);
+  return age >= 0 && age <= SESSION_LIMITS.ttlMs ? id : null;
+};
@@ -0,0 +1,30 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+let cachedSecret: Buffer | undefined;
+
+const getSecret = (): Buffer => {
+  if (!cachedSecret) {
+    if (process.env.INTERVIEW_SECRET) {
+      cachedSecret = Buffer.from(process.env.INTERVIEW_SECRET);
+    } else {
+      console.warn('INTERVIEW_SECRET is not set; sessions and scores will not survive a server restart');
+      cachedSecret = randomBytes(32);
+    }
+  }
+  return cachedSecret;
+};
+
+/**
+ * HMAC for values the server hands to the browser and needs back unchanged,
+ * such as session ids and answer evaluations. The purpose keeps a signature
+ * for one kind of value from passing as another.
+ */
+export const signValue = (purpose: string, payload: string): string => {
+  return createHmac('sha256', getSecret()).update(`${purpose}\n${payload}`).digest('base64url');
+};
+
+export const verifyValue = (purpose: string, payload: string, signature: string): boolean => {
+  const expected = Buffer.from(signValue(purpose, payload));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
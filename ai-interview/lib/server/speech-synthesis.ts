@@ -0,0 +1,120 @@
+import { TtsVoice } from '../tts/types';
+
+export interface SpeechSynthesizerOptions {
+  // e.g. http://localhost:8880/v1 for Kokoro-FastAPI or https://api.openai.com/v1
+  baseURL: string;
+  apiKey?: string;
+  model: string;
+  // The first voice is the default
+  voices: string[];
+  timeoutMs: number;
+}
+
+export interface SynthesizedSpeech {
+  audio: ReadableStream<Uint8Array>;
+  contentType: string;
+}
+
+export class SynthesisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SynthesisError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+let cachedSynthesizer: SpeechSynthesizer | null | undefined;
+
+/**
+ * Reads text aloud through a server that speaks the OpenAI /audio/speech
+ * API. The audio is passed on as it arrives rather than buffered.
+ */
+export class SpeechSynthesizer {
+  private baseURL: string;
+  private apiKey?: string;
+  private model: string;
+  private voiceIds: string[];
+  private timeoutMs: number;
+
+  constructor(options: SpeechSynthesizerOptions) {
+    this.baseURL = options.baseURL.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+    this.voiceIds = options.voices;
+    this.timeoutMs = options.timeoutMs;
+  }
+
+  get voices(): TtsVoice[] {
+    return this.voiceIds.map(id => ({ id, name: id }));
+  }
+
+  hasVoice(voice: string): boolean {
+    return this.voiceIds.includes(voice);
+  }
+
+  async synthesize(text: string, options: { voice?: string; rate?: number } = {}): Promise<SynthesizedSpeech> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseURL}/audio/speech`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.model,
+          input: text,
+          voice: options.voice ?? this.voiceIds[0],
+          ...(options.rate !== undefined ? { speed: options.rate } : {}),
+          response_format: 'mp3'
+        }),
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+    } catch (error) {
+      throw new SynthesisError(`Speech server unreachable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!response.ok || !response.body) {
+      throw new SynthesisError(`Speech server failed with status ${response.status}`);
+    }
+
+    return {
+      audio: response.body,
+      contentType: response.headers.get('content-type') || 'audio/mpeg'
+    };
+  }
+}
+
+/**
+ * Builds the synthesizer for the server text-to-speech engine from
+ * server-only environment variables. Returns null when TTS_BASE_URL is unset.
+ */
+export const getServerSynthesizer = (): SpeechSynthesizer | null => {
+  if (cachedSynthesizer !== undefined) {
+    return cachedSynthesizer;
+  }
+
+  const timeoutMs = Number(process.env.TTS_TIMEOUT_MS);
+  const voices = (process.env.TTS_VOICES || 'alloy')
+    .split(',')
+    .map(voice => voice.trim())
+    .filter(voice => voice !== '');
+
+  cachedSynthesizer = process.env.TTS_BASE_URL
+    ? new SpeechSynthesizer({
+        baseURL: process.env.TTS_BASE_URL,
+        apiKey: process.env.TTS_API_KEY,
+        model: process.env.TTS_MODEL || 'tts-1',
+        voices: voices.length > 0 ? voices : ['alloy'],
+        timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS
+      })
+    : null;
+
+  if (!cachedSynthesizer) {
+    console.warn('No speech server configured (TTS_BASE_URL), server text-to-speech is unavailable');
+  }
+  return cachedSynthesizer;
+};
@@ -0,0 +1,139 @@
+import { TranscribeResponse } from '../interview-api';
+import { LanguageCode } from '../languages';
+import { isRecord } from '../structured-output';
+
+export interface WhisperTranscriberOptions {
+  // e.g. http://localhost:8000/v1 for faster-whisper-server or https://api.openai.com/v1
+  baseURL: string;
+  apiKey?: string;
+  model: string;
+  timeoutMs: number;
+}
+
+export class TranscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptionError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+let cachedTranscriber: WhisperTranscriber | null | undefined;
+
+// Whisper reports seconds; servers put word timings at the top level or inside each segment
+const readWords = (data: Record<string, unknown>): TranscribeResponse['words'] => {
+  const segments = Array.isArray(data.segments) ? data.segments.filter(isRecord) : [];
+  const words = Array.isArray(data.words)
+    ? data.words
+    : segments.flatMap(segment => Array.isArray(segment.words) ? segment.words : []);
+
+  return words
+    .filter(isRecord)
+    .filter(word => typeof word.word === 'string' && typeof word.start === 'number' && typeof word.end === 'number')
+    .map(word => ({
+      word: (word.word as string).trim(),
+      startMs: Math.round((word.start as number) * 1000),
+      endMs: Math.round((word.end as number) * 1000)
+    }))
+    .filter(word => word.word !== '');
+};
+
+// Mean token probability across segments, from Whisper's avg_logprob
+const readConfidence = (data: Record<string, unknown>): number | undefined => {
+  const logProbs = (Array.isArray(data.segments) ? data.segments : [])
+    .filter(isRecord)
+    .map(segment => segment.avg_logprob)
+    .filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+  if (logProbs.length === 0) {
+    return undefined;
+  }
+  return logProbs.reduce((sum, logProb) => sum + Math.exp(logProb), 0) / logProbs.length;
+};
+
+/**
+ * Sends speech segments to a server that speaks the OpenAI
+ * /audio/transcriptions API, asking for word-level timestamps.
+ */
+export class WhisperTranscriber {
+  private baseURL: string;
+  private apiKey?: string;
+  private model: string;
+  private timeoutMs: number;
+
+  constructor(options: WhisperTranscriberOptions) {
+    this.baseURL = options.baseURL.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+    this.timeoutMs = options.timeoutMs;
+  }
+
+  async transcribe(wav: Blob, language?: LanguageCode): Promise<TranscribeResponse> {
+    const form = new FormData();
+    form.append('file', wav, 'segment.wav');
+    form.append('model', this.model);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'word');
+    if (language) {
+      form.append('language', language);
+    }
+
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseURL}/audio/transcriptions`, {
+        method: 'POST',
+        headers,
+        body: form,
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+    } catch (error) {
+      throw new TranscriptionError(`Transcription server unreachable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!response.ok) {
+      throw new TranscriptionError(`Transcription server failed with status ${response.status}`);
+    }
+
+    const data: unknown = await response.json().catch(() => null);
+    if (!isRecord(data) || typeof data.text !== 'string') {
+      throw new TranscriptionError('Transcription server returned no text');
+    }
+
+    const confidence = readConfidence(data);
+    return {
+      text: data.text.trim(),
+      ...(confidence !== undefined ? { confidence } : {}),
+      words: readWords(data)
+    };
+  }
+}
+
+/**
+ * Builds the transcriber for the server speech-to-text backend from
+ * server-only environment variables. Returns null when STT_BASE_URL is unset.
+ */
+export const getServerTranscriber = (): WhisperTranscriber | null => {
+  if (cachedTranscriber !== undefined) {
+    return cachedTranscriber;
+  }
+
+  const timeoutMs = Number(process.env.STT_TIMEOUT_MS);
+  cachedTranscriber = process.env.STT_BASE_URL
+    ? new WhisperTranscriber({
+        baseURL: process.env.STT_BASE_URL,
+        apiKey: process.env.STT_API_KEY,
+        model: process.env.STT_MODEL || 'whisper-1',
+        timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS
+      })
+    : null;
+
+  if (!cachedTranscriber) {
+    console.warn('No transcription server configured (STT_BASE_URL), server speech-to-text is unavailable');
+  }
+  return cachedTranscriber;
+};
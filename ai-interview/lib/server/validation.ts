@@ -0,0 +1,405 @@
+import { ConversationTurn, InterviewContext } from '../ai-interviewer';
+import { validateAnswerAudioRef } from '../answer-audio';
+import { CandidateDocuments, DOCUMENT_LIMITS, validateBrief } from '../candidate-documents';
+import { CODING_TASKS, getCodingTask, validateCodeSnapshot } from '../coding-tasks';
+import { COMPLIANCE_LIMITS, COMPLIANCE_RULE_SETS, ComplianceAuditEntry, validateAuditEntry } from '../compliance';
+import { DEFAULT_RUBRIC, Rubric, validateEvaluation, validateRubric } from '../evaluation';
+import { validateEndOfTurnDecisions } from '../end-of-turn';
+import { validateFollowUpDecision } from '../follow-up';
+import {
+  AppreciationRequest,
+  EndOfTurnRequest,
+  FirstQuestionRequest,
+  INTERVIEW_API_LIMITS,
+  IntentRequest,
+  NextQuestionRequest,
+  RephraseRequest,
+  ReportRequest,
+  SpeechRequest,
+  TranscribeRequest
+} from '../interview-api';
+import { InterviewLength, InterviewPhase, LENGTH_LIMITS } from '../interview-length';
+import { validatePlan } from '../interview-plan';
+import { isLanguageCode, LANGUAGE_CODES, LanguageCode } from '../languages';
+import { INJECTION_KINDS, InjectionFlag, InjectionKind } from '../prompt-safety';
+import { StructuredOutputError } from '../structured-output';
+import { validateTurnTiming } from '../transcript';
+import { TTS_LIMITS } from '../tts/types';
+import { verifyEvaluation } from './evaluation-signing';
+
+export class RequestValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestValidationError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const readString = (
+  source: Record<string, unknown>,
+  field: string,
+  maxLength: number,
+  options: { allowEmpty?: boolean } = {}
+): string => {
+  const value = source[field];
+  if (typeof value !== 'string') {
+    throw new RequestValidationError(`"${field}" must be a string`);
+  }
+  if (!options.allowEmpty && value.trim() === '') {
+    throw new RequestValidationError(`"${field}" must not be empty`);
+  }
+  if (value.length > maxLength) {
+    throw new RequestValidationError(`"${field}" must be at most ${maxLength} characters`);
+  }
+  return value;
+};
+
+const readBody = (body: unknown): Record<string, unknown> => {
+  if (!isRecord(body)) {
+    throw new RequestValidationError('Request body must be a JSON object');
+  }
+  return body;
+};
+
+// Re-throws structured data problems (rubric, plan, evaluations, decisions, brief) as 400s
+const asRequestError = <T>(validate: () => T): T => {
+  try {
+    return validate();
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      throw new RequestValidationError(error.message);
+    }
+    throw error;
+  }
+};
+
+const INTERVIEW_PHASES: InterviewPhase[] = ['questions', 'candidate-questions', 'complete'];
+
+const readLimit = (source: Record<string, unknown>, field: string, max: number): number | undefined => {
+  const value = source[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > max) {
+    throw new RequestValidationError(`"${field}" must be an integer from 1 to ${max}`);
+  }
+  return value;
+};
+
+const validateLength = (value: unknown): InterviewLength => {
+  if (!isRecord(value)) {
+    throw new RequestValidationError('"length" must be an object');
+  }
+
+  const length: InterviewLength = {};
+  const maxQuestions = readLimit(value, 'maxQuestions', LENGTH_LIMITS.maxQuestions);
+  const maxMinutes = readLimit(value, 'maxMinutes', LENGTH_LIMITS.maxMinutes);
+  if (maxQuestions === undefined && maxMinutes === undefined) {
+    throw new RequestValidationError('"length" needs "maxQuestions", "maxMinutes" or both');
+  }
+  if (maxQuestions !== undefined) {
+    length.maxQuestions = maxQuestions;
+  }
+  if (maxMinutes !== undefined) {
+    length.maxMinutes = maxMinutes;
+  }
+  return length;
+};
+
+const validateInjectionFlag = (value: unknown): InjectionFlag => {
+  if (
+    !isRecord(value) ||
+    !Array.isArray(value.kinds) ||
+    !value.kinds.every(kind => INJECTION_KINDS.includes(kind as InjectionKind)) ||
+    typeof value.detectedAt !== 'string'
+  ) {
+    throw new RequestValidationError(`"injectionFlag" needs "kinds" (${INJECTION_KINDS.join(', ')}) and "detectedAt"`);
+  }
+  return {
+    kinds: [...new Set(value.kinds as InjectionKind[])],
+    detectedAt: value.detectedAt
+  };
+};
+
+const validateTurn = (value: unknown, rubric: Rubric): ConversationTurn => {
+  if (!isRecord(value)) {
+    throw new RequestValidationError('Conversation turns must be objects');
+  }
+
+  const turn: ConversationTurn = {
+    question: readString(value, 'question', INTERVIEW_API_LIMITS.questionLength),
+    answer: readString(value, 'answer', INTERVIEW_API_LIMITS.answerLength, { allowEmpty: true })
+  };
+  if (value.category !== undefined) {
+    turn.category = readString(value, 'category', INTERVIEW_API_LIMITS.categoryIdLength);
+  }
+  if (value.followUpDecision !== undefined) {
+    turn.followUpDecision = asRequestError(() => validateFollowUpDecision(value.followUpDecision));
+  }
+  if (value.injectionFlag !== undefined) {
+    turn.injectionFlag = validateInjectionFlag(value.injectionFlag);
+  }
+  if (value.code !== undefined) {
+    turn.code = asRequestError(() => validateCodeSnapshot(value.code));
+  }
+  if (value.timing !== undefined) {
+    turn.timing = asRequestError(() => validateTurnTiming(value.timing));
+  }
+  if (value.audio !== undefined) {
+    turn.audio = asRequestError(() => validateAnswerAudioRef(value.audio));
+  }
+  if (value.endOfTurn !== undefined) {
+    turn.endOfTurn = asRequestError(() => validateEndOfTurnDecisions(value.endOfTurn));
+  }
+  // Checked last, since the signature covers the question, answer and code
+  if (value.evaluation !== undefined) {
+    const evaluation = asRequestError(() => validateEvaluation(value.evaluation, rubric));
+    if (verifyEvaluation(turn, evaluation, rubric)) {
+      turn.evaluation = evaluation;
+    } else {
+      console.warn('Dropped an evaluation the server did not sign');
+    }
+  }
+  return turn;
+};
+
+const validateContext = (value: unknown): InterviewContext => {
+  if (!isRecord(value)) {
+    throw new RequestValidationError('"context" must be an object');
+  }
+
+  const history = value.conversationHistory;
+  if (!Array.isArray(history) || history.length > INTERVIEW_API_LIMITS.historyTurns) {
+    throw new RequestValidationError(
+      `"conversationHistory" must be an array of at most ${INTERVIEW_API_LIMITS.historyTurns} turns`
+    );
+  }
+
+  const questionNumber = value.currentQuestionNumber;
+  if (
+    typeof questionNumber !== 'number' ||
+    !Number.isInteger(questionNumber) ||
+    questionNumber < 0 ||
+    questionNumber > INTERVIEW_API_LIMITS.historyTurns + 1
+  ) {
+    throw new RequestValidationError('"currentQuestionNumber" is out of range');
+  }
+
+  const rubric = value.rubric === undefined
+    ? DEFAULT_RUBRIC
+    : asRequestError(() => validateRubric(value.rubric));
+
+  let summary: InterviewContext['summary'];
+  if (value.summary !== undefined) {
+    const source = value.summary;
+    if (
+      !isRecord(source) ||
+      typeof source.coveredTurns !== 'number' ||
+      !Number.isInteger(source.coveredTurns) ||
+      source.coveredTurns < 0 ||
+      source.coveredTurns > history.length
+    ) {
+      throw new RequestValidationError('"summary" needs "text" and a "coveredTurns" count within the history');
+    }
+    summary = {
+      text: readString(source, 'text', INTERVIEW_API_LIMITS.summaryLength, { allowEmpty: true }),
+      coveredTurns: source.coveredTurns
+    };
+  }
+
+  const pacing: Pick<InterviewContext, 'length' | 'startedAt' | 'phase' | 'wrapUpNoticeGiven'> = {};
+  if (value.length !== undefined) {
+    pacing.length = validateLength(value.length);
+  }
+  if (value.startedAt !== undefined) {
+    if (typeof value.startedAt !== 'string' || Number.isNaN(Date.parse(value.startedAt))) {
+      throw new RequestValidationError('"startedAt" must be a date string');
+    }
+    pacing.startedAt = value.startedAt;
+  }
+  if (value.phase !== undefined) {
+    if (!INTERVIEW_PHASES.includes(value.phase as InterviewPhase)) {
+      throw new RequestValidationError(`"phase" must be one of ${INTERVIEW_PHASES.join(', ')}`);
+    }
+    pacing.phase = value.phase as InterviewPhase;
+  }
+  if (value.wrapUpNoticeGiven !== undefined) {
+    if (typeof value.wrapUpNoticeGiven !== 'boolean') {
+      throw new RequestValidationError('"wrapUpNoticeGiven" must be a boolean');
+    }
+    pacing.wrapUpNoticeGiven = value.wrapUpNoticeGiven;
+  }
+
+  return {
+    conversationHistory: history.map(turn => validateTurn(turn, rubric)),
+    currentQuestionNumber: questionNumber,
+    interviewType: readString(value, 'interviewType', INTERVIEW_API_LIMITS.interviewTypeLength),
+    rubric,
+    ...(value.brief !== undefined ? { brief: asRequestError(() => validateBrief(value.brief)) } : {}),
+    ...(value.plan !== undefined ? { plan: asRequestError(() => validatePlan(value.plan)) } : {}),
+    ...(value.currentCategory !== undefined
+      ? { currentCategory: readString(value, 'currentCategory', INTERVIEW_API_LIMITS.categoryIdLength) }
+      : {}),
+    ...pacing,
+    ...(summary ? { summary } : {}),
+    ...(value.jurisdiction !== undefined ? { jurisdiction: validateJurisdiction(value.jurisdiction) } : {}),
+    ...(value.complianceLog !== undefined ? { complianceLog: validateComplianceLog(value.complianceLog) } : {}),
+    ...(value.codingTaskId !== undefined ? { codingTaskId: validateCodingTaskId(value.codingTaskId) } : {}),
+    ...(value.language !== undefined ? { language: validateLanguage(value.language) } : {})
+  };
+};
+
+const validateLanguage = (value: unknown): LanguageCode => {
+  if (!isLanguageCode(value)) {
+    throw new RequestValidationError(`"language" must be one of ${LANGUAGE_CODES.join(', ')}`);
+  }
+  return value;
+};
+
+const validateCodingTaskId = (value: unknown): string => {
+  if (typeof value !== 'string' || !getCodingTask(value)) {
+    throw new RequestValidationError(`"codingTaskId" must be one of ${CODING_TASKS.map(task => task.id).join(', ')}`);
+  }
+  return value;
+};
+
+const validateJurisdiction = (value: unknown): string => {
+  if (typeof value !== 'string' || !Object.hasOwn(COMPLIANCE_RULE_SETS, value)) {
+    throw new RequestValidationError(`"jurisdiction" must be one of ${Object.keys(COMPLIANCE_RULE_SETS).join(', ')}`);
+  }
+  return value;
+};
+
+// The client's copy only feeds the display and regeneration hints; the audit
+// trail itself is written on the server (see compliance-audit.ts)
+const validateComplianceLog = (value: unknown): ComplianceAuditEntry[] => {
+  if (!Array.isArray(value) || value.length > COMPLIANCE_LIMITS.auditEntries) {
+    throw new RequestValidationError(`"complianceLog" must be an array of at most ${COMPLIANCE_LIMITS.auditEntries} entries`);
+  }
+  return value.map(entry => asRequestError(() => validateAuditEntry(entry)));
+};
+
+const validateDocuments = (value: unknown): CandidateDocuments => {
+  if (!isRecord(value)) {
+    throw new RequestValidationError('"documents" must be an object');
+  }
+
+  const documents: CandidateDocuments = {};
+  for (const field of ['jobDescription', 'resume'] as const) {
+    if (value[field] !== undefined) {
+      documents[field] = readString(value, field, DOCUMENT_LIMITS.documentLength, { allowEmpty: true });
+    }
+  }
+  return documents;
+};
+
+export const validateFirstQuestionRequest = (body: unknown): FirstQuestionRequest => {
+  const source = readBody(body);
+  const request: FirstQuestionRequest = {
+    interviewType: readString(source, 'interviewType', INTERVIEW_API_LIMITS.interviewTypeLength)
+  };
+  if (source.rubric !== undefined) {
+    request.rubric = asRequestError(() => validateRubric(source.rubric));
+  }
+  if (source.plan !== undefined) {
+    request.plan = asRequestError(() => validatePlan(source.plan));
+  }
+  if (source.length !== undefined) {
+    request.length = validateLength(source.length);
+  }
+  if (source.documents !== undefined) {
+    request.documents = validateDocuments(source.documents);
+  }
+  if (source.jurisdiction !== undefined) {
+    request.jurisdiction = validateJurisdiction(source.jurisdiction);
+  }
+  if (source.language !== undefined) {
+    request.language = validateLanguage(source.language);
+  }
+  return request;
+};
+
+export const validateNextQuestionRequest = (body: unknown): NextQuestionRequest => {
+  const source = readBody(body);
+  return {
+    context: validateContext(source.context),
+    answer: readString(source, 'answer', INTERVIEW_API_LIMITS.answerLength),
+    currentQuestion: readString(source, 'currentQuestion', INTERVIEW_API_LIMITS.questionLength),
+    ...(source.code !== undefined ? { code: asRequestError(() => validateCodeSnapshot(source.code)) } : {}),
+    ...(source.timing !== undefined ? { timing: asRequestError(() => validateTurnTiming(source.timing)) } : {})
+  };
+};
+
+export const validateAppreciationRequest = (body: unknown): AppreciationRequest => {
+  const source = readBody(body);
+  return {
+    answer: readString(source, 'answer', INTERVIEW_API_LIMITS.answerLength),
+    ...(source.language !== undefined ? { language: validateLanguage(source.language) } : {})
+  };
+};
+
+export const validateReportRequest = (body: unknown): ReportRequest => {
+  const source = readBody(body);
+  return {
+    context: validateContext(source.context)
+  };
+};
+
+export const validateIntentRequest = (body: unknown): IntentRequest => {
+  const source = readBody(body);
+  return {
+    transcript: readString(source, 'transcript', INTERVIEW_API_LIMITS.answerLength),
+    question: readString(source, 'question', INTERVIEW_API_LIMITS.questionLength),
+    ...(source.language !== undefined ? { language: validateLanguage(source.language) } : {})
+  };
+};
+
+export const validateEndOfTurnRequest = (body: unknown): EndOfTurnRequest => {
+  const source = readBody(body);
+  return {
+    transcript: readString(source, 'transcript', INTERVIEW_API_LIMITS.answerLength),
+    question: readString(source, 'question', INTERVIEW_API_LIMITS.questionLength)
+  };
+};
+
+export const validateRephraseRequest = (body: unknown): RephraseRequest => {
+  const source = readBody(body);
+  return {
+    context: validateContext(source.context),
+    question: readString(source, 'question', INTERVIEW_API_LIMITS.questionLength)
+  };
+};
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+export const validateTranscribeRequest = (body: unknown): TranscribeRequest => {
+  const source = readBody(body);
+  const audio = readString(source, 'audio', INTERVIEW_API_LIMITS.segmentAudioLength);
+  if (!BASE64_PATTERN.test(audio)) {
+    throw new RequestValidationError('"audio" must be base64-encoded');
+  }
+  return {
+    audio,
+    ...(source.language !== undefined ? { language: validateLanguage(source.language) } : {})
+  };
+};
+
+export const validateSpeechRequest = (body: unknown): SpeechRequest => {
+  const source = readBody(body);
+  const request: SpeechRequest = { text: readString(source, 'text', INTERVIEW_API_LIMITS.speechTextLength) };
+
+  if (source.voice !== undefined) {
+    request.voice = readString(source, 'voice', INTERVIEW_API_LIMITS.voiceIdLength);
+  }
+  if (source.rate !== undefined) {
+    const { rate } = source;
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < TTS_LIMITS.minRate || rate > TTS_LIMITS.maxRate) {
+      throw new RequestValidationError(`"rate" must be a number between ${TTS_LIMITS.minRate} and ${TTS_LIMITS.maxRate}`);
+    }
+    request.rate = rate;
+  }
+  return request;
+};
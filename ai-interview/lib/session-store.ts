@@ -0,0 +1,180 @@
+import type { InterviewContext } from './ai-interviewer';
+import type { AnswerAudioRef } from './answer-audio';
+import { isRecord } from './structured-output';
+
+export type InterviewState = 'waiting' | 'asking' | 'listening' | 'processing' | 'completed' | 'error';
+
+/**
+ * Everything needed to pick an interview up again after a reload or crash.
+ * Saved in the browser after every turn; the server never sees it.
+ */
+export interface SavedSession {
+  version: number;
+  sessionId: string;
+  savedAt: string;
+  context: InterviewContext;
+  // The question waiting for an answer; it is asked again on resume
+  currentQuestion: string;
+  // Page state when saved; an answer still processing is asked for again
+  interviewState: InterviewState;
+  // Editor contents while a coding task is open
+  editor?: { code: string; language: string };
+}
+
+// Bump when SavedSession changes shape; older saves are then ignored
+export const SESSION_VERSION = 1;
+
+// Answer recordings live in their own store so loading a session doesn't read every blob
+interface StoredAudio {
+  id: string;
+  sessionId: string;
+  blob: Blob;
+}
+
+const DB_NAME = 'ai-interview';
+const DB_VERSION = 2;
+const STORE_NAME = 'sessions';
+const AUDIO_STORE_NAME = 'answer-audio';
+const AUDIO_SESSION_INDEX = 'sessionId';
+
+const INTERVIEW_STATES: InterviewState[] = ['waiting', 'asking', 'listening', 'processing', 'completed', 'error'];
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Only a light shape check; the server validates the context on the next request
+const isSavedSession = (value: unknown): value is SavedSession => {
+  return (
+    isRecord(value) &&
+    value.version === SESSION_VERSION &&
+    typeof value.sessionId === 'string' &&
+    typeof value.savedAt === 'string' &&
+    typeof value.currentQuestion === 'string' &&
+    INTERVIEW_STATES.includes(value.interviewState as InterviewState) &&
+    isRecord(value.context) &&
+    Array.isArray(value.context.conversationHistory)
+  );
+};
+
+/**
+ * Keeps interview sessions and their answer recordings in IndexedDB, one
+ * record per session. Storage failures are logged and otherwise ignored so
+ * they never stop an interview.
+ */
+export class SessionStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async save(session: Omit<SavedSession, 'version' | 'savedAt'>): Promise<void> {
+    try {
+      const store = await this.getStore('readwrite');
+      await toPromise(store.put({ ...session, version: SESSION_VERSION, savedAt: new Date().toISOString() }));
+      console.log(`💾 Saved session at question ${session.context.currentQuestionNumber}`);
+    } catch (error) {
+      console.error('Error saving interview session:', error);
+    }
+  }
+
+  /**
+   * The most recently saved session that can still be resumed. Older and
+   * unreadable records are removed, with their recordings, so only one resume
+   * offer is ever made. A finished session is kept until the next one starts
+   * but is never offered.
+   */
+  async loadLatest(): Promise<SavedSession | null> {
+    try {
+      const store = await this.getStore('readonly');
+      const records = await toPromise(store.getAll());
+      const sessions = records
+        .filter(isSavedSession)
+        .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+      const latest = sessions[0] ?? null;
+
+      for (const record of records) {
+        if (record !== latest && isRecord(record) && typeof record.sessionId === 'string') {
+          await this.remove(record.sessionId);
+        }
+      }
+
+      if (!latest || latest.context.phase === 'complete') {
+        return null;
+      }
+      return latest;
+    } catch (error) {
+      console.error('Error loading saved interview session:', error);
+      return null;
+    }
+  }
+
+  async remove(sessionId: string): Promise<void> {
+    try {
+      const store = await this.getStore('readwrite');
+      await toPromise(store.delete(sessionId));
+
+      const audioStore = await this.getStore('readwrite', AUDIO_STORE_NAME);
+      const audioIds = await toPromise(audioStore.index(AUDIO_SESSION_INDEX).getAllKeys(sessionId));
+      await Promise.all(audioIds.map(id => toPromise(audioStore.delete(id))));
+    } catch (error) {
+      console.error('Error removing saved interview session:', error);
+    }
+  }
+
+  async saveAudio(sessionId: string, audio: AnswerAudioRef, blob: Blob): Promise<void> {
+    try {
+      const store = await this.getStore('readwrite', AUDIO_STORE_NAME);
+      const record: StoredAudio = { id: audio.id, sessionId, blob };
+      await toPromise(store.put(record));
+      console.log(`🎙️ Saved ${(audio.durationMs / 1000).toFixed(1)}s answer recording`);
+    } catch (error) {
+      console.error('Error saving answer recording:', error);
+    }
+  }
+
+  async loadAudio(id: string): Promise<Blob | null> {
+    try {
+      const store = await this.getStore('readonly', AUDIO_STORE_NAME);
+      const record = await toPromise<StoredAudio | undefined>(store.get(id));
+      return record?.blob instanceof Blob ? record.blob : null;
+    } catch (error) {
+      console.error('Error loading answer recording:', error);
+      return null;
+    }
+  }
+
+  private async getStore(mode: IDBTransactionMode, name: string = STORE_NAME): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'sessionId' });
+          }
+          if (!db.objectStoreNames.contains(AUDIO_STORE_NAME)) {
+            db.createObjectStore(AUDIO_STORE_NAME, { keyPath: 'id' })
+              .createIndex(AUDIO_SESSION_INDEX, 'sessionId');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call try again if opening failed
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+}
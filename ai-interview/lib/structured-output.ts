@@ -0,0 +1,29 @@
+/**
+ * Raised when model output or client-supplied structured data doesn't have the
+ * expected shape. Feature-specific errors extend it so callers can catch them all.
+ */
+export class StructuredOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Models often wrap JSON in prose or code fences; pull out the outermost object
+export const extractJson = (raw: string): unknown => {
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new StructuredOutputError('Response did not contain a JSON object');
+  }
+
+  try {
+    return JSON.parse(raw.slice(start, end + 1));
+  } catch {
+    throw new StructuredOutputError('Response was not valid JSON');
+  }
+};
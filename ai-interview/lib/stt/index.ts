@@ -0,0 +1,46 @@
+import { ServerSttBackend } from './server-backend';
+import { SpeechToTextBackend, STT_BACKEND_TYPES, SttBackendType, SttCallbacks } from './types';
+import { WebSpeechBackend } from './web-speech-backend';
+
+export * from './types';
+export { ServerSttBackend } from './server-backend';
+export { WebSpeechBackend } from './web-speech-backend';
+
+const configuredBackend = process.env.NEXT_PUBLIC_STT_BACKEND as SttBackendType | undefined;
+
+// Set NEXT_PUBLIC_STT_BACKEND=server to keep audio away from the browser vendor's speech service
+export const DEFAULT_STT_BACKEND: SttBackendType =
+  configuredBackend && STT_BACKEND_TYPES.includes(configuredBackend) ? configuredBackend : 'web-speech';
+
+export const createSttBackend = (type: SttBackendType, callbacks: SttCallbacks, lang?: string): SpeechToTextBackend => {
+  switch (type) {
+    case 'web-speech':
+      return new WebSpeechBackend(callbacks, lang);
+    case 'server':
+      return new ServerSttBackend(callbacks, lang);
+  }
+};
+
+/**
+ * The preferred backend, or the other one when this browser can't run it,
+ * e.g. the server backend in Firefox, which has no Web Speech recognition.
+ */
+export const resolveSttBackend = (
+  preferred: SttBackendType,
+  callbacks: SttCallbacks,
+  lang?: string
+): SpeechToTextBackend => {
+  const backend = createSttBackend(preferred, callbacks, lang);
+  if (backend.isSupported()) {
+    return backend;
+  }
+
+  for (const type of STT_BACKEND_TYPES.filter(type => type !== preferred)) {
+    const fallback = createSttBackend(type, callbacks, lang);
+    if (fallback.isSupported()) {
+      console.warn(`⚠️ ${preferred} speech-to-text is not available in this browser, using ${type}`);
+      return fallback;
+    }
+  }
+  return backend;
+};
@@ -0,0 +1,119 @@
+import { encodeWav, VAD_SAMPLE_RATE } from '../answer-audio';
+import {
+  INTERVIEW_API_LIMITS,
+  INTERVIEW_API_ROUTES,
+  InterviewApiErrorBody,
+  TranscribeRequest,
+  TranscribeResponse
+} from '../interview-api';
+import { fetchWithSession } from '../interview-session';
+import { isLanguageCode } from '../languages';
+import { SpeechToTextBackend, SttCallbacks } from './types';
+
+// Base64 grows the audio by a third, so this stays under the request limit
+const MAX_SEGMENT_SAMPLES = Math.floor(INTERVIEW_API_LIMITS.segmentAudioLength * 3 / 4 / 2) - 44;
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked so the spread doesn't overflow the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Transcribes each VAD speech segment through the transcribe route, which
+ * forwards it to a Whisper-compatible server. Works in any browser the VAD
+ * runs in, and the audio only goes where the server operator sends it.
+ * Results arrive in segment order, each one final, with word timings.
+ */
+export class ServerSttBackend implements SpeechToTextBackend {
+  readonly type = 'server';
+  readonly usesAudioSegments = true;
+  private callbacks: SttCallbacks;
+  private lang: string;
+  private queue: Promise<void> = Promise.resolve();
+  // Bumped on stop so segments still in flight are dropped
+  private generation = 0;
+
+  constructor(callbacks: SttCallbacks, lang: string = 'en-US') {
+    this.callbacks = callbacks;
+    this.lang = lang;
+  }
+
+  isSupported(): boolean {
+    return typeof fetch !== 'undefined' && typeof btoa !== 'undefined';
+  }
+
+  setLanguage(lang: string): void {
+    this.lang = lang;
+  }
+
+  start(): void {
+    this.callbacks.onListeningChange?.(true);
+  }
+
+  stop(): void {
+    this.generation += 1;
+    this.callbacks.onListeningChange?.(false);
+  }
+
+  transcribeSegment(audio: Float32Array): void {
+    const endedAt = Date.now();
+    const startedAt = endedAt - Math.round(audio.length / VAD_SAMPLE_RATE * 1000);
+    const generation = this.generation;
+    if (audio.length > MAX_SEGMENT_SAMPLES) {
+      console.warn(`⚠️ Speech segment too long to transcribe, keeping the first ${MAX_SEGMENT_SAMPLES / VAD_SAMPLE_RATE}s`);
+    }
+    const samples = audio.subarray(0, MAX_SEGMENT_SAMPLES);
+
+    this.queue = this.queue.then(() => this.transcribe(samples, startedAt, generation));
+  }
+
+  private async transcribe(samples: Float32Array, startedAt: number, generation: number): Promise<void> {
+    const language = this.lang.split('-')[0].toLowerCase();
+
+    try {
+      const body: TranscribeRequest = {
+        audio: toBase64(encodeWav(samples)),
+        ...(isLanguageCode(language) ? { language } : {})
+      };
+      const response = await fetchWithSession(INTERVIEW_API_ROUTES.transcribe, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null) as InterviewApiErrorBody | null;
+        throw new Error(errorBody?.error ?? `Transcription failed with status ${response.status}`);
+      }
+
+      const result = await response.json() as TranscribeResponse;
+      if (generation !== this.generation) {
+        return;
+      }
+      console.log(`📝 Final transcript: "${result.text}"`);
+      this.callbacks.onResult({
+        text: result.text,
+        isFinal: true,
+        confidence: result.confidence,
+        words: result.words.map(word => ({
+          word: word.word,
+          startMs: startedAt + word.startMs,
+          endMs: startedAt + word.endMs
+        }))
+      });
+    } catch (error) {
+      if (generation !== this.generation) {
+        return;
+      }
+      console.error('Server transcription error:', error);
+      this.callbacks.onError(`Speech recognition error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,41 @@
+export type SttBackendType = 'web-speech' | 'server';
+
+export const STT_BACKEND_TYPES: SttBackendType[] = ['web-speech', 'server'];
+
+// Epoch milliseconds, so words line up with the VAD and turn timestamps
+export interface WordTiming {
+  word: string;
+  startMs: number;
+  endMs: number;
+}
+
+export interface SttResult {
+  text: string;
+  // Interim text may still change; final text is appended to the transcript
+  isFinal: boolean;
+  confidence?: number;
+  // Only from backends that report them; Web Speech doesn't
+  words?: WordTiming[];
+}
+
+export interface SttCallbacks {
+  onResult: (result: SttResult) => void;
+  onError: (message: string) => void;
+  onListeningChange?: (listening: boolean) => void;
+}
+
+/**
+ * A source of transcribed speech. Streaming backends listen to the
+ * microphone themselves between start() and stop(); segment backends are
+ * fed the speech segments the VAD captures.
+ */
+export interface SpeechToTextBackend {
+  readonly type: SttBackendType;
+  readonly usesAudioSegments: boolean;
+  isSupported(): boolean;
+  setLanguage(lang: string): void;
+  start(): void;
+  stop(): void;
+  // 16 kHz mono samples from the VAD; ignored by streaming backends
+  transcribeSegment(audio: Float32Array): void;
+}
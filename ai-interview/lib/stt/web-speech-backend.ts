@@ -0,0 +1,127 @@
+import { SpeechToTextBackend, SttCallbacks } from './types';
+
+const getRecognitionClass = (): typeof SpeechRecognition | null => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  return window.SpeechRecognition || window.webkitSpeechRecognition || null;
+};
+
+/**
+ * The browser's built-in recognizer. Chrome and Edge send the audio to their
+ * vendor's speech service, and Firefox doesn't have it at all.
+ */
+export class WebSpeechBackend implements SpeechToTextBackend {
+  readonly type = 'web-speech';
+  readonly usesAudioSegments = false;
+  private recognition: SpeechRecognition | null = null;
+  private callbacks: SttCallbacks;
+  private lang: string;
+  private listening = false;
+
+  constructor(callbacks: SttCallbacks, lang: string = 'en-US') {
+    this.callbacks = callbacks;
+    this.lang = lang;
+  }
+
+  isSupported(): boolean {
+    return getRecognitionClass() !== null;
+  }
+
+  // Picks up a language change without recreating the recognizer
+  setLanguage(lang: string): void {
+    this.lang = lang;
+    if (this.recognition) {
+      this.recognition.lang = lang;
+    }
+  }
+
+  start(): void {
+    this.listening = true;
+    this.getRecognition()?.start();
+  }
+
+  stop(): void {
+    this.listening = false;
+    this.recognition?.stop();
+  }
+
+  transcribeSegment(): void {
+    // Web Speech listens to the microphone itself
+  }
+
+  private getRecognition(): SpeechRecognition | null {
+    if (this.recognition) {
+      return this.recognition;
+    }
+
+    const Recognition = getRecognitionClass();
+    if (!Recognition) {
+      return null;
+    }
+
+    const recognition = new Recognition();
+    // Configure recognition settings
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = this.lang;
+    recognition.maxAlternatives = 1;
+
+    recognition.onstart = () => {
+      console.log('🎙️ Speech recognition started');
+      this.callbacks.onListeningChange?.(true);
+    };
+
+    recognition.onresult = (event) => {
+      let finalTranscript = '';
+      let interimTranscript = '';
+      let maxConfidence = 0;
+
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        const resultTranscript = result[0].transcript;
+        const resultConfidence = result[0].confidence || 0.8;
+
+        if (result.isFinal) {
+          finalTranscript += resultTranscript;
+          maxConfidence = Math.max(maxConfidence, resultConfidence);
+          console.log(`📝 Final transcript: "${resultTranscript}"`);
+        } else {
+          interimTranscript += resultTranscript;
+        }
+      }
+
+      if (finalTranscript) {
+        this.callbacks.onResult({ text: finalTranscript, isFinal: true, confidence: maxConfidence || 0.8 });
+      }
+      // Always sent so interim text clears once it becomes final
+      this.callbacks.onResult({ text: interimTranscript, isFinal: false });
+    };
+
+    recognition.onerror = (event) => {
+      console.error('Speech recognition error:', event.error);
+      this.callbacks.onError(`Speech recognition error: ${event.error}`);
+
+      // Auto-restart on certain errors
+      if (event.error === 'no-speech' || event.error === 'audio-capture') {
+        setTimeout(() => {
+          if (this.listening) {
+            try {
+              recognition.start();
+            } catch (restartError) {
+              console.error('Failed to restart recognition:', restartError);
+            }
+          }
+        }, 1000);
+      }
+    };
+
+    recognition.onend = () => {
+      console.log('🛑 Speech recognition ended');
+      this.callbacks.onListeningChange?.(false);
+    };
+
+    this.recognition = recognition;
+    return recognition;
+  }
+}
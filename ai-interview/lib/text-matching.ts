@@ -0,0 +1,14 @@
+/**
+ * Folds text for matching against word lists, quotes and patterns: lower
+ * case, accents removed, ß as ss and curly apostrophes as straight ones.
+ * Recognizers and models disagree on all of these, and the patterns are
+ * written without accents. Punctuation is left for each caller to handle.
+ */
+export const foldText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ß/g, 'ss')
+    .replace(/[‘’]/g, "'");
+};
@@ -0,0 +1,19 @@
+// Rough token estimate for Llama-style tokenizers: about four characters per
+// token for English prose. Good enough for budgeting prompts, not for billing.
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+};
+
+// Cuts text to roughly the given token budget, preferring a sentence or line break
+export const truncateToTokens = (text: string, maxTokens: number): string => {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) {
+    return text;
+  }
+
+  const cut = text.slice(0, maxChars);
+  const boundary = Math.max(cut.lastIndexOf('\n'), cut.lastIndexOf('. '));
+  return `${(boundary > maxChars * 0.6 ? cut.slice(0, boundary + 1) : cut).trimEnd()} …`;
+};
@@ -0,0 +1,196 @@
+import type { InterviewContext } from './ai-interviewer';
+import { CODING_LANGUAGES } from './coding-tasks';
+import type { EndOfTurnDecision } from './end-of-turn';
+import { isRecord, StructuredOutputError } from './structured-output';
+
+/**
+ * When each part of a turn happened. Timestamps are ISO strings from the
+ * candidate's browser: the question from the speech engine, the answer from
+ * the VAD speech start and end callbacks.
+ */
+export interface TurnTiming {
+  questionStartedAt?: string;
+  questionEndedAt?: string;
+  answerStartedAt?: string;
+  answerEndedAt?: string;
+  // From submitting the answer to the next question arriving
+  processingMs?: number;
+}
+
+export interface TranscriptTurn {
+  number: number;
+  question: string;
+  answer: string;
+  category?: string;
+  timing?: TurnTiming;
+  code?: { language: string; code: string };
+  endOfTurn?: EndOfTurnDecision[];
+}
+
+// Bump TRANSCRIPT_VERSION whenever a field is removed or changes meaning
+export const TRANSCRIPT_SCHEMA = 'ai-interview-transcript';
+export const TRANSCRIPT_VERSION = 1;
+
+export interface InterviewTranscript {
+  schema: typeof TRANSCRIPT_SCHEMA;
+  version: number;
+  sessionId: string;
+  exportedAt: string;
+  interviewType: string;
+  language: string;
+  startedAt?: string;
+  turns: TranscriptTurn[];
+}
+
+const TIMESTAMP_FIELDS = ['questionStartedAt', 'questionEndedAt', 'answerStartedAt', 'answerEndedAt'] as const;
+
+// A day is far longer than any real turn
+const MAX_PROCESSING_MS = 24 * 60 * 60 * 1000;
+
+export class TurnTimingError extends StructuredOutputError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TurnTimingError';
+  }
+}
+
+export const validateTurnTiming = (value: unknown): TurnTiming => {
+  if (!isRecord(value)) {
+    throw new TurnTimingError('Turn timing must be an object');
+  }
+
+  const timing: TurnTiming = {};
+  for (const field of TIMESTAMP_FIELDS) {
+    const timestamp = value[field];
+    if (timestamp === undefined) {
+      continue;
+    }
+    if (typeof timestamp !== 'string' || Number.isNaN(Date.parse(timestamp))) {
+      throw new TurnTimingError(`"${field}" must be an ISO timestamp`);
+    }
+    timing[field] = timestamp;
+  }
+
+  const { processingMs } = value;
+  if (processingMs !== undefined) {
+    if (typeof processingMs !== 'number' || !Number.isFinite(processingMs) || processingMs < 0 || processingMs > MAX_PROCESSING_MS) {
+      throw new TurnTimingError(`"processingMs" must be a number between 0 and ${MAX_PROCESSING_MS}`);
+    }
+    timing.processingMs = Math.round(processingMs);
+  }
+  return timing;
+};
+
+export const buildTranscript = (sessionId: string, context: InterviewContext): InterviewTranscript => {
+  return {
+    schema: TRANSCRIPT_SCHEMA,
+    version: TRANSCRIPT_VERSION,
+    sessionId,
+    exportedAt: new Date().toISOString(),
+    interviewType: context.interviewType,
+    language: context.language ?? 'en',
+    ...(context.startedAt ? { startedAt: context.startedAt } : {}),
+    turns: context.conversationHistory.map((turn, index) => ({
+      number: index + 1,
+      question: turn.question,
+      answer: turn.answer,
+      ...(turn.category ? { category: turn.category } : {}),
+      ...(turn.timing ? { timing: turn.timing } : {}),
+      ...(turn.code ? { code: { language: turn.code.language, code: turn.code.code } } : {}),
+      ...(turn.endOfTurn?.length ? { endOfTurn: turn.endOfTurn } : {})
+    }))
+  };
+};
+
+export const formatTranscriptJson = (transcript: InterviewTranscript): string => {
+  return JSON.stringify(transcript, null, 2);
+};
+
+const formatClockTime = (timestamp: string | undefined): string => {
+  return timestamp ? new Date(timestamp).toLocaleTimeString() : '';
+};
+
+const formatSeconds = (start: string | undefined, end: string | undefined): string => {
+  if (!start || !end) {
+    return '';
+  }
+  return `${((Date.parse(end) - Date.parse(start)) / 1000).toFixed(1)}s`;
+};
+
+export const formatTranscriptMarkdown = (transcript: InterviewTranscript): string => {
+  const turns = transcript.turns.map(turn => {
+    const timing = turn.timing ?? {};
+    const asked = [formatClockTime(timing.questionStartedAt), formatSeconds(timing.questionStartedAt, timing.questionEndedAt)]
+      .filter(Boolean)
+      .join(', ');
+    const answered = [
+      formatClockTime(timing.answerStartedAt),
+      formatSeconds(timing.answerStartedAt, timing.answerEndedAt),
+      timing.processingMs !== undefined ? `${timing.processingMs}ms to the next question` : ''
+    ].filter(Boolean).join(', ');
+    const code = turn.code
+      ? `\n\n${CODING_LANGUAGES[turn.code.language] ?? turn.code.language} code:\n\n\`\`\`${turn.code.language}\n${turn.code.code}\n\`\`\``
+      : '';
+
+    return `## Question ${turn.number}${turn.category ? ` (${turn.category})` : ''}
+
+**Interviewer**${asked ? ` _(${asked})_` : ''}: ${turn.question}
+
+**Candidate**${answered ? ` _(${answered})_` : ''}: ${turn.answer}${code}`;
+  });
+
+  return `# Interview Transcript
+
+${transcript.interviewType} interview, started ${transcript.startedAt ? new Date(transcript.startedAt).toLocaleString() : 'at an unknown time'}. Exported ${new Date(transcript.exportedAt).toLocaleString()}.
+
+${turns.length > 0 ? turns.join('\n\n') : '_No answers yet._'}
+`;
+};
+
+// HH:MM:SS.mmm from the start of the recording
+const formatCueTime = (ms: number): string => {
+  const clamped = Math.max(0, Math.round(ms));
+  const hours = Math.floor(clamped / 3_600_000);
+  const minutes = Math.floor(clamped / 60_000) % 60;
+  const seconds = Math.floor(clamped / 1000) % 60;
+  const pad = (value: number, width = 2) => value.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(clamped % 1000, 3)}`;
+};
+
+// Cue text can't contain blank lines or the "-->" arrow, and "<" and "&" start markup
+const escapeCueText = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n\s*\n/g, '\n');
+};
+
+/**
+ * One cue per question and answer, timed from the interview start (or the
+ * first timestamp) so it lines up with a recording started with the interview.
+ * Turns recorded without timing are left out.
+ */
+export const formatTranscriptWebVtt = (transcript: InterviewTranscript): string => {
+  const cues: string[] = [];
+  const firstTimestamp = transcript.turns.find(turn => turn.timing?.questionStartedAt)?.timing?.questionStartedAt;
+  const origin = transcript.startedAt ?? firstTimestamp;
+
+  if (origin) {
+    const offset = (timestamp: string) => Date.parse(timestamp) - Date.parse(origin);
+    const addCue = (id: string, speaker: string, text: string, start?: string, end?: string) => {
+      if (!start || !end || Date.parse(end) < Date.parse(start)) {
+        return;
+      }
+      cues.push(`${id}\n${formatCueTime(offset(start))} --> ${formatCueTime(offset(end))}\n<v ${speaker}>${escapeCueText(text)}`);
+    };
+
+    for (const turn of transcript.turns) {
+      const timing = turn.timing ?? {};
+      addCue(`q${turn.number}`, 'Interviewer', turn.question, timing.questionStartedAt, timing.questionEndedAt);
+      addCue(`a${turn.number}`, 'Candidate', turn.answer, timing.answerStartedAt, timing.answerEndedAt);
+    }
+  }
+
+  return `WEBVTT - Interview transcript\n\n${cues.join('\n\n')}\n`;
+};
@@ -0,0 +1,122 @@
+import { TextToSpeechEngine, TtsUtterance, TtsVoice } from './types';
+
+// Some browsers never fire voiceschanged when they have no voices at all
+const VOICE_LOAD_TIMEOUT_MS = 2000;
+
+/**
+ * The browser's speechSynthesis. Free and instant, but the voices on offer
+ * differ a lot between operating systems and browsers.
+ */
+export class BrowserTtsEngine implements TextToSpeechEngine {
+  readonly type = 'browser';
+  readonly supportsPitch = true;
+  private waitingForVoices: Array<{ utterance: SpeechSynthesisUtterance; voiceId?: string; resolve: () => void }> = [];
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && !!window.speechSynthesis;
+  }
+
+  async listVoices(lang: string): Promise<TtsVoice[]> {
+    if (!this.isSupported()) {
+      return [];
+    }
+
+    const voices = await this.loadVoices();
+    const language = lang.split('-')[0].toLowerCase();
+    return voices
+      .filter(voice => voice.lang.toLowerCase().startsWith(language))
+      .map(voice => ({ id: voice.voiceURI, name: voice.name, lang: voice.lang }));
+  }
+
+  speak({ text, lang, settings, onStart }: TtsUtterance): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.isSupported()) {
+        reject(new Error('Speech synthesis not supported'));
+        return;
+      }
+
+      const utterance = new SpeechSynthesisUtterance(text);
+      // Without a matching voice the browser still picks one for the language
+      utterance.lang = lang;
+      utterance.rate = settings.rate;
+      utterance.pitch = settings.pitch;
+      utterance.volume = 1;
+
+      utterance.onstart = () => onStart?.();
+      utterance.onend = () => resolve();
+      utterance.onerror = (event) => {
+        // Cancelled by cancel(), not a failure
+        if (event.error === 'canceled' || event.error === 'interrupted') {
+          resolve();
+          return;
+        }
+        reject(new Error(`Speech synthesis error: ${event.error}`));
+      };
+
+      // Ensure voices are loaded before speaking
+      if (window.speechSynthesis.getVoices().length === 0) {
+        this.waitingForVoices.push({ utterance, voiceId: settings.voiceId, resolve });
+        window.speechSynthesis.onvoiceschanged = () => {
+          const waiting = this.waitingForVoices;
+          this.waitingForVoices = [];
+          waiting.forEach(queued => {
+            this.applyVoice(queued.utterance, queued.voiceId);
+            window.speechSynthesis.speak(queued.utterance);
+          });
+        };
+      } else {
+        this.applyVoice(utterance, settings.voiceId);
+        window.speechSynthesis.speak(utterance);
+      }
+    });
+  }
+
+  cancel(): void {
+    if (!this.isSupported()) {
+      return;
+    }
+    window.speechSynthesis.cancel();
+    // Utterances still waiting for voices never reach the engine, so settle them here
+    this.waitingForVoices.forEach(queued => queued.resolve());
+    this.waitingForVoices = [];
+  }
+
+  private applyVoice(utterance: SpeechSynthesisUtterance, voiceId?: string): void {
+    const voices = window.speechSynthesis.getVoices();
+    const chosen = voiceId ? voices.find(voice => voice.voiceURI === voiceId) : undefined;
+    if (chosen) {
+      utterance.voice = chosen;
+      return;
+    }
+
+    // Find a natural-sounding voice, preferring the exact locale over another region of the language
+    const lang = utterance.lang;
+    const language = lang.split('-')[0].toLowerCase();
+    const isNatural = (voice: SpeechSynthesisVoice) =>
+      voice.name.includes('Natural') || voice.name.includes('Enhanced') || voice.default;
+    const sameLocale = voices.filter(voice => voice.lang.replace('_', '-').toLowerCase() === lang.toLowerCase());
+    const sameLanguage = voices.filter(voice => voice.lang.toLowerCase().startsWith(language));
+    const voice = sameLocale.find(isNatural) ?? sameLanguage.find(isNatural) ?? sameLocale[0] ?? sameLanguage[0];
+
+    if (voice) {
+      utterance.voice = voice;
+    }
+  }
+
+  private loadVoices(): Promise<SpeechSynthesisVoice[]> {
+    const voices = window.speechSynthesis.getVoices();
+    if (voices.length > 0) {
+      return Promise.resolve(voices);
+    }
+
+    return new Promise(resolve => {
+      const done = () => {
+        window.speechSynthesis.removeEventListener('voiceschanged', done);
+        clearTimeout(timer);
+        resolve(window.speechSynthesis.getVoices());
+      };
+      const timer = setTimeout(done, VOICE_LOAD_TIMEOUT_MS);
+      window.speechSynthesis.addEventListener('voiceschanged', done);
+    });
+  }
+}
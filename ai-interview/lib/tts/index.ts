@@ -0,0 +1,42 @@
+import { BrowserTtsEngine } from './browser-engine';
+import { ServerTtsEngine } from './server-engine';
+import { TextToSpeechEngine, TTS_ENGINE_TYPES, TtsEngineType } from './types';
+
+export * from './types';
+export { BrowserTtsEngine } from './browser-engine';
+export { ServerTtsEngine } from './server-engine';
+
+const configuredEngine = process.env.NEXT_PUBLIC_TTS_ENGINE as TtsEngineType | undefined;
+
+// Set NEXT_PUBLIC_TTS_ENGINE=server to use the voices of the TTS server behind TTS_BASE_URL
+export const DEFAULT_TTS_ENGINE: TtsEngineType =
+  configuredEngine && TTS_ENGINE_TYPES.includes(configuredEngine) ? configuredEngine : 'browser';
+
+export const createTtsEngine = (type: TtsEngineType): TextToSpeechEngine => {
+  switch (type) {
+    case 'browser':
+      return new BrowserTtsEngine();
+    case 'server':
+      return new ServerTtsEngine();
+  }
+};
+
+/**
+ * The preferred engine, or the browser's own voices when the preferred one
+ * can't run here.
+ */
+export const resolveTtsEngine = (preferred: TtsEngineType): TextToSpeechEngine => {
+  const engine = createTtsEngine(preferred);
+  if (engine.isSupported()) {
+    return engine;
+  }
+
+  for (const type of TTS_ENGINE_TYPES.filter(type => type !== preferred)) {
+    const fallback = createTtsEngine(type);
+    if (fallback.isSupported()) {
+      console.warn(`⚠️ ${preferred} text-to-speech is not available in this browser, using ${type}`);
+      return fallback;
+    }
+  }
+  return engine;
+};
@@ -0,0 +1,161 @@
+import {
+  INTERVIEW_API_ROUTES,
+  InterviewApiErrorBody,
+  SpeechRequest,
+  SpeechVoicesResponse
+} from '../interview-api';
+import { frameLevel } from '../barge-in';
+import { fetchWithSession } from '../interview-session';
+import { TextToSpeechEngine, TtsUtterance, TtsVoice } from './types';
+
+/**
+ * Plays audio from the speech route, which relays a configurable TTS server.
+ * Each utterance is requested as soon as it is queued, so the next sentence
+ * is usually ready by the time the current one finishes.
+ */
+export class ServerTtsEngine implements TextToSpeechEngine {
+  readonly type = 'server';
+  // OpenAI-style speech APIs only take a speed
+  readonly supportsPitch = false;
+  private playback: Promise<void> = Promise.resolve();
+  // Bumped on cancel so queued utterances are skipped
+  private generation = 0;
+  private controller = new AbortController();
+  private current: { audio: HTMLAudioElement; finish: () => void } | null = null;
+  private voices: Promise<TtsVoice[]> | null = null;
+  // Playback is routed through this to measure its level for barge-in
+  private meter: { context: AudioContext; analyser: AnalyserNode; samples: Float32Array<ArrayBuffer> } | null = null;
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof Audio !== 'undefined';
+  }
+
+  // The server's voices aren't tied to a language, so all of them are offered
+  listVoices(): Promise<TtsVoice[]> {
+    if (!this.voices) {
+      this.voices = fetch(INTERVIEW_API_ROUTES.speech)
+        .then(response => response.ok ? response.json() as Promise<SpeechVoicesResponse> : { voices: [] })
+        .then(body => body.voices)
+        .catch(error => {
+          console.error('Error loading server voices:', error);
+          this.voices = null;
+          return [];
+        });
+    }
+    return this.voices;
+  }
+
+  speak(utterance: TtsUtterance): Promise<void> {
+    const generation = this.generation;
+    const audio = this.fetchAudio(utterance, this.controller.signal);
+    // Failures surface when the utterance's turn to play comes
+    audio.catch(() => undefined);
+
+    const played = this.playback.then(() => this.play(audio, generation, utterance.onStart));
+    this.playback = played.catch(() => undefined);
+    return played;
+  }
+
+  cancel(): void {
+    this.generation += 1;
+    this.controller.abort();
+    this.controller = new AbortController();
+    if (this.current) {
+      this.current.audio.pause();
+      this.current.finish();
+    }
+  }
+
+  getOutputLevel(): number | null {
+    if (!this.meter) {
+      return null;
+    }
+    if (!this.current) {
+      return 0;
+    }
+    this.meter.analyser.getFloatTimeDomainData(this.meter.samples);
+    return frameLevel(this.meter.samples);
+  }
+
+  private connectMeter(element: HTMLAudioElement): void {
+    try {
+      if (!this.meter) {
+        const context = new AudioContext();
+        const analyser = context.createAnalyser();
+        analyser.fftSize = 2048;
+        analyser.connect(context.destination);
+        this.meter = { context, analyser, samples: new Float32Array(analyser.fftSize) };
+      }
+      // The element now plays through the context, so it has to be running
+      this.meter.context.createMediaElementSource(element).connect(this.meter.analyser);
+      this.meter.context.resume().catch(() => undefined);
+    } catch (error) {
+      // The element still plays directly; barge-in falls back to the echo estimate
+      console.warn('Speech output level unavailable:', error);
+    }
+  }
+
+  private async fetchAudio({ text, settings }: TtsUtterance, signal: AbortSignal): Promise<Blob> {
+    const body: SpeechRequest = {
+      text,
+      rate: settings.rate,
+      ...(settings.voiceId ? { voice: settings.voiceId } : {})
+    };
+    const response = await fetchWithSession(INTERVIEW_API_ROUTES.speech, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null) as InterviewApiErrorBody | null;
+      throw new Error(errorBody?.error ?? `Speech request failed with status ${response.status}`);
+    }
+    return response.blob();
+  }
+
+  private async play(audio: Promise<Blob>, generation: number, onStart?: () => void): Promise<void> {
+    let blob: Blob;
+    try {
+      blob = await audio;
+    } catch (error) {
+      // Aborted by cancel(), not a failure
+      if (generation !== this.generation) {
+        return;
+      }
+      throw error;
+    }
+    if (generation !== this.generation) {
+      return;
+    }
+
+    const url = URL.createObjectURL(blob);
+    const element = new Audio(url);
+    this.connectMeter(element);
+    await new Promise<void>((resolve, reject) => {
+      const settle = () => {
+        URL.revokeObjectURL(url);
+        this.current = null;
+      };
+      const finish = () => {
+        settle();
+        resolve();
+      };
+
+      element.onplaying = () => onStart?.();
+      element.onended = finish;
+      element.onerror = () => {
+        settle();
+        reject(new Error('Speech audio could not be played'));
+      };
+      this.current = { audio: element, finish };
+      element.play().catch(error => {
+        settle();
+        reject(error);
+      });
+    });
+  }
+}
@@ -0,0 +1,55 @@
+export type TtsEngineType = 'browser' | 'server';
+
+export const TTS_ENGINE_TYPES: TtsEngineType[] = ['browser', 'server'];
+
+export interface TtsVoice {
+  id: string;
+  name: string;
+  // BCP 47 locale, when the engine knows it
+  lang?: string;
+}
+
+export interface TtsSettings {
+  // Unset picks the engine's best voice for the interview language
+  voiceId?: string;
+  rate: number;
+  pitch: number;
+}
+
+export const DEFAULT_TTS_SETTINGS: TtsSettings = {
+  rate: 0.9,
+  pitch: 1
+};
+
+export const TTS_LIMITS = {
+  minRate: 0.5,
+  maxRate: 2,
+  minPitch: 0.5,
+  maxPitch: 1.5
+} as const;
+
+export interface TtsUtterance {
+  text: string;
+  // BCP 47 locale of the interview language
+  lang: string;
+  settings: TtsSettings;
+  // Fires when the audio actually starts playing
+  onStart?: () => void;
+}
+
+/**
+ * Something that can read text aloud. speak() queues behind anything already
+ * playing and resolves when the utterance has played or been cancelled.
+ */
+export interface TextToSpeechEngine {
+  readonly type: TtsEngineType;
+  // Whether pitch changes are honoured; some servers only support speed
+  readonly supportsPitch: boolean;
+  isSupported(): boolean;
+  listVoices(lang: string): Promise<TtsVoice[]>;
+  speak(utterance: TtsUtterance): Promise<void>;
+  // Stops playback and settles everything still queued
+  cancel(): void;
+  // RMS level of what is playing right now; absent or null when the engine can't measure it
+  getOutputLevel?(): number | null;
+}
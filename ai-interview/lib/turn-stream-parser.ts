@@ -0,0 +1,137 @@
+import { hasLeakedMetaText } from './prompt-safety';
+import { SentenceSplitter } from './sentence-splitter';
+
+// 'closing' is the fixed closing statement; the parser itself only emits the first two
+export type TurnPart = 'appreciation' | 'question' | 'closing';
+
+export interface TurnDelta {
+  part: TurnPart;
+  text: string;
+}
+
+export const QUESTION_MARKER = 'QUESTION:';
+
+const QUESTION_MARKER_PATTERN = /QUESTION:\s*/i;
+
+/**
+ * Splits a streamed "acknowledgment, then QUESTION: ..." completion into its
+ * two parts as the text arrives. A short tail is held back while the marker
+ * hasn't been seen so a marker split across chunks is never spoken aloud.
+ */
+export class TurnStreamParser {
+  private buffer = '';
+  private emitted = 0;
+  private markerIndex: number | null = null;
+  private questionStart: number | null = null;
+  private expectQuestion: boolean;
+
+  // With expectQuestion off everything is treated as acknowledgment
+  constructor(options: { expectQuestion?: boolean } = {}) {
+    this.expectQuestion = options.expectQuestion ?? true;
+  }
+
+  push(chunk: string): TurnDelta[] {
+    this.buffer += chunk;
+    return this.drain(false);
+  }
+
+  end(): TurnDelta[] {
+    return this.drain(true);
+  }
+
+  get appreciation(): string {
+    return this.buffer.slice(0, this.markerIndex ?? this.buffer.length).trim();
+  }
+
+  get question(): string {
+    return this.questionStart === null ? '' : this.buffer.slice(this.questionStart).trim();
+  }
+
+  private drain(final: boolean): TurnDelta[] {
+    const deltas: TurnDelta[] = [];
+
+    if (this.questionStart === null) {
+      const match = this.expectQuestion ? QUESTION_MARKER_PATTERN.exec(this.buffer) : null;
+
+      if (match) {
+        deltas.push({ part: 'appreciation', text: this.buffer.slice(this.emitted, match.index) });
+        this.markerIndex = match.index;
+        this.questionStart = match.index + match[0].length;
+        this.emitted = this.questionStart;
+      } else {
+        const safeEnd = final || !this.expectQuestion
+          ? this.buffer.length
+          : Math.max(this.emitted, this.buffer.length - QUESTION_MARKER.length);
+        deltas.push({ part: 'appreciation', text: this.buffer.slice(this.emitted, safeEnd) });
+        this.emitted = safeEnd;
+      }
+    }
+
+    if (this.questionStart !== null && this.buffer.length > this.emitted) {
+      deltas.push({ part: 'question', text: this.buffer.slice(this.emitted) });
+      this.emitted = this.buffer.length;
+    }
+
+    return deltas.filter(delta => delta.text.length > 0);
+  }
+}
+
+/**
+ * Passes the acknowledgment on a sentence at a time, dropping sentences with
+ * leaked labels or commentary. Questions asked in the acknowledgment are
+ * held back ('hold', for a model that skipped the marker), dropped ('drop')
+ * or spoken ('keep'). Every sentence that would be spoken also has to pass
+ * isAllowed, since it reaches the candidate before any later check.
+ */
+export class AcknowledgmentFilter {
+  private splitter = new SentenceSplitter();
+  private sentences: string[] = [];
+  private questions: 'hold' | 'drop' | 'keep';
+  private heldQuestion = '';
+  private isAllowed: (sentence: string) => boolean;
+
+  constructor(questions: 'hold' | 'drop' | 'keep', isAllowed: (sentence: string) => boolean = () => true) {
+    this.questions = questions;
+    this.isAllowed = isAllowed;
+  }
+
+  // Question deltas are dropped; the caller speaks the question once it has been checked
+  push(deltas: TurnDelta[]): TurnDelta[] {
+    return deltas
+      .filter(delta => delta.part === 'appreciation')
+      .flatMap(delta => this.screen(this.splitter.push(delta.text)));
+  }
+
+  end(): TurnDelta[] {
+    return this.screen(this.splitter.flush());
+  }
+
+  get appreciation(): string {
+    return this.sentences.join(' ');
+  }
+
+  get unmarkedQuestion(): string {
+    return this.heldQuestion;
+  }
+
+  private screen(sentences: string[]): TurnDelta[] {
+    return sentences.flatMap(sentence => {
+      if (hasLeakedMetaText(sentence)) {
+        console.warn(`🛡️ Dropped acknowledgment sentence with meta-text: "${sentence}"`);
+        return [];
+      }
+      if (sentence.includes('?') && this.questions !== 'keep') {
+        if (this.questions === 'hold') {
+          this.heldQuestion = sentence;
+        }
+        return [];
+      }
+      if (!this.isAllowed(sentence)) {
+        return [];
+      }
+
+      this.sentences.push(sentence);
+      return [{ part: 'appreciation' as const, text: `${sentence} ` }];
+    });
+  }
+}
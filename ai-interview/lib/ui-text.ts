@@ -0,0 +1,674 @@
+import type { DegradedStatus } from './ai-interviewer';
+import { LanguageCode } from './languages';
+import type { CalibrationWarning } from './mic-calibration';
+
+type StateText = Record<'waiting' | 'asking' | 'listening' | 'processing' | 'completed' | 'error', { title: string; subtitle: string }>;
+
+/**
+ * Candidate-facing text of the interview page, in each interview language.
+ * The report and compliance log are for the hiring team and stay in English.
+ */
+export interface UiText {
+  states: StateText;
+  setup: {
+    jobDescriptionLabel: string;
+    jobDescriptionPlaceholder: string;
+    resumeLabel: string;
+    resumePlaceholder: string;
+    uploadDocument: string;
+    readingDocument: string;
+    questionCount: string;
+    timeLimit: string;
+    noLimit: string;
+    interviewType: string;
+    interviewTypes: Record<'general' | 'technical', string>;
+    language: string;
+    jurisdiction: string;
+    start: string;
+    unsupported: string;
+    unsupportedHelp: string;
+    unsupportedAlert: string;
+    lengthRequiredAlert: string;
+  };
+  voice: {
+    voice: string;
+    automatic: string;
+    rate: string;
+    pitch: string;
+    preview: string;
+    sample: string;
+  };
+  microphone: {
+    label: string;
+    systemDefault: string;
+    // For devices listed before mic access is granted, which have no name
+    unnamed: (number: number) => string;
+    level: string;
+    // Shown when a microphone is plugged in or removed mid-interview
+    changedTitle: string;
+    changedMessage: string;
+    continue: string;
+  };
+  micCheck: {
+    title: string;
+    start: string;
+    again: string;
+    quiet: string;
+    read: string;
+    // Read aloud during the check; plain words the recognizer should get right
+    sentence: string;
+    finished: string;
+    analyzing: string;
+    heard: string;
+    ready: string;
+    failed: string;
+    warnings: Record<CalibrationWarning, string>;
+  };
+  resume: {
+    title: string;
+    details: (question: number, savedAt: string) => string;
+    resume: string;
+    startOver: string;
+  };
+  // Spoken replies to the candidate's spoken requests
+  intents: {
+    pauseReply: string;
+    endConfirm: string;
+    endReply: string;
+    // Sent to the interviewer in place of an answer
+    skippedAnswer: string;
+  };
+  errors: {
+    title: string;
+    tryAgain: string;
+    startFailed: string;
+    speakFailed: string;
+    processingFailed: string;
+  };
+  degraded: {
+    title: string;
+    messages: Record<DegradedStatus['reason'], string>;
+  };
+  progress: {
+    candidateQuestions: string;
+    question: (number: number, max?: number | null) => string;
+    latency: (seconds: string) => string;
+    idle: string;
+  };
+  transcript: {
+    currentQuestion: string;
+    yourResponse: string;
+    confidence: string;
+    listening: string;
+    speakingDetected: string;
+    hint: string;
+  };
+  indicators: {
+    aiSpeaking: string;
+    listening: string;
+    vadActive: string;
+    processing: string;
+  };
+  completed: {
+    title: string;
+    summary: (questions: number) => string;
+    preparingReport: string;
+    reportFailed: string;
+    retryReport: string;
+    startNew: string;
+  };
+  codeEditor: {
+    heading: string;
+    size: (lines: number, characters: number, maxCharacters: number) => string;
+    placeholder: string;
+    hint: string;
+    submit: string;
+  };
+  // Spoken before the first question
+  welcome: string;
+  // Sent as the answer when a solution is submitted without any speech
+  silentSubmission: string;
+}
+
+export const UI_TEXT: Record<LanguageCode, UiText> = {
+  en: {
+    states: {
+      waiting: { title: 'AI Interview Ready', subtitle: 'Real-time AI interview with advanced voice detection' },
+      asking: { title: 'AI Interviewer Speaking', subtitle: 'Listen carefully to the personalized question...' },
+      listening: { title: 'Your Turn to Speak', subtitle: "Speak naturally - I'll detect when you finish" },
+      processing: { title: 'AI Processing Response', subtitle: 'Analyzing your answer and generating next question...' },
+      completed: { title: 'Interview Completed', subtitle: 'Thank you for the engaging conversation!' },
+      error: { title: 'Error Occurred', subtitle: 'Something went wrong during the interview' }
+    },
+    setup: {
+      jobDescriptionLabel: 'Job Description (optional)',
+      jobDescriptionPlaceholder: 'Paste the job description to tailor the questions to the role',
+      resumeLabel: 'Resume (optional)',
+      resumePlaceholder: 'Paste your resume so the interviewer can ask about your experience',
+      uploadDocument: 'Upload .txt, .md or .pdf',
+      readingDocument: 'Reading...',
+      questionCount: 'Number of questions',
+      timeLimit: 'Time limit (minutes)',
+      noLimit: 'No limit',
+      interviewType: 'Interview type',
+      interviewTypes: { general: 'General', technical: 'Technical (with coding task)' },
+      language: 'Interview language',
+      jurisdiction: 'Hiring jurisdiction',
+      start: 'Start AI Interview',
+      unsupported: 'Voice Detection Not Supported',
+      unsupportedHelp: 'Please use a supported browser (Chrome or Edge) with microphone access for advanced voice detection.',
+      unsupportedAlert: 'Speech recognition or voice activity detection not supported in your browser. Please use Chrome or Edge with microphone access.',
+      lengthRequiredAlert: 'Please set a number of questions, a time limit in minutes, or both.'
+    },
+    voice: {
+      voice: 'Interviewer voice',
+      automatic: 'Automatic',
+      rate: 'Speaking rate',
+      pitch: 'Pitch',
+      preview: 'Preview Voice',
+      sample: 'Hello! This is how I will sound during your interview.'
+    },
+    microphone: {
+      label: 'Microphone',
+      systemDefault: 'System default',
+      unnamed: number => `Microphone ${number}`,
+      level: 'Input level',
+      changedTitle: 'Your microphones changed',
+      changedMessage: 'A microphone was plugged in or removed, so the interview is paused. Choose the microphone to use, then continue.',
+      continue: 'Continue Interview'
+    },
+    micCheck: {
+      title: 'Microphone check',
+      start: 'Check Microphone',
+      again: 'Check Again',
+      quiet: 'Stay quiet for a few seconds while we measure the room.',
+      read: 'Now read this sentence aloud:',
+      sentence: 'I would like to start my interview and I will answer each question clearly.',
+      finished: "I've Finished Reading",
+      analyzing: 'Checking the results...',
+      heard: 'We heard',
+      ready: 'Your microphone is ready.',
+      failed: 'The microphone check failed. Make sure the browser is allowed to use your microphone.',
+      warnings: {
+        'no-input': "We didn't hear you. Check that the right microphone is selected and isn't muted.",
+        'low-input': 'Your voice is very quiet. Move closer to the microphone or raise its input level.',
+        'clipping': 'Your voice is distorting. Move back from the microphone or lower its input level.',
+        'noisy-room': 'There is a lot of background noise. A quieter room will help the interviewer hear you.',
+        'stt-failed': 'Speech recognition returned no text. This browser may not support the interview language.',
+        'stt-mismatch': "Speech recognition didn't understand the sentence well. Check that the interview language is the one you speak."
+      }
+    },
+    resume: {
+      title: 'Resume your interview?',
+      details: (question, savedAt) => `Your last interview was interrupted at question ${question} (saved ${savedAt}).`,
+      resume: 'Resume Interview',
+      startOver: 'Start Over'
+    },
+    intents: {
+      pauseReply: 'Of course, take your time.',
+      endConfirm: 'Do you want to end the interview now? Say yes to finish, or anything else to carry on.',
+      endReply: 'Thank you for your time today. The interview is now over.',
+      skippedAnswer: '(The candidate asked to skip this question.)'
+    },
+    errors: {
+      title: 'Error:',
+      tryAgain: 'Try Again',
+      startFailed: 'Failed to start interview. Please check your connection and microphone permissions.',
+      speakFailed: 'Error speaking question. Please check your audio settings.',
+      processingFailed: 'Error processing your response. Please try again.'
+    },
+    degraded: {
+      title: '⚠️ Fallback mode',
+      messages: {
+        'not-configured': 'No AI model is configured, so the interviewer is using built-in questions.',
+        'auth': 'The AI service rejected its credentials, so the interviewer is using built-in questions.',
+        'rate-limit': 'The AI service is rate limiting requests, so the interviewer is using built-in questions for now.',
+        'network': 'The AI service is slow or unreachable, so the interviewer is using built-in questions for now.',
+        'bad-output': 'The AI model returned unusable output, so the interviewer used a built-in question.',
+        'unknown': 'The AI service failed, so the interviewer is using built-in questions for now.'
+      }
+    },
+    progress: {
+      candidateQuestions: 'Your questions for us',
+      question: (number, max) => `Question ${number}${max ? ` of ${max}` : ''}`,
+      latency: seconds => `Response latency: ${seconds}s`,
+      idle: 'AI Interview with VAD'
+    },
+    transcript: {
+      currentQuestion: 'Current Question:',
+      yourResponse: 'Your Response:',
+      confidence: 'Confidence',
+      listening: 'Listening...',
+      speakingDetected: '🎤 Speaking Detected',
+      hint: 'Advanced voice activity detection will automatically detect when you finish speaking.'
+    },
+    indicators: {
+      aiSpeaking: 'AI Speaking',
+      listening: 'Listening',
+      vadActive: 'VAD Active',
+      processing: 'AI Processing'
+    },
+    completed: {
+      title: 'Interview Completed Successfully!',
+      summary: questions => `You completed a ${questions}-question AI-powered interview with advanced voice activity detection. The AI adapted its questions based on your responses in real-time.`,
+      preparingReport: 'Preparing candidate report...',
+      reportFailed: 'The candidate report could not be generated.',
+      retryReport: 'Retry Report',
+      startNew: 'Start New Interview'
+    },
+    codeEditor: {
+      heading: 'Coding Task',
+      size: (lines, characters, maxCharacters) => `${lines} line${lines === 1 ? '' : 's'} · ${characters}/${maxCharacters} characters`,
+      placeholder: 'Write your solution here and talk through your approach as you go.',
+      hint: "Keep thinking aloud while you code. Submit when you're ready to discuss your solution.",
+      submit: 'Submit Solution'
+    },
+    welcome: "Welcome to your Groq-powered AI interview with advanced voice detection. I'll automatically detect when you finish speaking. Please speak clearly and naturally. Let's begin.",
+    silentSubmission: '(The candidate submitted their code without commentary.)'
+  },
+  es: {
+    states: {
+      waiting: { title: 'Entrevista con IA lista', subtitle: 'Entrevista con IA en tiempo real con detección de voz avanzada' },
+      asking: { title: 'El entrevistador está hablando', subtitle: 'Escuche con atención la pregunta...' },
+      listening: { title: 'Su turno de hablar', subtitle: 'Hable con naturalidad; detectaré cuándo termina' },
+      processing: { title: 'Procesando su respuesta', subtitle: 'Analizando su respuesta y preparando la siguiente pregunta...' },
+      completed: { title: 'Entrevista finalizada', subtitle: '¡Gracias por la conversación!' },
+      error: { title: 'Se ha producido un error', subtitle: 'Algo ha fallado durante la entrevista' }
+    },
+    setup: {
+      jobDescriptionLabel: 'Descripción del puesto (opcional)',
+      jobDescriptionPlaceholder: 'Pegue la descripción del puesto para adaptar las preguntas al rol',
+      resumeLabel: 'Currículum (opcional)',
+      resumePlaceholder: 'Pegue su currículum para que el entrevistador pueda preguntar por su experiencia',
+      uploadDocument: 'Subir .txt, .md o .pdf',
+      readingDocument: 'Leyendo...',
+      questionCount: 'Número de preguntas',
+      timeLimit: 'Límite de tiempo (minutos)',
+      noLimit: 'Sin límite',
+      interviewType: 'Tipo de entrevista',
+      interviewTypes: { general: 'General', technical: 'Técnica (con ejercicio de programación)' },
+      language: 'Idioma de la entrevista',
+      jurisdiction: 'Jurisdicción de contratación',
+      start: 'Comenzar la entrevista',
+      unsupported: 'Detección de voz no disponible',
+      unsupportedHelp: 'Utilice un navegador compatible (Chrome o Edge) con acceso al micrófono para la detección de voz avanzada.',
+      unsupportedAlert: 'Su navegador no admite el reconocimiento de voz ni la detección de actividad de voz. Utilice Chrome o Edge con acceso al micrófono.',
+      lengthRequiredAlert: 'Indique un número de preguntas, un límite de tiempo en minutos o ambos.'
+    },
+    voice: {
+      voice: 'Voz del entrevistador',
+      automatic: 'Automática',
+      rate: 'Velocidad de habla',
+      pitch: 'Tono',
+      preview: 'Probar voz',
+      sample: '¡Hola! Así sonaré durante su entrevista.'
+    },
+    microphone: {
+      label: 'Micrófono',
+      systemDefault: 'Predeterminado del sistema',
+      unnamed: number => `Micrófono ${number}`,
+      level: 'Nivel de entrada',
+      changedTitle: 'Sus micrófonos han cambiado',
+      changedMessage: 'Se ha conectado o desconectado un micrófono, así que la entrevista está en pausa. Elija el micrófono que quiere usar y continúe.',
+      continue: 'Continuar la entrevista'
+    },
+    micCheck: {
+      title: 'Prueba de micrófono',
+      start: 'Probar micrófono',
+      again: 'Probar de nuevo',
+      quiet: 'Permanezca en silencio unos segundos mientras medimos el ruido de la sala.',
+      read: 'Ahora lea esta frase en voz alta:',
+      sentence: 'Quiero empezar mi entrevista y responderé a cada pregunta con claridad.',
+      finished: 'He terminado de leer',
+      analyzing: 'Comprobando los resultados...',
+      heard: 'Hemos oído',
+      ready: 'Su micrófono está listo.',
+      failed: 'La prueba de micrófono ha fallado. Compruebe que el navegador puede usar su micrófono.',
+      warnings: {
+        'no-input': 'No le hemos oído. Compruebe que ha elegido el micrófono correcto y que no está silenciado.',
+        'low-input': 'Su voz se oye muy baja. Acérquese al micrófono o suba su nivel de entrada.',
+        'clipping': 'Su voz se distorsiona. Aléjese del micrófono o baje su nivel de entrada.',
+        'noisy-room': 'Hay mucho ruido de fondo. Una sala más tranquila ayudará a que el entrevistador le oiga.',
+        'stt-failed': 'El reconocimiento de voz no devolvió texto. Puede que este navegador no admita el idioma de la entrevista.',
+        'stt-mismatch': 'El reconocimiento de voz no entendió bien la frase. Compruebe que el idioma de la entrevista es el que usted habla.'
+      }
+    },
+    resume: {
+      title: '¿Desea reanudar su entrevista?',
+      details: (question, savedAt) => `Su última entrevista se interrumpió en la pregunta ${question} (guardada el ${savedAt}).`,
+      resume: 'Reanudar entrevista',
+      startOver: 'Empezar de nuevo'
+    },
+    intents: {
+      pauseReply: 'Por supuesto, tómese su tiempo.',
+      endConfirm: '¿Quiere terminar la entrevista ahora? Diga sí para terminar, o cualquier otra cosa para continuar.',
+      endReply: 'Gracias por su tiempo. La entrevista ha terminado.',
+      skippedAnswer: '(El candidato pidió saltar esta pregunta.)'
+    },
+    errors: {
+      title: 'Error:',
+      tryAgain: 'Intentar de nuevo',
+      startFailed: 'No se pudo iniciar la entrevista. Compruebe su conexión y los permisos del micrófono.',
+      speakFailed: 'No se pudo leer la pregunta en voz alta. Compruebe la configuración de audio.',
+      processingFailed: 'No se pudo procesar su respuesta. Inténtelo de nuevo.'
+    },
+    degraded: {
+      title: '⚠️ Modo de respaldo',
+      messages: {
+        'not-configured': 'No hay ningún modelo de IA configurado, así que el entrevistador usa preguntas predefinidas.',
+        'auth': 'El servicio de IA rechazó sus credenciales, así que el entrevistador usa preguntas predefinidas.',
+        'rate-limit': 'El servicio de IA está limitando las solicitudes, así que el entrevistador usa preguntas predefinidas por ahora.',
+        'network': 'El servicio de IA está lento o no responde, así que el entrevistador usa preguntas predefinidas por ahora.',
+        'bad-output': 'El modelo de IA devolvió una respuesta no válida, así que el entrevistador usó una pregunta predefinida.',
+        'unknown': 'El servicio de IA ha fallado, así que el entrevistador usa preguntas predefinidas por ahora.'
+      }
+    },
+    progress: {
+      candidateQuestions: 'Sus preguntas para nosotros',
+      question: (number, max) => `Pregunta ${number}${max ? ` de ${max}` : ''}`,
+      latency: seconds => `Tiempo de respuesta: ${seconds} s`,
+      idle: 'Entrevista con IA y VAD'
+    },
+    transcript: {
+      currentQuestion: 'Pregunta actual:',
+      yourResponse: 'Su respuesta:',
+      confidence: 'Confianza',
+      listening: 'Escuchando...',
+      speakingDetected: '🎤 Voz detectada',
+      hint: 'La detección de actividad de voz reconocerá automáticamente cuándo termina de hablar.'
+    },
+    indicators: {
+      aiSpeaking: 'IA hablando',
+      listening: 'Escuchando',
+      vadActive: 'VAD activo',
+      processing: 'IA procesando'
+    },
+    completed: {
+      title: '¡Entrevista completada!',
+      summary: questions => `Ha completado una entrevista de ${questions} pregunta${questions === 1 ? '' : 's'} con IA y detección de actividad de voz. La IA ha adaptado sus preguntas a sus respuestas en tiempo real.`,
+      preparingReport: 'Preparando el informe del candidato...',
+      reportFailed: 'No se pudo generar el informe del candidato.',
+      retryReport: 'Reintentar informe',
+      startNew: 'Nueva entrevista'
+    },
+    codeEditor: {
+      heading: 'Ejercicio de programación',
+      size: (lines, characters, maxCharacters) => `${lines} línea${lines === 1 ? '' : 's'} · ${characters}/${maxCharacters} caracteres`,
+      placeholder: 'Escriba aquí su solución y explique su enfoque a medida que avanza.',
+      hint: 'Siga pensando en voz alta mientras programa. Envíe la solución cuando esté listo para comentarla.',
+      submit: 'Enviar solución'
+    },
+    welcome: 'Bienvenido a su entrevista con IA impulsada por Groq y detección de voz avanzada. Detectaré automáticamente cuándo termina de hablar. Hable con claridad y naturalidad. Empecemos.',
+    silentSubmission: '(El candidato envió su código sin comentarios.)'
+  },
+  fr: {
+    states: {
+      waiting: { title: 'Entretien IA prêt', subtitle: 'Entretien IA en temps réel avec détection vocale avancée' },
+      asking: { title: "L'intervieweur parle", subtitle: 'Écoutez attentivement la question...' },
+      listening: { title: 'À vous de parler', subtitle: 'Parlez naturellement, je détecterai quand vous aurez terminé' },
+      processing: { title: 'Analyse de votre réponse', subtitle: 'Analyse de votre réponse et préparation de la question suivante...' },
+      completed: { title: 'Entretien terminé', subtitle: 'Merci pour cet échange !' },
+      error: { title: 'Une erreur est survenue', subtitle: "Un problème est survenu pendant l'entretien" }
+    },
+    setup: {
+      jobDescriptionLabel: 'Description du poste (facultatif)',
+      jobDescriptionPlaceholder: 'Collez la description du poste pour adapter les questions au rôle',
+      resumeLabel: 'CV (facultatif)',
+      resumePlaceholder: "Collez votre CV pour que l'intervieweur puisse vous interroger sur votre expérience",
+      uploadDocument: 'Importer un .txt, .md ou .pdf',
+      readingDocument: 'Lecture...',
+      questionCount: 'Nombre de questions',
+      timeLimit: 'Durée maximale (minutes)',
+      noLimit: 'Illimité',
+      interviewType: "Type d'entretien",
+      interviewTypes: { general: 'Général', technical: 'Technique (avec exercice de programmation)' },
+      language: "Langue de l'entretien",
+      jurisdiction: 'Juridiction de recrutement',
+      start: "Commencer l'entretien",
+      unsupported: 'Détection vocale non prise en charge',
+      unsupportedHelp: 'Utilisez un navigateur compatible (Chrome ou Edge) avec accès au micro pour la détection vocale avancée.',
+      unsupportedAlert: "Votre navigateur ne prend pas en charge la reconnaissance vocale ou la détection d'activité vocale. Utilisez Chrome ou Edge avec accès au micro.",
+      lengthRequiredAlert: 'Indiquez un nombre de questions, une durée en minutes, ou les deux.'
+    },
+    voice: {
+      voice: "Voix de l'intervieweur",
+      automatic: 'Automatique',
+      rate: 'Débit de parole',
+      pitch: 'Hauteur',
+      preview: 'Écouter la voix',
+      sample: 'Bonjour ! Voici comment je parlerai pendant votre entretien.'
+    },
+    microphone: {
+      label: 'Micro',
+      systemDefault: 'Micro par défaut du système',
+      unnamed: number => `Micro ${number}`,
+      level: "Niveau d'entrée",
+      changedTitle: 'Vos micros ont changé',
+      changedMessage: "Un micro a été branché ou débranché, l'entretien est donc en pause. Choisissez le micro à utiliser, puis continuez.",
+      continue: "Reprendre l'entretien"
+    },
+    micCheck: {
+      title: 'Test du micro',
+      start: 'Tester le micro',
+      again: 'Tester à nouveau',
+      quiet: 'Ne parlez pas pendant quelques secondes, le temps de mesurer le bruit ambiant.',
+      read: 'Lisez maintenant cette phrase à voix haute :',
+      sentence: 'Je voudrais commencer mon entretien et je répondrai clairement à chaque question.',
+      finished: "J'ai fini de lire",
+      analyzing: 'Vérification des résultats...',
+      heard: 'Nous avons entendu',
+      ready: 'Votre micro est prêt.',
+      failed: 'Le test du micro a échoué. Vérifiez que le navigateur peut utiliser votre micro.',
+      warnings: {
+        'no-input': "Nous ne vous avons pas entendu. Vérifiez que le bon micro est sélectionné et qu'il n'est pas coupé.",
+        'low-input': "Votre voix est très faible. Rapprochez-vous du micro ou augmentez son niveau d'entrée.",
+        'clipping': "Votre voix sature. Éloignez-vous du micro ou baissez son niveau d'entrée.",
+        'noisy-room': "Il y a beaucoup de bruit de fond. Une pièce plus calme aidera l'intervieweur à vous entendre.",
+        'stt-failed': "La reconnaissance vocale n'a renvoyé aucun texte. Ce navigateur ne prend peut-être pas en charge la langue de l'entretien.",
+        'stt-mismatch': "La reconnaissance vocale a mal compris la phrase. Vérifiez que la langue de l'entretien est celle que vous parlez."
+      }
+    },
+    resume: {
+      title: 'Reprendre votre entretien ?',
+      details: (question, savedAt) => `Votre dernier entretien a été interrompu à la question ${question} (enregistré le ${savedAt}).`,
+      resume: "Reprendre l'entretien",
+      startOver: 'Recommencer'
+    },
+    intents: {
+      pauseReply: 'Bien sûr, prenez votre temps.',
+      endConfirm: "Voulez-vous terminer l'entretien maintenant ? Dites oui pour terminer, ou autre chose pour continuer.",
+      endReply: "Merci pour votre temps. L'entretien est terminé.",
+      skippedAnswer: '(Le candidat a demandé à passer cette question.)'
+    },
+    errors: {
+      title: 'Erreur :',
+      tryAgain: 'Réessayer',
+      startFailed: "Impossible de démarrer l'entretien. Vérifiez votre connexion et l'autorisation du micro.",
+      speakFailed: 'Impossible de lire la question à voix haute. Vérifiez vos réglages audio.',
+      processingFailed: 'Impossible de traiter votre réponse. Veuillez réessayer.'
+    },
+    degraded: {
+      title: '⚠️ Mode de secours',
+      messages: {
+        'not-configured': "Aucun modèle d'IA n'est configuré, l'intervieweur utilise donc des questions prédéfinies.",
+        'auth': "Le service d'IA a refusé ses identifiants, l'intervieweur utilise donc des questions prédéfinies.",
+        'rate-limit': "Le service d'IA limite les requêtes, l'intervieweur utilise donc des questions prédéfinies pour le moment.",
+        'network': "Le service d'IA est lent ou injoignable, l'intervieweur utilise donc des questions prédéfinies pour le moment.",
+        'bad-output': "Le modèle d'IA a renvoyé une réponse inutilisable, l'intervieweur a donc utilisé une question prédéfinie.",
+        'unknown': "Le service d'IA a échoué, l'intervieweur utilise donc des questions prédéfinies pour le moment."
+      }
+    },
+    progress: {
+      candidateQuestions: 'Vos questions pour nous',
+      question: (number, max) => `Question ${number}${max ? ` sur ${max}` : ''}`,
+      latency: seconds => `Temps de réponse : ${seconds} s`,
+      idle: 'Entretien IA avec VAD'
+    },
+    transcript: {
+      currentQuestion: 'Question en cours :',
+      yourResponse: 'Votre réponse :',
+      confidence: 'Confiance',
+      listening: 'Écoute...',
+      speakingDetected: '🎤 Parole détectée',
+      hint: "La détection d'activité vocale repère automatiquement la fin de votre réponse."
+    },
+    indicators: {
+      aiSpeaking: "L'IA parle",
+      listening: 'Écoute',
+      vadActive: 'VAD actif',
+      processing: "L'IA réfléchit"
+    },
+    completed: {
+      title: 'Entretien terminé avec succès !',
+      summary: questions => `Vous avez terminé un entretien IA de ${questions} question${questions === 1 ? '' : 's'} avec détection d'activité vocale. L'IA a adapté ses questions à vos réponses en temps réel.`,
+      preparingReport: 'Préparation du rapport candidat...',
+      reportFailed: "Le rapport candidat n'a pas pu être généré.",
+      retryReport: 'Relancer le rapport',
+      startNew: 'Nouvel entretien'
+    },
+    codeEditor: {
+      heading: 'Exercice de programmation',
+      size: (lines, characters, maxCharacters) => `${lines} ligne${lines === 1 ? '' : 's'} · ${characters}/${maxCharacters} caractères`,
+      placeholder: 'Écrivez votre solution ici et expliquez votre démarche au fur et à mesure.',
+      hint: 'Continuez à réfléchir à voix haute pendant que vous codez. Soumettez quand vous êtes prêt à en discuter.',
+      submit: 'Soumettre la solution'
+    },
+    welcome: "Bienvenue dans votre entretien IA propulsé par Groq, avec détection vocale avancée. Je détecterai automatiquement quand vous aurez fini de parler. Parlez clairement et naturellement. Commençons.",
+    silentSubmission: '(Le candidat a soumis son code sans commentaire.)'
+  },
+  de: {
+    states: {
+      waiting: { title: 'KI-Interview bereit', subtitle: 'KI-Interview in Echtzeit mit fortschrittlicher Spracherkennung' },
+      asking: { title: 'Der Interviewer spricht', subtitle: 'Hören Sie sich die Frage aufmerksam an...' },
+      listening: { title: 'Sie sind dran', subtitle: 'Sprechen Sie ganz natürlich, ich erkenne, wann Sie fertig sind' },
+      processing: { title: 'Antwort wird verarbeitet', subtitle: 'Ihre Antwort wird analysiert und die nächste Frage vorbereitet...' },
+      completed: { title: 'Interview abgeschlossen', subtitle: 'Vielen Dank für das Gespräch!' },
+      error: { title: 'Ein Fehler ist aufgetreten', subtitle: 'Während des Interviews ist etwas schiefgelaufen' }
+    },
+    setup: {
+      jobDescriptionLabel: 'Stellenbeschreibung (optional)',
+      jobDescriptionPlaceholder: 'Fügen Sie die Stellenbeschreibung ein, um die Fragen auf die Rolle zuzuschneiden',
+      resumeLabel: 'Lebenslauf (optional)',
+      resumePlaceholder: 'Fügen Sie Ihren Lebenslauf ein, damit der Interviewer nach Ihrer Erfahrung fragen kann',
+      uploadDocument: '.txt, .md oder .pdf hochladen',
+      readingDocument: 'Wird gelesen...',
+      questionCount: 'Anzahl der Fragen',
+      timeLimit: 'Zeitlimit (Minuten)',
+      noLimit: 'Kein Limit',
+      interviewType: 'Interviewart',
+      interviewTypes: { general: 'Allgemein', technical: 'Technisch (mit Programmieraufgabe)' },
+      language: 'Interviewsprache',
+      jurisdiction: 'Rechtsraum der Einstellung',
+      start: 'KI-Interview starten',
+      unsupported: 'Spracherkennung nicht unterstützt',
+      unsupportedHelp: 'Bitte verwenden Sie einen unterstützten Browser (Chrome oder Edge) mit Mikrofonzugriff für die fortschrittliche Spracherkennung.',
+      unsupportedAlert: 'Ihr Browser unterstützt keine Spracherkennung oder Sprachaktivitätserkennung. Bitte verwenden Sie Chrome oder Edge mit Mikrofonzugriff.',
+      lengthRequiredAlert: 'Bitte legen Sie eine Anzahl von Fragen, ein Zeitlimit in Minuten oder beides fest.'
+    },
+    voice: {
+      voice: 'Stimme des Interviewers',
+      automatic: 'Automatisch',
+      rate: 'Sprechtempo',
+      pitch: 'Tonhöhe',
+      preview: 'Stimme anhören',
+      sample: 'Hallo! So werde ich während Ihres Interviews klingen.'
+    },
+    microphone: {
+      label: 'Mikrofon',
+      systemDefault: 'Systemstandard',
+      unnamed: number => `Mikrofon ${number}`,
+      level: 'Eingangspegel',
+      changedTitle: 'Ihre Mikrofone haben sich geändert',
+      changedMessage: 'Ein Mikrofon wurde angeschlossen oder entfernt, daher ist das Interview pausiert. Wählen Sie das gewünschte Mikrofon und fahren Sie dann fort.',
+      continue: 'Interview fortsetzen'
+    },
+    micCheck: {
+      title: 'Mikrofontest',
+      start: 'Mikrofon testen',
+      again: 'Erneut testen',
+      quiet: 'Bitte bleiben Sie einige Sekunden still, während wir die Umgebung messen.',
+      read: 'Lesen Sie nun diesen Satz laut vor:',
+      sentence: 'Ich möchte mein Interview beginnen und werde jede Frage klar beantworten.',
+      finished: 'Fertig gelesen',
+      analyzing: 'Ergebnisse werden geprüft...',
+      heard: 'Wir haben gehört',
+      ready: 'Ihr Mikrofon ist bereit.',
+      failed: 'Der Mikrofontest ist fehlgeschlagen. Prüfen Sie, ob der Browser Ihr Mikrofon verwenden darf.',
+      warnings: {
+        'no-input': 'Wir haben Sie nicht gehört. Prüfen Sie, ob das richtige Mikrofon ausgewählt und nicht stummgeschaltet ist.',
+        'low-input': 'Ihre Stimme ist sehr leise. Gehen Sie näher an das Mikrofon oder erhöhen Sie den Eingangspegel.',
+        'clipping': 'Ihre Stimme übersteuert. Gehen Sie etwas vom Mikrofon weg oder senken Sie den Eingangspegel.',
+        'noisy-room': 'Es gibt viele Hintergrundgeräusche. In einem ruhigeren Raum versteht der Interviewer Sie besser.',
+        'stt-failed': 'Die Spracherkennung hat keinen Text geliefert. Dieser Browser unterstützt die Interviewsprache möglicherweise nicht.',
+        'stt-mismatch': 'Die Spracherkennung hat den Satz schlecht verstanden. Prüfen Sie, ob die Interviewsprache Ihrer Sprache entspricht.'
+      }
+    },
+    resume: {
+      title: 'Interview fortsetzen?',
+      details: (question, savedAt) => `Ihr letztes Interview wurde bei Frage ${question} unterbrochen (gespeichert am ${savedAt}).`,
+      resume: 'Interview fortsetzen',
+      startOver: 'Neu beginnen'
+    },
+    intents: {
+      pauseReply: 'Natürlich, nehmen Sie sich Zeit.',
+      endConfirm: 'Möchten Sie das Interview jetzt beenden? Sagen Sie ja zum Beenden, oder etwas anderes, um fortzufahren.',
+      endReply: 'Vielen Dank für Ihre Zeit. Das Interview ist jetzt beendet.',
+      skippedAnswer: '(Der Kandidat hat gebeten, diese Frage zu überspringen.)'
+    },
+    errors: {
+      title: 'Fehler:',
+      tryAgain: 'Erneut versuchen',
+      startFailed: 'Das Interview konnte nicht gestartet werden. Bitte prüfen Sie Ihre Verbindung und die Mikrofonberechtigung.',
+      speakFailed: 'Die Frage konnte nicht vorgelesen werden. Bitte prüfen Sie Ihre Audioeinstellungen.',
+      processingFailed: 'Ihre Antwort konnte nicht verarbeitet werden. Bitte versuchen Sie es erneut.'
+    },
+    degraded: {
+      title: '⚠️ Ausweichmodus',
+      messages: {
+        'not-configured': 'Es ist kein KI-Modell konfiguriert, daher verwendet der Interviewer vordefinierte Fragen.',
+        'auth': 'Der KI-Dienst hat die Zugangsdaten abgelehnt, daher verwendet der Interviewer vordefinierte Fragen.',
+        'rate-limit': 'Der KI-Dienst begrenzt die Anfragen, daher verwendet der Interviewer vorerst vordefinierte Fragen.',
+        'network': 'Der KI-Dienst ist langsam oder nicht erreichbar, daher verwendet der Interviewer vorerst vordefinierte Fragen.',
+        'bad-output': 'Das KI-Modell hat eine unbrauchbare Antwort geliefert, daher hat der Interviewer eine vordefinierte Frage verwendet.',
+        'unknown': 'Der KI-Dienst ist ausgefallen, daher verwendet der Interviewer vorerst vordefinierte Fragen.'
+      }
+    },
+    progress: {
+      candidateQuestions: 'Ihre Fragen an uns',
+      question: (number, max) => `Frage ${number}${max ? ` von ${max}` : ''}`,
+      latency: seconds => `Antwortzeit: ${seconds} s`,
+      idle: 'KI-Interview mit VAD'
+    },
+    transcript: {
+      currentQuestion: 'Aktuelle Frage:',
+      yourResponse: 'Ihre Antwort:',
+      confidence: 'Sicherheit',
+      listening: 'Hört zu...',
+      speakingDetected: '🎤 Sprache erkannt',
+      hint: 'Die Sprachaktivitätserkennung erkennt automatisch, wann Sie fertig gesprochen haben.'
+    },
+    indicators: {
+      aiSpeaking: 'KI spricht',
+      listening: 'Hört zu',
+      vadActive: 'VAD aktiv',
+      processing: 'KI verarbeitet'
+    },
+    completed: {
+      title: 'Interview erfolgreich abgeschlossen!',
+      summary: questions => `Sie haben ein KI-Interview mit ${questions} Frage${questions === 1 ? '' : 'n'} und Sprachaktivitätserkennung abgeschlossen. Die KI hat ihre Fragen in Echtzeit an Ihre Antworten angepasst.`,
+      preparingReport: 'Kandidatenbericht wird erstellt...',
+      reportFailed: 'Der Kandidatenbericht konnte nicht erstellt werden.',
+      retryReport: 'Bericht erneut erstellen',
+      startNew: 'Neues Interview starten'
+    },
+    codeEditor: {
+      heading: 'Programmieraufgabe',
+      size: (lines, characters, maxCharacters) => `${lines} Zeile${lines === 1 ? '' : 'n'} · ${characters}/${maxCharacters} Zeichen`,
+      placeholder: 'Schreiben Sie hier Ihre Lösung und erklären Sie dabei Ihren Ansatz.',
+      hint: 'Denken Sie beim Programmieren weiter laut nach. Reichen Sie Ihre Lösung ein, wenn Sie bereit sind, darüber zu sprechen.',
+      submit: 'Lösung einreichen'
+    },
+    welcome: 'Willkommen zu Ihrem KI-Interview mit Groq und fortschrittlicher Spracherkennung. Ich erkenne automatisch, wann Sie fertig gesprochen haben. Bitte sprechen Sie klar und natürlich. Fangen wir an.',
+    silentSubmission: '(Der Kandidat hat seinen Code ohne Kommentar eingereicht.)'
+  }
+};